@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ProjectBranch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "messages" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProjectBranch_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ProjectVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "branchId" TEXT,
+    "messageIndex" INTEGER NOT NULL,
+    "data" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProjectVersion_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ProjectVersion_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "ProjectBranch" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_ProjectVersion" ("createdAt", "data", "id", "messageIndex", "projectId") SELECT "createdAt", "data", "id", "messageIndex", "projectId" FROM "ProjectVersion";
+DROP TABLE "ProjectVersion";
+ALTER TABLE "new_ProjectVersion" RENAME TO "ProjectVersion";
+CREATE INDEX "ProjectVersion_projectId_createdAt_idx" ON "ProjectVersion"("projectId", "createdAt");
+CREATE INDEX "ProjectVersion_branchId_idx" ON "ProjectVersion"("branchId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ProjectBranch_projectId_createdAt_idx" ON "ProjectBranch"("projectId", "createdAt");
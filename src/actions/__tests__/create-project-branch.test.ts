@@ -0,0 +1,195 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { createProjectBranch } from "../create-project-branch";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    project: {
+      findFirst: vi.fn(),
+      update: vi.fn(() => "update-op"),
+    },
+    projectBranch: {
+      create: vi.fn(() => "branch-op"),
+    },
+    projectVersion: {
+      findMany: vi.fn(),
+      createMany: vi.fn(() => "copy-op"),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+describe("createProjectBranch", () => {
+  const mockSession = {
+    userId: "user-123",
+    email: "test@example.com",
+    expiresAt: new Date(),
+  };
+
+  const messages = [
+    { role: "user", content: "Create a button" },
+    { role: "assistant", content: "Done" },
+    { role: "user", content: "Make it red" },
+    { role: "assistant", content: "Done" },
+  ];
+
+  const file = (content: string) => ({
+    "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx", content },
+  });
+
+  const versions = [
+    {
+      id: "v1",
+      messageIndex: 2,
+      data: JSON.stringify(file("v1")),
+      createdAt: new Date("2024-01-01"),
+    },
+    {
+      id: "v2",
+      messageIndex: 4,
+      data: JSON.stringify(file("v2")),
+      createdAt: new Date("2024-01-02"),
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("keeps the current line as a branch and goes back to the message", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.project.findFirst).mockResolvedValue({
+      messages: JSON.stringify(messages),
+    });
+    vi.mocked(prisma.projectVersion.findMany).mockResolvedValue(versions);
+
+    const result = await createProjectBranch(
+      "project-123",
+      2,
+      file("edited") as any
+    );
+
+    expect(result).toEqual({
+      messages: messages.slice(0, 2),
+      data: file("v1"),
+    });
+    expect(prisma.projectBranch.create).toHaveBeenCalledWith({
+      data: {
+        projectId: "project-123",
+        name: "Make it red",
+        messages: JSON.stringify(messages),
+        data: JSON.stringify(file("edited")),
+        versions: { connect: [{ id: "v1" }, { id: "v2" }] },
+      },
+    });
+    // Checkpoints from before the message stay in the new line
+    expect(prisma.projectVersion.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          projectId: "project-123",
+          messageIndex: 2,
+          data: versions[0].data,
+          createdAt: versions[0].createdAt,
+        },
+      ],
+    });
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: {
+        messages: JSON.stringify(messages.slice(0, 2)),
+        data: versions[0].data,
+      },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledWith([
+      "branch-op",
+      "copy-op",
+      "update-op",
+    ]);
+  });
+
+  test("goes back to the starting checkpoint from the first message", async () => {
+    const startVersion = {
+      id: "v0",
+      messageIndex: 0,
+      data: JSON.stringify(file("imported")),
+      createdAt: new Date("2023-12-31"),
+    };
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.project.findFirst).mockResolvedValue({
+      messages: JSON.stringify(messages),
+    });
+    vi.mocked(prisma.projectVersion.findMany).mockResolvedValue([
+      startVersion,
+      ...versions,
+    ]);
+
+    const result = await createProjectBranch("project-123", 0, {});
+
+    expect(result).toEqual({ messages: [], data: file("imported") });
+    expect(prisma.projectVersion.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          projectId: "project-123",
+          messageIndex: 0,
+          data: startVersion.data,
+          createdAt: startVersion.createdAt,
+        },
+      ],
+    });
+  });
+
+  test("throws when there is no checkpoint to go back to", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.project.findFirst).mockResolvedValue({
+      messages: JSON.stringify(messages),
+    });
+    vi.mocked(prisma.projectVersion.findMany).mockResolvedValue(versions);
+
+    await expect(createProjectBranch("project-123", 0, {})).rejects.toThrow(
+      "Checkpoint not found"
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("only branches from user messages", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.project.findFirst).mockResolvedValue({
+      messages: JSON.stringify(messages),
+    });
+
+    await expect(createProjectBranch("project-123", 1, {})).rejects.toThrow(
+      "Message not found"
+    );
+    await expect(createProjectBranch("project-123", 9, {})).rejects.toThrow(
+      "Message not found"
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("throws when the project is not the user's", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.project.findFirst).mockResolvedValue(null);
+
+    await expect(createProjectBranch("project-123", 0, {})).rejects.toThrow(
+      "Project not found"
+    );
+    expect(prisma.project.findFirst).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      select: { messages: true },
+    });
+  });
+
+  test("throws when not authenticated", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    await expect(createProjectBranch("project-123", 0, {})).rejects.toThrow(
+      "Unauthorized"
+    );
+  });
+});
@@ -61,6 +61,9 @@ describe("createProject", () => {
         userId: "user-123",
         messages: JSON.stringify([{ role: "user", content: "Hello" }]),
         data: JSON.stringify({ files: { "/test.txt": "content" } }),
+        versions: {
+          create: { messageIndex: 1, data: JSON.stringify({ files: { "/test.txt": "content" } }) },
+        },
       },
     });
     expect(result).toEqual(mockProject);
@@ -103,6 +106,9 @@ describe("createProject", () => {
         userId: "user-123",
         messages: JSON.stringify(complexMessages),
         data: JSON.stringify({}),
+        versions: {
+          create: { messageIndex: 3, data: JSON.stringify({}) },
+        },
       },
     });
   });
@@ -137,6 +143,9 @@ describe("createProject", () => {
         userId: "user-123",
         messages: JSON.stringify([]),
         data: JSON.stringify(complexData),
+        versions: {
+          create: { messageIndex: 0, data: JSON.stringify(complexData) },
+        },
       },
     });
   });
@@ -159,6 +168,9 @@ describe("createProject", () => {
         userId: "user-123",
         messages: "[]",
         data: "{}",
+        versions: {
+          create: { messageIndex: 0, data: "{}" },
+        },
       },
     });
   });
@@ -184,6 +196,9 @@ describe("createProject", () => {
         userId: "user-123",
         messages: "[]",
         data: "{}",
+        versions: {
+          create: { messageIndex: 0, data: "{}" },
+        },
       },
     });
   });
@@ -219,6 +234,9 @@ describe("createProject", () => {
         userId: "user-123",
         messages: JSON.stringify([{ role: "user", content: null }]),
         data: JSON.stringify({ nullValue: null }),
+        versions: {
+          create: { messageIndex: 1, data: JSON.stringify({ nullValue: null }) },
+        },
       },
     });
   });
@@ -242,6 +260,9 @@ describe("createProject", () => {
         userId: "user-123",
         messages: "[]",
         data: "{}",
+        versions: {
+          create: { messageIndex: 0, data: "{}" },
+        },
       },
     });
   });
@@ -273,6 +294,9 @@ describe("createProject", () => {
         userId: "user-123",
         messages: "[]",
         data: JSON.stringify(largeData),
+        versions: {
+          create: { messageIndex: 0, data: JSON.stringify(largeData) },
+        },
       },
     });
   });
@@ -320,6 +344,9 @@ describe("createProject", () => {
         userId: "different-user-456",
         messages: "[]",
         data: "{}",
+        versions: {
+          create: { messageIndex: 0, data: "{}" },
+        },
       },
     });
   });
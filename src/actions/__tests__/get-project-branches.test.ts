@@ -0,0 +1,58 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { getProjectBranches } from "../get-project-branches";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    projectBranch: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+describe("getProjectBranches", () => {
+  const mockSession = {
+    userId: "user-123",
+    email: "test@example.com",
+    expiresAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("returns the project's branches newest first", async () => {
+    const branches = [
+      { id: "b2", name: "Make it red", createdAt: new Date("2024-01-02") },
+      { id: "b1", name: "Make it blue", createdAt: new Date("2024-01-01") },
+    ];
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.projectBranch.findMany).mockResolvedValue(branches);
+
+    const result = await getProjectBranches("project-123");
+
+    expect(result).toEqual(branches);
+    expect(prisma.projectBranch.findMany).toHaveBeenCalledWith({
+      where: {
+        projectId: "project-123",
+        project: { userId: "user-123" },
+      },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, name: true, createdAt: true },
+    });
+  });
+
+  test("throws when not authenticated", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    await expect(getProjectBranches("project-123")).rejects.toThrow(
+      "Unauthorized"
+    );
+  });
+});
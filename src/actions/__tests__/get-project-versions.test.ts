@@ -0,0 +1,60 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { getProjectVersions } from "../get-project-versions";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    projectVersion: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+describe("getProjectVersions", () => {
+  const mockSession = {
+    userId: "user-123",
+    email: "test@example.com",
+    expiresAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("returns the project's versions newest first", async () => {
+    const versions = [
+      { id: "v2", messageIndex: 4, createdAt: new Date("2024-01-02") },
+      { id: "v1", messageIndex: 2, createdAt: new Date("2024-01-01") },
+    ];
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.projectVersion.findMany).mockResolvedValue(versions);
+
+    const result = await getProjectVersions("project-123");
+
+    expect(result).toEqual(versions);
+    expect(prisma.projectVersion.findMany).toHaveBeenCalledWith({
+      where: {
+        projectId: "project-123",
+        branchId: null,
+        project: { userId: "user-123" },
+      },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, messageIndex: true, createdAt: true },
+    });
+  });
+
+  test("throws error when user is not authenticated", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    await expect(getProjectVersions("project-123")).rejects.toThrow(
+      "Unauthorized"
+    );
+    expect(prisma.projectVersion.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { getUsageStats } from "../get-usage-stats";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    tokenUsage: {
+      groupBy: vi.fn(),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+function modelUsage(model: string, turns: number, tokens: number) {
+  return {
+    model,
+    _count: { _all: turns },
+    _sum: {
+      promptTokens: tokens,
+      completionTokens: tokens,
+      cacheReadTokens: tokens,
+      cacheWriteTokens: null,
+    },
+  };
+}
+
+describe("getUsageStats", () => {
+  const mockSession = {
+    userId: "user-123",
+    email: "test@example.com",
+    expiresAt: new Date(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("totals the project's and the user's usage", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.tokenUsage.groupBy)
+      .mockResolvedValueOnce([modelUsage("claude-sonnet-4-0", 2, 1_000_000)])
+      .mockResolvedValueOnce([
+        modelUsage("claude-sonnet-4-0", 3, 2_000_000),
+        modelUsage("unknown-model", 1, 500_000),
+      ]);
+
+    const result = await getUsageStats("project-123");
+
+    expect(result.project).toEqual({
+      turns: 2,
+      promptTokens: 1_000_000,
+      completionTokens: 1_000_000,
+      cacheReadTokens: 1_000_000,
+      cacheWriteTokens: 0,
+      cost: 18.3,
+    });
+    expect(result.user).toMatchObject({
+      turns: 4,
+      promptTokens: 2_500_000,
+      cost: 36.6,
+    });
+    expect(prisma.tokenUsage.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        by: ["model"],
+        where: { userId: "user-123", projectId: "project-123" },
+      })
+    );
+    expect(prisma.tokenUsage.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: "user-123" } })
+    );
+  });
+
+  test("throws when not authenticated", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    await expect(getUsageStats("project-123")).rejects.toThrow("Unauthorized");
+    expect(prisma.tokenUsage.groupBy).not.toHaveBeenCalled();
+  });
+});
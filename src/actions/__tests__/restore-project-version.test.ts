@@ -0,0 +1,113 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { restoreProjectVersion } from "../restore-project-version";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    project: {
+      update: vi.fn(() => "update-op"),
+    },
+    projectVersion: {
+      findFirst: vi.fn(),
+      deleteMany: vi.fn(() => "delete-op"),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+describe("restoreProjectVersion", () => {
+  const mockSession = {
+    userId: "user-123",
+    email: "test@example.com",
+    expiresAt: new Date(),
+  };
+
+  const messages = [
+    { role: "user", content: "Create a button" },
+    { role: "assistant", content: "Done" },
+    { role: "user", content: "Make it red" },
+    { role: "assistant", content: "Done" },
+  ];
+
+  const snapshot = {
+    "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx", content: "v1" },
+  };
+
+  const mockVersion = {
+    id: "version-1",
+    projectId: "project-123",
+    messageIndex: 2,
+    data: JSON.stringify(snapshot),
+    createdAt: new Date("2024-01-01"),
+    project: { messages: JSON.stringify(messages) },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("restores the snapshot and trims the chat", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.projectVersion.findFirst).mockResolvedValue(mockVersion);
+
+    const result = await restoreProjectVersion("project-123", "version-1");
+
+    expect(result).toEqual({
+      messages: messages.slice(0, 2),
+      data: snapshot,
+    });
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: {
+        messages: JSON.stringify(messages.slice(0, 2)),
+        data: mockVersion.data,
+      },
+    });
+    expect(prisma.projectVersion.deleteMany).toHaveBeenCalledWith({
+      where: {
+        projectId: "project-123",
+        branchId: null,
+        createdAt: { gt: mockVersion.createdAt },
+      },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledWith([
+      "update-op",
+      "delete-op",
+    ]);
+  });
+
+  test("only looks up versions of the user's own project", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.projectVersion.findFirst).mockResolvedValue(null);
+
+    await expect(
+      restoreProjectVersion("project-123", "version-1")
+    ).rejects.toThrow("Version not found");
+    expect(prisma.projectVersion.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: "version-1",
+          projectId: "project-123",
+          branchId: null,
+          project: { userId: "user-123" },
+        },
+      })
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("throws error when user is not authenticated", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    await expect(
+      restoreProjectVersion("project-123", "version-1")
+    ).rejects.toThrow("Unauthorized");
+    expect(prisma.projectVersion.findFirst).not.toHaveBeenCalled();
+  });
+});
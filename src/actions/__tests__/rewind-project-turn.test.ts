@@ -0,0 +1,113 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { rewindProjectTurn } from "../rewind-project-turn";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    project: {
+      update: vi.fn(() => "update-op"),
+    },
+    projectVersion: {
+      findFirst: vi.fn(),
+      deleteMany: vi.fn(() => "delete-op"),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+describe("rewindProjectTurn", () => {
+  const mockSession = {
+    userId: "user-123",
+    email: "test@example.com",
+    expiresAt: new Date(),
+  };
+
+  const messages = [
+    { role: "user", content: "Create a button" },
+    { role: "assistant", content: "Done" },
+    { role: "user", content: "Make it red" },
+    { role: "assistant", content: "Done" },
+  ];
+
+  const snapshot = {
+    "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx", content: "v1" },
+  };
+
+  const mockCheckpoint = {
+    id: "version-1",
+    projectId: "project-123",
+    messageIndex: 2,
+    data: JSON.stringify(snapshot),
+    createdAt: new Date("2024-01-01"),
+    project: { messages: JSON.stringify(messages) },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("goes back to the checkpoint before the message and drops later ones", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.projectVersion.findFirst).mockResolvedValue(
+      mockCheckpoint
+    );
+
+    const result = await rewindProjectTurn("project-123", 2);
+
+    expect(result).toEqual({ data: snapshot });
+    expect(prisma.projectVersion.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          projectId: "project-123",
+          branchId: null,
+          messageIndex: { lte: 2 },
+          project: { userId: "user-123" },
+        },
+        orderBy: { createdAt: "desc" },
+      })
+    );
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: {
+        messages: JSON.stringify(messages.slice(0, 2)),
+        data: mockCheckpoint.data,
+      },
+    });
+    expect(prisma.projectVersion.deleteMany).toHaveBeenCalledWith({
+      where: {
+        projectId: "project-123",
+        branchId: null,
+        messageIndex: { gt: 2 },
+      },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledWith([
+      "update-op",
+      "delete-op",
+    ]);
+  });
+
+  test("throws when there is no checkpoint to go back to", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.projectVersion.findFirst).mockResolvedValue(null);
+
+    await expect(rewindProjectTurn("project-123", 2)).rejects.toThrow(
+      "Checkpoint not found"
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("throws error when user is not authenticated", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    await expect(rewindProjectTurn("project-123", 2)).rejects.toThrow(
+      "Unauthorized"
+    );
+    expect(prisma.projectVersion.findFirst).not.toHaveBeenCalled();
+  });
+});
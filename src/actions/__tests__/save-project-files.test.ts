@@ -0,0 +1,92 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { saveProjectFiles } from "../save-project-files";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    project: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+describe("saveProjectFiles", () => {
+  const mockSession = {
+    userId: "user-123",
+    email: "test@example.com",
+    expiresAt: new Date(),
+  };
+
+  const data = {
+    "/App.jsx": { type: "file" as const, name: "App.jsx", path: "/App.jsx", content: "x" },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("throws when not authenticated", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    await expect(saveProjectFiles("project-123", data)).rejects.toThrow(
+      "Unauthorized"
+    );
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+
+  test("throws when the project belongs to someone else", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.project.findFirst).mockResolvedValue(null);
+
+    await expect(saveProjectFiles("project-123", data)).rejects.toThrow(
+      "Project not found"
+    );
+    expect(prisma.project.findFirst).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      select: { messages: true },
+    });
+  });
+
+  test("saves the files and checkpoints them after the last message", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.project.findFirst).mockResolvedValue({
+      messages: JSON.stringify([
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+      ]),
+    } as any);
+
+    await saveProjectFiles("project-123", data);
+
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: {
+        data: JSON.stringify(data),
+        versions: {
+          create: { messageIndex: 2, data: JSON.stringify(data) },
+        },
+      },
+    });
+  });
+
+  test("only updates the project files when not checkpointing", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.project.findFirst).mockResolvedValue({
+      messages: "[]",
+    } as any);
+
+    await saveProjectFiles("project-123", data, { checkpoint: false });
+
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: { data: JSON.stringify(data) },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { switchProjectBranch } from "../switch-project-branch";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    project: {
+      update: vi.fn(() => "update-op"),
+    },
+    projectBranch: {
+      findFirst: vi.fn(),
+      create: vi.fn(() => "park-op"),
+      delete: vi.fn(() => "delete-op"),
+    },
+    projectVersion: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(() => "versions-op"),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+describe("switchProjectBranch", () => {
+  const mockSession = {
+    userId: "user-123",
+    email: "test@example.com",
+    expiresAt: new Date(),
+  };
+
+  const currentMessages = [
+    { role: "user", content: "Create a button" },
+    { role: "assistant", content: "Done" },
+  ];
+  const branchMessages = [
+    { role: "user", content: "Create a card" },
+    { role: "assistant", content: "Done" },
+  ];
+  const branchData = {
+    "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx", content: "card" },
+  };
+
+  const mockBranch = {
+    id: "branch-1",
+    projectId: "project-123",
+    name: "Create a card",
+    messages: JSON.stringify(branchMessages),
+    data: JSON.stringify(branchData),
+    createdAt: new Date("2024-01-01"),
+    project: { messages: JSON.stringify(currentMessages) },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("swaps the branch with the current line", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.projectBranch.findFirst).mockResolvedValue(mockBranch);
+    vi.mocked(prisma.projectVersion.findMany).mockResolvedValue([
+      { id: "v1" },
+    ]);
+
+    const result = await switchProjectBranch("project-123", "branch-1", {});
+
+    expect(result).toEqual({ messages: branchMessages, data: branchData });
+    expect(prisma.projectBranch.create).toHaveBeenCalledWith({
+      data: {
+        projectId: "project-123",
+        name: "Create a button",
+        messages: JSON.stringify(currentMessages),
+        data: "{}",
+        versions: { connect: [{ id: "v1" }] },
+      },
+    });
+    expect(prisma.projectVersion.updateMany).toHaveBeenCalledWith({
+      where: { branchId: "branch-1" },
+      data: { branchId: null },
+    });
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: { messages: mockBranch.messages, data: mockBranch.data },
+    });
+    expect(prisma.projectBranch.delete).toHaveBeenCalledWith({
+      where: { id: "branch-1" },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledWith([
+      "park-op",
+      "versions-op",
+      "update-op",
+      "delete-op",
+    ]);
+  });
+
+  test("only looks up branches of the user's own project", async () => {
+    vi.mocked(getSession).mockResolvedValue(mockSession);
+    vi.mocked(prisma.projectBranch.findFirst).mockResolvedValue(null);
+
+    await expect(
+      switchProjectBranch("project-123", "branch-1", {})
+    ).rejects.toThrow("Branch not found");
+    expect(prisma.projectBranch.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: "branch-1",
+          projectId: "project-123",
+          project: { userId: "user-123" },
+        },
+      })
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("throws when not authenticated", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    await expect(
+      switchProjectBranch("project-123", "branch-1", {})
+    ).rejects.toThrow("Unauthorized");
+  });
+});
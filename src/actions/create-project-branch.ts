@@ -0,0 +1,100 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getBranchName } from "@/lib/project-branches";
+import type { FileNode } from "@/lib/file-system";
+
+// Fork the conversation just before one of its user messages. The current
+// line (with the given files, which may be newer than the saved ones) is
+// kept as a branch, and the project goes back to the messages and files it
+// had at that point.
+export async function createProjectBranch(
+  projectId: string,
+  messageIndex: number,
+  data: Record<string, FileNode>
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    select: { messages: true },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const allMessages = JSON.parse(project.messages);
+  if (allMessages[messageIndex]?.role !== "user") {
+    throw new Error("Message not found");
+  }
+
+  const versions = await prisma.projectVersion.findMany({
+    where: {
+      projectId,
+      branchId: null,
+    },
+    orderBy: {
+      createdAt: "asc",
+    },
+  });
+
+  // Checkpoints from before the message are shared with the new line, and
+  // the latest of them holds the files as they were at that message. Every
+  // project starts with a checkpoint, so only projects from before those
+  // were recorded can be missing one.
+  const sharedVersions = versions.filter(
+    (version) => version.messageIndex <= messageIndex
+  );
+  const forkVersion = sharedVersions.at(-1);
+  if (!forkVersion) {
+    throw new Error("Checkpoint not found");
+  }
+  const forkData = forkVersion.data;
+  const messages = allMessages.slice(0, messageIndex);
+
+  await prisma.$transaction([
+    prisma.projectBranch.create({
+      data: {
+        projectId,
+        name: getBranchName(allMessages),
+        messages: project.messages,
+        data: JSON.stringify(data),
+        versions: {
+          connect: versions.map(({ id }) => ({ id })),
+        },
+      },
+    }),
+    prisma.projectVersion.createMany({
+      data: sharedVersions.map((version) => ({
+        projectId,
+        messageIndex: version.messageIndex,
+        data: version.data,
+        createdAt: version.createdAt,
+      })),
+    }),
+    prisma.project.update({
+      where: {
+        id: projectId,
+        userId: session.userId,
+      },
+      data: {
+        messages: JSON.stringify(messages),
+        data: forkData,
+      },
+    }),
+  ]);
+
+  return {
+    messages,
+    data: JSON.parse(forkData),
+  };
+}
@@ -16,12 +16,22 @@ export async function createProject(input: CreateProjectInput) {
     throw new Error("Unauthorized");
   }
 
+  const serializedData = JSON.stringify(input.data);
+
   const project = await prisma.project.create({
     data: {
       name: input.name,
       userId: session.userId,
       messages: JSON.stringify(input.messages),
-      data: JSON.stringify(input.data),
+      data: serializedData,
+      // The starting checkpoint, which branches from the first message go
+      // back to
+      versions: {
+        create: {
+          messageIndex: input.messages.length,
+          data: serializedData,
+        },
+      },
     },
   });
 
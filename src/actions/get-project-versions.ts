@@ -0,0 +1,32 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export async function getProjectVersions(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const versions = await prisma.projectVersion.findMany({
+    where: {
+      projectId,
+      branchId: null,
+      project: {
+        userId: session.userId,
+      },
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      messageIndex: true,
+      createdAt: true,
+    },
+  });
+
+  return versions;
+}
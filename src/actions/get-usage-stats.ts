@@ -0,0 +1,85 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { UsageTotals, calculateCost } from "@/lib/token-usage";
+
+const USAGE_SUMS = {
+  promptTokens: true,
+  completionTokens: true,
+  cacheReadTokens: true,
+  cacheWriteTokens: true,
+} as const;
+
+interface ModelUsage {
+  model: string;
+  _count: { _all: number };
+  _sum: {
+    promptTokens: number | null;
+    completionTokens: number | null;
+    cacheReadTokens: number | null;
+    cacheWriteTokens: number | null;
+  };
+}
+
+// Costs are worked out per model, as each is priced differently
+function toTotals(rows: ModelUsage[]): UsageTotals {
+  const totals: UsageTotals = {
+    turns: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+  };
+
+  for (const { model, _count, _sum } of rows) {
+    const usage = {
+      promptTokens: _sum.promptTokens ?? 0,
+      completionTokens: _sum.completionTokens ?? 0,
+      cacheReadTokens: _sum.cacheReadTokens ?? 0,
+      cacheWriteTokens: _sum.cacheWriteTokens ?? 0,
+    };
+    totals.turns += _count._all;
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.cacheReadTokens += usage.cacheReadTokens;
+    totals.cacheWriteTokens += usage.cacheWriteTokens;
+    totals.cost += calculateCost(usage, model);
+  }
+
+  return totals;
+}
+
+export async function getUsageStats(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const [project, user] = await Promise.all([
+    prisma.tokenUsage.groupBy({
+      by: ["model"],
+      where: {
+        userId: session.userId,
+        projectId,
+      },
+      _sum: USAGE_SUMS,
+      _count: { _all: true },
+    }),
+    prisma.tokenUsage.groupBy({
+      by: ["model"],
+      where: {
+        userId: session.userId,
+      },
+      _sum: USAGE_SUMS,
+      _count: { _all: true },
+    }),
+  ]);
+
+  return {
+    project: toTotals(project),
+    user: toTotals(user),
+  };
+}
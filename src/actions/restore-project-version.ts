@@ -0,0 +1,67 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export async function restoreProjectVersion(
+  projectId: string,
+  versionId: string
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const version = await prisma.projectVersion.findFirst({
+    where: {
+      id: versionId,
+      projectId,
+      branchId: null,
+      project: {
+        userId: session.userId,
+      },
+    },
+    include: {
+      project: {
+        select: { messages: true },
+      },
+    },
+  });
+
+  if (!version) {
+    throw new Error("Version not found");
+  }
+
+  // Trim the chat back to the turn that produced this snapshot
+  const messages = JSON.parse(version.project.messages).slice(
+    0,
+    version.messageIndex
+  );
+
+  // Later checkpoints belong to the discarded part of the conversation
+  await prisma.$transaction([
+    prisma.project.update({
+      where: {
+        id: projectId,
+        userId: session.userId,
+      },
+      data: {
+        messages: JSON.stringify(messages),
+        data: version.data,
+      },
+    }),
+    prisma.projectVersion.deleteMany({
+      where: {
+        projectId,
+        branchId: null,
+        createdAt: { gt: version.createdAt },
+      },
+    }),
+  ]);
+
+  return {
+    messages,
+    data: JSON.parse(version.data),
+  };
+}
@@ -0,0 +1,69 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+// Go back to the files from before the user message at messageIndex so
+// its response can be generated again. The discarded response's
+// checkpoints are deleted, so the new turn doesn't add a second one for
+// the same point in the chat.
+export async function rewindProjectTurn(
+  projectId: string,
+  messageIndex: number
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const checkpoint = await prisma.projectVersion.findFirst({
+    where: {
+      projectId,
+      branchId: null,
+      messageIndex: { lte: messageIndex },
+      project: {
+        userId: session.userId,
+      },
+    },
+    orderBy: { createdAt: "desc" },
+    include: {
+      project: {
+        select: { messages: true },
+      },
+    },
+  });
+
+  if (!checkpoint) {
+    throw new Error("Checkpoint not found");
+  }
+
+  const messages = JSON.parse(checkpoint.project.messages).slice(
+    0,
+    messageIndex
+  );
+
+  await prisma.$transaction([
+    prisma.project.update({
+      where: {
+        id: projectId,
+        userId: session.userId,
+      },
+      data: {
+        messages: JSON.stringify(messages),
+        data: checkpoint.data,
+      },
+    }),
+    prisma.projectVersion.deleteMany({
+      where: {
+        projectId,
+        branchId: null,
+        messageIndex: { gt: messageIndex },
+      },
+    }),
+  ]);
+
+  return {
+    data: JSON.parse(checkpoint.data),
+  };
+}
@@ -0,0 +1,52 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import type { FileNode } from "@/lib/file-system";
+
+// Save files changed outside of a chat turn. With checkpoint (e.g. after an
+// import) they are also recorded as a version at the current end of the
+// conversation; autosaves only update the project.
+export async function saveProjectFiles(
+  projectId: string,
+  data: Record<string, FileNode>,
+  { checkpoint = true }: { checkpoint?: boolean } = {}
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    select: { messages: true },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const serializedData = JSON.stringify(data);
+
+  await prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    data: {
+      data: serializedData,
+      ...(checkpoint && {
+        versions: {
+          create: {
+            messageIndex: JSON.parse(project.messages).length,
+            data: serializedData,
+          },
+        },
+      }),
+    },
+  });
+}
@@ -0,0 +1,83 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getBranchName } from "@/lib/project-branches";
+import type { FileNode } from "@/lib/file-system";
+
+// Make a branch the active line of the project. The current line (with the
+// given files) is kept as a branch in its place.
+export async function switchProjectBranch(
+  projectId: string,
+  branchId: string,
+  data: Record<string, FileNode>
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const branch = await prisma.projectBranch.findFirst({
+    where: {
+      id: branchId,
+      projectId,
+      project: {
+        userId: session.userId,
+      },
+    },
+    include: {
+      project: {
+        select: { messages: true },
+      },
+    },
+  });
+
+  if (!branch) {
+    throw new Error("Branch not found");
+  }
+
+  const versions = await prisma.projectVersion.findMany({
+    where: {
+      projectId,
+      branchId: null,
+    },
+    select: { id: true },
+  });
+
+  await prisma.$transaction([
+    prisma.projectBranch.create({
+      data: {
+        projectId,
+        name: getBranchName(JSON.parse(branch.project.messages)),
+        messages: branch.project.messages,
+        data: JSON.stringify(data),
+        versions: {
+          connect: versions,
+        },
+      },
+    }),
+    prisma.projectVersion.updateMany({
+      where: { branchId },
+      data: { branchId: null },
+    }),
+    prisma.project.update({
+      where: {
+        id: projectId,
+        userId: session.userId,
+      },
+      data: {
+        messages: branch.messages,
+        data: branch.data,
+      },
+    }),
+    prisma.projectBranch.delete({
+      where: { id: branchId },
+    }),
+  ]);
+
+  return {
+    messages: JSON.parse(branch.messages),
+    data: JSON.parse(branch.data),
+  };
+}
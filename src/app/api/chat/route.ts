@@ -1,85 +1,275 @@
 import type { FileNode } from "@/lib/file-system";
 import { VirtualFileSystem } from "@/lib/file-system";
-import { streamText, appendResponseMessages } from "ai";
+import {
+  streamText,
+  appendResponseMessages,
+  createDataStreamResponse,
+  generateText,
+  LanguageModel,
+  Message,
+} from "ai";
 import { buildStrReplaceTool } from "@/lib/tools/str-replace";
 import { buildFileManagerTool } from "@/lib/tools/file-manager";
+import { buildDependencyManagerTool } from "@/lib/tools/dependency-manager";
 import { prisma } from "@/lib/prisma";
 import { getSession } from "@/lib/auth";
 import { getLanguageModel } from "@/lib/provider";
 import { generationPrompt } from "@/lib/prompts/generation";
+import { summarizationPrompt } from "@/lib/prompts/summarization";
+import {
+  findMissingImports,
+  formatMissingImports,
+} from "@/lib/transform/import-resolver";
+import {
+  InspectedElement,
+  formatInspectedElement,
+} from "@/lib/preview-messages";
+import { isImageAttachment } from "@/lib/image-attachments";
+import {
+  CONTEXT_TOKEN_BUDGET,
+  HISTORY_SUMMARY,
+  HistorySummary,
+  estimateTokens,
+  findHistorySummary,
+  findRecentStart,
+  formatFileIndex,
+  formatHistorySummary,
+  formatTranscript,
+  pruneToolCalls,
+} from "@/lib/context-window";
+import {
+  EMPTY_USAGE,
+  TokenUsage,
+  addUsage,
+  createUsageAnnotation,
+  getStepsUsage,
+} from "@/lib/token-usage";
+
+// Summarize the given messages, continuing from the previous summary
+async function summarizeHistory(
+  model: LanguageModel,
+  previous: HistorySummary | null,
+  messages: Message[],
+  messageCount: number,
+  abortSignal: AbortSignal
+): Promise<{ summary: HistorySummary; usage: TokenUsage }> {
+  const { text, usage, providerMetadata } = await generateText({
+    model,
+    system: summarizationPrompt,
+    prompt: [
+      previous && `Summary of the conversation before this:\n${previous.summary}`,
+      formatTranscript(messages),
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    maxTokens: 1_000,
+    abortSignal,
+  });
+
+  return {
+    summary: { type: HISTORY_SUMMARY, summary: text, messageCount },
+    usage: getStepsUsage([{ usage, providerMetadata }]),
+  };
+}
 
 export async function POST(req: Request) {
   const {
     messages,
     files,
     projectId,
-  }: { messages: any[]; files: Record<string, FileNode>; projectId?: string } =
-    await req.json();
+    inspectedElement,
+  }: {
+    messages: any[];
+    files: Record<string, FileNode>;
+    projectId?: string;
+    inspectedElement?: InspectedElement;
+  } = await req.json();
 
-  messages.unshift({
-    role: "system",
-    content: generationPrompt,
-    providerOptions: {
-      anthropic: { cacheControl: { type: "ephemeral" } },
-    },
-  });
+  // Attached screenshots and mockups reach the model as image parts
+  for (const message of messages) {
+    if (message.experimental_attachments) {
+      message.experimental_attachments =
+        message.experimental_attachments.filter(isImageAttachment);
+    }
+  }
 
   // Reconstruct the VirtualFileSystem from serialized data
   const fileSystem = new VirtualFileSystem();
   fileSystem.deserializeFromNodes(files);
 
   const model = getLanguageModel();
+
+  // Keep the request within the context window: the model gets an index of
+  // the files rather than their contents, and once the conversation grows
+  // too long its start is replaced with a summary
+  let summary = findHistorySummary(messages);
+  let history = pruneToolCalls(messages.slice(summary?.messageCount ?? 0));
+  let newSummary: HistorySummary | null = null;
+  let summaryUsage = EMPTY_USAGE;
+  if (
+    estimateTokens([generationPrompt, summary?.summary, history]) >
+    CONTEXT_TOKEN_BUDGET
+  ) {
+    const recentStart = findRecentStart(history);
+    if (recentStart > 0) {
+      try {
+        const summarized = await summarizeHistory(
+          model,
+          summary,
+          history.slice(0, recentStart),
+          (summary?.messageCount ?? 0) + recentStart,
+          req.signal
+        );
+        newSummary = summary = summarized.summary;
+        summaryUsage = summarized.usage;
+        history = history.slice(recentStart);
+      } catch (error) {
+        console.error("Failed to summarize the conversation:", error);
+      }
+    }
+  }
+
+  const systemMessages: any[] = [
+    {
+      role: "system",
+      content: generationPrompt,
+      providerOptions: {
+        anthropic: { cacheControl: { type: "ephemeral" } },
+      },
+    },
+  ];
+
+  if (summary) {
+    systemMessages.push({
+      role: "system",
+      content: formatHistorySummary(summary),
+    });
+  }
+
+  systemMessages.push({
+    role: "system",
+    content: formatFileIndex(fileSystem.getAllFiles()),
+  });
+
+  // Let the model know about imports the preview is stubbing out
+  const missingImports = findMissingImports(fileSystem.getAllFiles());
+  if (missingImports.length > 0) {
+    systemMessages.push({
+      role: "system",
+      content: formatMissingImports(missingImports),
+    });
+  }
+
+  // Element the user picked in the preview for this message
+  if (inspectedElement) {
+    systemMessages.push({
+      role: "system",
+      content: formatInspectedElement(inspectedElement),
+    });
+  }
+
   // Use fewer steps for mock provider to prevent repetition
   const isMockProvider = !process.env.ANTHROPIC_API_KEY;
-  const result = streamText({
-    model,
-    messages,
-    maxTokens: 10_000,
-    maxSteps: isMockProvider ? 4 : 40,
-    onError: (err: any) => {
-      console.error(err);
-    },
-    tools: {
-      str_replace_editor: buildStrReplaceTool(fileSystem),
-      file_manager: buildFileManagerTool(fileSystem),
-    },
-    onFinish: async ({ response }) => {
-      // Save to project if projectId is provided and user is authenticated
-      if (projectId) {
-        try {
-          // Check if user is authenticated
-          const session = await getSession();
-          if (!session) {
-            console.error("User not authenticated, cannot save project");
-            return;
-          }
 
-          // Get the messages from the response
-          const responseMessages = response.messages || [];
-          // Combine original messages with response messages
-          const allMessages = appendResponseMessages({
-            messages: [...messages.filter((m) => m.role !== "system")],
-            responseMessages,
-          });
-
-          await prisma.project.update({
-            where: {
-              id: projectId,
-              userId: session.userId,
-            },
-            data: {
-              messages: JSON.stringify(allMessages),
-              data: JSON.stringify(fileSystem.serialize()),
-            },
-          });
-        } catch (error) {
-          console.error("Failed to save project data:", error);
-        }
+  return createDataStreamResponse({
+    execute: (dataStream) => {
+      // Show the summary on the response in the chat, as it is when saved
+      if (newSummary) {
+        dataStream.writeMessageAnnotation(newSummary);
       }
+
+      const result = streamText({
+        model,
+        messages: [...systemMessages, ...history],
+        maxTokens: 10_000,
+        maxSteps: isMockProvider ? 4 : 40,
+        // Stop generating when the client cancels, which also skips onFinish
+        abortSignal: req.signal,
+        onError: (err: any) => {
+          console.error(err);
+        },
+        tools: {
+          str_replace_editor: buildStrReplaceTool(fileSystem),
+          file_manager: buildFileManagerTool(fileSystem),
+          dependency_manager: buildDependencyManagerTool(fileSystem),
+        },
+        onFinish: async ({ response, steps }) => {
+          // The turn's usage, including summarizing the conversation
+          const usage = createUsageAnnotation(
+            addUsage(summaryUsage, getStepsUsage(steps)),
+            model.modelId
+          );
+          dataStream.writeMessageAnnotation(usage);
+
+          // Save to project if projectId is provided and user is authenticated
+          if (projectId) {
+            try {
+              // Check if user is authenticated
+              const session = await getSession();
+              if (!session) {
+                console.error("User not authenticated, cannot save project");
+                return;
+              }
+
+              // Get the messages from the response
+              const responseMessages = response.messages || [];
+              // Combine original messages with response messages
+              const allMessages = appendResponseMessages({
+                messages,
+                responseMessages,
+              });
+              // Later requests pick the summary up from the saved messages,
+              // and reopening the project shows the usage of each turn
+              const lastMessage = allMessages[allMessages.length - 1];
+              lastMessage.annotations = [
+                ...(lastMessage.annotations ?? []),
+                ...(newSummary ? [newSummary] : []),
+                usage,
+              ];
+
+              const serializedData = JSON.stringify(fileSystem.serialize());
+
+              await prisma.$transaction([
+                prisma.project.update({
+                  where: {
+                    id: projectId,
+                    userId: session.userId,
+                  },
+                  data: {
+                    messages: JSON.stringify(allMessages),
+                    data: serializedData,
+                    // Keep a checkpoint of this turn so it can be restored later
+                    versions: {
+                      create: {
+                        messageIndex: allMessages.length,
+                        data: serializedData,
+                      },
+                    },
+                  },
+                }),
+                prisma.tokenUsage.create({
+                  data: {
+                    userId: session.userId,
+                    projectId,
+                    messageId: lastMessage.id,
+                    model: usage.model,
+                    promptTokens: usage.promptTokens,
+                    completionTokens: usage.completionTokens,
+                    cacheReadTokens: usage.cacheReadTokens,
+                    cacheWriteTokens: usage.cacheWriteTokens,
+                  },
+                }),
+              ]);
+            } catch (error) {
+              console.error("Failed to save project data:", error);
+            }
+          }
+        },
+      });
+
+      result.mergeIntoDataStream(dataStream);
     },
   });
-
-  return result.toDataStreamResponse();
 }
 
 export const maxDuration = 120;
@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { isPlainObject } from "@/lib/projects";
+
+interface RouteContext {
+  params: Promise<{ projectId: string; path: string[] }>;
+}
+
+type LoadResult =
+  | {
+      fileSystem: VirtualFileSystem;
+      path: string;
+      projectId: string;
+      userId: string;
+    }
+  | { response: NextResponse };
+
+// Resolve the session, check project ownership and rebuild the project's
+// file system so each handler only has to deal with the file operation
+async function loadProjectFileSystem({
+  params,
+}: RouteContext): Promise<LoadResult> {
+  const { projectId, path: segments } = await params;
+
+  const session = await getSession();
+  if (!session) {
+    return {
+      response: NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    select: { data: true },
+  });
+
+  if (!project) {
+    return {
+      response: NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const fileSystem = new VirtualFileSystem();
+  fileSystem.deserializeFromNodes(JSON.parse(project.data));
+
+  return {
+    fileSystem,
+    path: "/" + segments.join("/"),
+    projectId,
+    userId: session.userId,
+  };
+}
+
+async function saveProjectFileSystem(
+  projectId: string,
+  userId: string,
+  fileSystem: VirtualFileSystem
+) {
+  await prisma.project.update({
+    where: {
+      id: projectId,
+      userId,
+    },
+    data: {
+      data: JSON.stringify(fileSystem.serialize()),
+    },
+  });
+}
+
+async function readJsonBody(req: Request): Promise<Record<string, any> | null> {
+  try {
+    const body = await req.json();
+    return isPlainObject(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(_req: Request, context: RouteContext) {
+  const result = await loadProjectFileSystem(context);
+  if ("response" in result) return result.response;
+
+  const { fileSystem, path } = result;
+  const node = fileSystem.getNode(path);
+
+  if (!node) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  if (node.type === "directory") {
+    const children = fileSystem.listDirectory(path) || [];
+    return NextResponse.json({
+      path,
+      type: "directory",
+      children: children.map((child) => ({
+        name: child.name,
+        path: child.path,
+        type: child.type,
+      })),
+    });
+  }
+
+  return NextResponse.json({
+    path,
+    type: "file",
+    content: fileSystem.readFile(path),
+  });
+}
+
+export async function PUT(req: Request, context: RouteContext) {
+  const result = await loadProjectFileSystem(context);
+  if ("response" in result) return result.response;
+
+  const body = await readJsonBody(req);
+  if (!body || typeof body.content !== "string") {
+    return NextResponse.json(
+      { error: "Content must be a string" },
+      { status: 400 }
+    );
+  }
+
+  const { fileSystem, path, projectId, userId } = result;
+  const node = fileSystem.getNode(path);
+
+  if (node?.type === "directory") {
+    return NextResponse.json(
+      { error: "Cannot write to a directory" },
+      { status: 400 }
+    );
+  }
+
+  // PUT creates the file when missing and replaces it otherwise
+  const created = !node;
+  if (created) {
+    if (!fileSystem.createFile(path, body.content)) {
+      return NextResponse.json(
+        { error: `Failed to create ${path}` },
+        { status: 400 }
+      );
+    }
+  } else {
+    fileSystem.updateFile(path, body.content);
+  }
+
+  await saveProjectFileSystem(projectId, userId, fileSystem);
+
+  return NextResponse.json(
+    { path, type: "file", content: body.content },
+    { status: created ? 201 : 200 }
+  );
+}
+
+export async function PATCH(req: Request, context: RouteContext) {
+  const result = await loadProjectFileSystem(context);
+  if ("response" in result) return result.response;
+
+  const body = await readJsonBody(req);
+  if (!body || typeof body.newPath !== "string" || !body.newPath.trim()) {
+    return NextResponse.json(
+      { error: "newPath must be a non-empty string" },
+      { status: 400 }
+    );
+  }
+
+  const { fileSystem, path, projectId, userId } = result;
+
+  if (!fileSystem.exists(path)) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  if (fileSystem.exists(body.newPath)) {
+    return NextResponse.json(
+      { error: `${body.newPath} already exists` },
+      { status: 409 }
+    );
+  }
+
+  if (!fileSystem.rename(path, body.newPath)) {
+    return NextResponse.json(
+      { error: `Failed to rename ${path} to ${body.newPath}` },
+      { status: 400 }
+    );
+  }
+
+  await saveProjectFileSystem(projectId, userId, fileSystem);
+
+  const renamed = fileSystem.getNode(body.newPath)!;
+  return NextResponse.json({
+    path: renamed.path,
+    type: renamed.type,
+    previousPath: path,
+  });
+}
+
+export async function DELETE(_req: Request, context: RouteContext) {
+  const result = await loadProjectFileSystem(context);
+  if ("response" in result) return result.response;
+
+  const { fileSystem, path, projectId, userId } = result;
+
+  if (!fileSystem.deleteFile(path)) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  await saveProjectFileSystem(projectId, userId, fileSystem);
+
+  return new NextResponse(null, { status: 204 });
+}
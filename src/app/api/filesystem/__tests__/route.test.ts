@@ -0,0 +1,236 @@
+// @vitest-environment node
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { GET, PUT, PATCH, DELETE } from "../[projectId]/[...path]/route";
+import { VirtualFileSystem } from "@/lib/file-system";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    project: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+const mockSession = {
+  userId: "user-123",
+  email: "test@example.com",
+  expiresAt: new Date(),
+};
+
+function projectData() {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/App.jsx", "export default function App() {}");
+  fs.createFile("/components/Button.jsx", "export const Button = () => {}");
+  return JSON.stringify(fs.serialize());
+}
+
+function context(path: string[], projectId = "project-123") {
+  return { params: Promise.resolve({ projectId, path }) };
+}
+
+function jsonRequest(method: string, body: unknown) {
+  return new Request("http://localhost/api/filesystem", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// Rebuild the file system that was written back to the project
+function savedFileSystem() {
+  const [{ data }] = vi.mocked(prisma.project.update).mock.calls[0];
+  const fs = new VirtualFileSystem();
+  fs.deserializeFromNodes(JSON.parse(data.data));
+  return fs;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getSession).mockResolvedValue(mockSession);
+  vi.mocked(prisma.project.findUnique).mockResolvedValue({
+    data: projectData(),
+  });
+});
+
+describe("authorization", () => {
+  test("returns 401 without a session", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    const response = await GET(
+      new Request("http://localhost"),
+      context(["App.jsx"])
+    );
+
+    expect(response.status).toBe(401);
+    expect(prisma.project.findUnique).not.toHaveBeenCalled();
+  });
+
+  test("returns 404 when the project is not owned by the user", async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue(null);
+
+    const response = await GET(
+      new Request("http://localhost"),
+      context(["App.jsx"], "other-project")
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Project not found" });
+    expect(prisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: "other-project", userId: "user-123" },
+      select: { data: true },
+    });
+  });
+});
+
+describe("GET", () => {
+  test("reads a file", async () => {
+    const response = await GET(
+      new Request("http://localhost"),
+      context(["components", "Button.jsx"])
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      path: "/components/Button.jsx",
+      type: "file",
+      content: "export const Button = () => {}",
+    });
+  });
+
+  test("lists a directory", async () => {
+    const response = await GET(
+      new Request("http://localhost"),
+      context(["components"])
+    );
+
+    expect(await response.json()).toEqual({
+      path: "/components",
+      type: "directory",
+      children: [
+        { name: "Button.jsx", path: "/components/Button.jsx", type: "file" },
+      ],
+    });
+  });
+
+  test("returns 404 for a missing file", async () => {
+    const response = await GET(
+      new Request("http://localhost"),
+      context(["Missing.jsx"])
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("PUT", () => {
+  test("updates an existing file", async () => {
+    const response = await PUT(
+      jsonRequest("PUT", { content: "updated" }),
+      context(["App.jsx"])
+    );
+
+    expect(response.status).toBe(200);
+    expect(savedFileSystem().readFile("/App.jsx")).toBe("updated");
+  });
+
+  test("creates a missing file with parent directories", async () => {
+    const response = await PUT(
+      jsonRequest("PUT", { content: "new" }),
+      context(["hooks", "useThing.js"])
+    );
+
+    expect(response.status).toBe(201);
+    const fs = savedFileSystem();
+    expect(fs.readFile("/hooks/useThing.js")).toBe("new");
+    expect(fs.readFile("/App.jsx")).toBe("export default function App() {}");
+  });
+
+  test("rejects a missing content field", async () => {
+    const response = await PUT(jsonRequest("PUT", {}), context(["App.jsx"]));
+
+    expect(response.status).toBe(400);
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+
+  test("refuses to overwrite a directory", async () => {
+    const response = await PUT(
+      jsonRequest("PUT", { content: "x" }),
+      context(["components"])
+    );
+
+    expect(response.status).toBe(400);
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("PATCH", () => {
+  test("renames a file", async () => {
+    const response = await PATCH(
+      jsonRequest("PATCH", { newPath: "/components/Main.jsx" }),
+      context(["App.jsx"])
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      path: "/components/Main.jsx",
+      type: "file",
+      previousPath: "/App.jsx",
+    });
+    const fs = savedFileSystem();
+    expect(fs.exists("/App.jsx")).toBe(false);
+    expect(fs.readFile("/components/Main.jsx")).toBe(
+      "export default function App() {}"
+    );
+  });
+
+  test("returns 409 when the destination exists", async () => {
+    const response = await PATCH(
+      jsonRequest("PATCH", { newPath: "/components/Button.jsx" }),
+      context(["App.jsx"])
+    );
+
+    expect(response.status).toBe(409);
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+
+  test("returns 404 for a missing source", async () => {
+    const response = await PATCH(
+      jsonRequest("PATCH", { newPath: "/Other.jsx" }),
+      context(["Missing.jsx"])
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("DELETE", () => {
+  test("deletes a file", async () => {
+    const response = await DELETE(
+      new Request("http://localhost", { method: "DELETE" }),
+      context(["components", "Button.jsx"])
+    );
+
+    expect(response.status).toBe(204);
+    const fs = savedFileSystem();
+    expect(fs.exists("/components/Button.jsx")).toBe(false);
+    expect(fs.exists("/components")).toBe(true);
+  });
+
+  test("returns 404 for a missing file", async () => {
+    const response = await DELETE(
+      new Request("http://localhost", { method: "DELETE" }),
+      context(["Missing.jsx"])
+    );
+
+    expect(response.status).toBe(404);
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { isPlainObject, serializeProject } from "@/lib/projects";
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+  });
+
+  if (!project) {
+    return NextResponse.json({ error: "Project not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ project: serializeProject(project) });
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!isPlainObject(body)) {
+    return NextResponse.json(
+      { error: "Request body must be an object" },
+      { status: 400 }
+    );
+  }
+
+  // Only the fields present in the body are updated
+  const updates: { name?: string; messages?: string; data?: string } = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json(
+        { error: "Name must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+    updates.name = body.name.trim();
+  }
+  if (body.messages !== undefined) {
+    if (!Array.isArray(body.messages)) {
+      return NextResponse.json(
+        { error: "Messages must be an array" },
+        { status: 400 }
+      );
+    }
+    updates.messages = JSON.stringify(body.messages);
+  }
+  if (body.data !== undefined) {
+    if (!isPlainObject(body.data)) {
+      return NextResponse.json(
+        { error: "Data must be an object" },
+        { status: 400 }
+      );
+    }
+    updates.data = JSON.stringify(body.data);
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json(
+      { error: "No updatable fields provided" },
+      { status: 400 }
+    );
+  }
+
+  const existing = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: "Project not found" }, { status: 404 });
+  }
+
+  const project = await prisma.project.update({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    data: updates,
+  });
+
+  return NextResponse.json({ project: serializeProject(project) });
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const existing = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: "Project not found" }, { status: 404 });
+  }
+
+  await prisma.project.delete({
+    where: {
+      id: projectId,
+      userId: session.userId,
+    },
+  });
+
+  return new NextResponse(null, { status: 204 });
+}
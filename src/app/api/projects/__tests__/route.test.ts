@@ -0,0 +1,304 @@
+// @vitest-environment node
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import { GET as listProjects, POST as createProject } from "../route";
+import {
+  GET as getProject,
+  PATCH as updateProject,
+  DELETE as deleteProject,
+} from "../[projectId]/route";
+
+vi.mock("@/lib/auth", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    project: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+const { getSession } = await import("@/lib/auth");
+const { prisma } = await import("@/lib/prisma");
+
+const mockSession = {
+  userId: "user-123",
+  email: "test@example.com",
+  expiresAt: new Date(),
+};
+
+const mockProject = {
+  id: "project-123",
+  name: "Test Project",
+  userId: "user-123",
+  messages: JSON.stringify([{ role: "user", content: "Hello" }]),
+  data: JSON.stringify({ "/": { type: "directory", name: "/", path: "/" } }),
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-02"),
+};
+
+function jsonRequest(method: string, body: unknown) {
+  return new Request("http://localhost/api/projects", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+function context(projectId: string) {
+  return { params: Promise.resolve({ projectId }) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getSession).mockResolvedValue(mockSession);
+});
+
+describe("GET /api/projects", () => {
+  test("lists the user's projects", async () => {
+    const projects = [{ id: "project-123", name: "Test Project" }];
+    vi.mocked(prisma.project.findMany).mockResolvedValue(projects);
+
+    const response = await listProjects();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ projects });
+    expect(prisma.project.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: "user-123" },
+        orderBy: { updatedAt: "desc" },
+      })
+    );
+  });
+
+  test("returns 401 without a session", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    const response = await listProjects();
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: "Authentication required" });
+    expect(prisma.project.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("POST /api/projects", () => {
+  test("creates a project", async () => {
+    vi.mocked(prisma.project.create).mockResolvedValue(mockProject);
+
+    const response = await createProject(
+      jsonRequest("POST", { name: "  Test Project ", messages: [] })
+    );
+
+    expect(response.status).toBe(201);
+    expect(prisma.project.create).toHaveBeenCalledWith({
+      data: {
+        name: "Test Project",
+        userId: "user-123",
+        messages: "[]",
+        data: "{}",
+        versions: { create: { messageIndex: 0, data: "{}" } },
+      },
+    });
+    const { project } = await response.json();
+    expect(project.id).toBe("project-123");
+    expect(project.messages).toEqual([{ role: "user", content: "Hello" }]);
+  });
+
+  test("rejects a missing name", async () => {
+    const response = await createProject(jsonRequest("POST", {}));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Name is required" });
+    expect(prisma.project.create).not.toHaveBeenCalled();
+  });
+
+  test("rejects a body that is not an object", async () => {
+    const response = await createProject(jsonRequest("POST", ["Test"]));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Request body must be an object",
+    });
+    expect(prisma.project.create).not.toHaveBeenCalled();
+  });
+
+  test("rejects non-array messages", async () => {
+    const response = await createProject(
+      jsonRequest("POST", { name: "Test", messages: "nope" })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Messages must be an array",
+    });
+  });
+
+  test("rejects malformed JSON", async () => {
+    const response = await createProject(jsonRequest("POST", "{not json"));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Invalid JSON body" });
+  });
+});
+
+describe("GET /api/projects/[projectId]", () => {
+  test("returns the parsed project", async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue(mockProject);
+
+    const response = await getProject(
+      new Request("http://localhost"),
+      context("project-123")
+    );
+
+    expect(response.status).toBe(200);
+    const { project } = await response.json();
+    expect(project.name).toBe("Test Project");
+    expect(project.data).toEqual({
+      "/": { type: "directory", name: "/", path: "/" },
+    });
+    expect(prisma.project.findUnique).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+    });
+  });
+
+  test("returns 404 for a missing project", async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue(null);
+
+    const response = await getProject(
+      new Request("http://localhost"),
+      context("missing")
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Project not found" });
+  });
+});
+
+describe("PATCH /api/projects/[projectId]", () => {
+  test("renames a project", async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue({
+      id: "project-123",
+    });
+    vi.mocked(prisma.project.update).mockResolvedValue({
+      ...mockProject,
+      name: "Renamed",
+    });
+
+    const response = await updateProject(
+      jsonRequest("PATCH", { name: "Renamed" }),
+      context("project-123")
+    );
+
+    expect(response.status).toBe(200);
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: { name: "Renamed" },
+    });
+    expect((await response.json()).project.name).toBe("Renamed");
+  });
+
+  test("replaces messages and data", async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue({
+      id: "project-123",
+    });
+    vi.mocked(prisma.project.update).mockResolvedValue(mockProject);
+
+    const messages = [{ role: "user", content: "Hi" }];
+    const data = { "/App.jsx": { type: "file", name: "App.jsx" } };
+
+    await updateProject(
+      jsonRequest("PATCH", { messages, data }),
+      context("project-123")
+    );
+
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+      data: {
+        messages: JSON.stringify(messages),
+        data: JSON.stringify(data),
+      },
+    });
+  });
+
+  test("rejects an empty update", async () => {
+    const response = await updateProject(
+      jsonRequest("PATCH", {}),
+      context("project-123")
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "No updatable fields provided",
+    });
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+
+  test("rejects invalid data", async () => {
+    const response = await updateProject(
+      jsonRequest("PATCH", { data: [] }),
+      context("project-123")
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Data must be an object" });
+  });
+
+  test("returns 404 for another user's project", async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue(null);
+
+    const response = await updateProject(
+      jsonRequest("PATCH", { name: "Renamed" }),
+      context("other-project")
+    );
+
+    expect(response.status).toBe(404);
+    expect(prisma.project.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("DELETE /api/projects/[projectId]", () => {
+  test("deletes a project", async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue({
+      id: "project-123",
+    });
+
+    const response = await deleteProject(
+      new Request("http://localhost", { method: "DELETE" }),
+      context("project-123")
+    );
+
+    expect(response.status).toBe(204);
+    expect(prisma.project.delete).toHaveBeenCalledWith({
+      where: { id: "project-123", userId: "user-123" },
+    });
+  });
+
+  test("returns 404 for a missing project", async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue(null);
+
+    const response = await deleteProject(
+      new Request("http://localhost", { method: "DELETE" }),
+      context("missing")
+    );
+
+    expect(response.status).toBe(404);
+    expect(prisma.project.delete).not.toHaveBeenCalled();
+  });
+
+  test("returns 401 without a session", async () => {
+    vi.mocked(getSession).mockResolvedValue(null);
+
+    const response = await deleteProject(
+      new Request("http://localhost", { method: "DELETE" }),
+      context("project-123")
+    );
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { isPlainObject, serializeProject } from "@/lib/projects";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const projects = await prisma.project.findMany({
+    where: {
+      userId: session.userId,
+    },
+    orderBy: {
+      updatedAt: "desc",
+    },
+    select: {
+      id: true,
+      name: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  return NextResponse.json({ projects });
+}
+
+export async function POST(req: Request) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!isPlainObject(body)) {
+    return NextResponse.json(
+      { error: "Request body must be an object" },
+      { status: 400 }
+    );
+  }
+
+  const { name, messages = [], data = {} } = body;
+
+  if (typeof name !== "string" || !name.trim()) {
+    return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  }
+  if (!Array.isArray(messages)) {
+    return NextResponse.json(
+      { error: "Messages must be an array" },
+      { status: 400 }
+    );
+  }
+  if (!isPlainObject(data)) {
+    return NextResponse.json(
+      { error: "Data must be an object" },
+      { status: 400 }
+    );
+  }
+
+  const serializedData = JSON.stringify(data);
+
+  const project = await prisma.project.create({
+    data: {
+      name: name.trim(),
+      userId: session.userId,
+      messages: JSON.stringify(messages),
+      data: serializedData,
+      // The starting checkpoint, which branches from the first message go
+      // back to
+      versions: {
+        create: {
+          messageIndex: messages.length,
+          data: serializedData,
+        },
+      },
+    },
+  });
+
+  return NextResponse.json(
+    { project: serializeProject(project) },
+    { status: 201 }
+  );
+}
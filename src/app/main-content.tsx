@@ -6,14 +6,25 @@ import {
   ResizablePanel,
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
-import { FileSystemProvider } from "@/lib/contexts/file-system-context";
+import {
+  FileSystemProvider,
+  useFileSystem,
+} from "@/lib/contexts/file-system-context";
 import { ChatProvider } from "@/lib/contexts/chat-context";
 import { ChatInterface } from "@/components/chat/ChatInterface";
 import { FileTree } from "@/components/editor/FileTree";
+import { DependencyList } from "@/components/editor/DependencyList";
 import { CodeEditor } from "@/components/editor/CodeEditor";
+import { ChangeReview } from "@/components/editor/ChangeReview";
 import { PreviewFrame } from "@/components/preview/PreviewFrame";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { HeaderActions } from "@/components/HeaderActions";
+import { VersionTimeline } from "@/components/VersionTimeline";
+import { BranchSwitcher } from "@/components/BranchSwitcher";
+import { ProjectStats } from "@/components/ProjectStats";
+import { ExportButton } from "@/components/ExportButton";
+import { ImportDialog } from "@/components/ImportDialog";
+import { SaveIndicator } from "@/components/SaveIndicator";
 
 interface MainContentProps {
   user?: {
@@ -30,8 +41,28 @@ interface MainContentProps {
   };
 }
 
+type ActiveView = "preview" | "code" | "review";
+
+const tabTriggerClassName =
+  "data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all";
+
+function ReviewTabTrigger() {
+  const { pendingChanges } = useFileSystem();
+
+  return (
+    <TabsTrigger value="review" className={tabTriggerClassName}>
+      Review
+      {pendingChanges.length > 0 && (
+        <span className="ml-1.5 rounded-full bg-blue-600 px-1.5 text-xs text-white">
+          {pendingChanges.length}
+        </span>
+      )}
+    </TabsTrigger>
+  );
+}
+
 export function MainContent({ user, project }: MainContentProps) {
-  const [activeView, setActiveView] = useState<"preview" | "code">("preview");
+  const [activeView, setActiveView] = useState<ActiveView>("preview");
 
   return (
     <FileSystemProvider initialData={project?.data}>
@@ -48,7 +79,7 @@ export function MainContent({ user, project }: MainContentProps) {
 
                 {/* Chat Content */}
                 <div className="flex-1 overflow-hidden">
-                  <ChatInterface />
+                  <ChatInterface projectId={project?.id} />
                 </div>
               </div>
             </ResizablePanel>
@@ -63,22 +94,44 @@ export function MainContent({ user, project }: MainContentProps) {
                   <Tabs
                     value={activeView}
                     onValueChange={(v) =>
-                      setActiveView(v as "preview" | "code")
+                      setActiveView(v as ActiveView)
                     }
                   >
                     <TabsList className="bg-white/60 border border-neutral-200/60 p-0.5 h-9 shadow-sm">
-                      <TabsTrigger value="preview" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Preview</TabsTrigger>
-                      <TabsTrigger value="code" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Code</TabsTrigger>
+                      <TabsTrigger value="preview" className={tabTriggerClassName}>Preview</TabsTrigger>
+                      <TabsTrigger value="code" className={tabTriggerClassName}>Code</TabsTrigger>
+                      <ReviewTabTrigger />
                     </TabsList>
                   </Tabs>
-                  <HeaderActions user={user} projectId={project?.id} />
+                  <div className="flex items-center gap-2">
+                    {project && <SaveIndicator projectId={project.id} />}
+                    <ImportDialog projectId={project?.id} />
+                    <ExportButton projectName={project?.name} />
+                    {user && project && (
+                      <VersionTimeline projectId={project.id} />
+                    )}
+                    {user && project && (
+                      <BranchSwitcher projectId={project.id} />
+                    )}
+                    {user && project && (
+                      <ProjectStats projectId={project.id} />
+                    )}
+                    <HeaderActions user={user} projectId={project?.id} />
+                  </div>
                 </div>
 
                 {/* Content Area */}
                 <div className="flex-1 overflow-hidden bg-neutral-50">
                   {activeView === "preview" ? (
                     <div className="h-full bg-white">
-                      <PreviewFrame />
+                      <PreviewFrame
+                        projectId={project?.id}
+                        onOpenInEditor={() => setActiveView("code")}
+                      />
+                    </div>
+                  ) : activeView === "review" ? (
+                    <div className="h-full bg-white">
+                      <ChangeReview />
                     </div>
                   ) : (
                     <ResizablePanelGroup
@@ -91,8 +144,11 @@ export function MainContent({ user, project }: MainContentProps) {
                         minSize={20}
                         maxSize={50}
                       >
-                        <div className="h-full bg-neutral-50 border-r border-neutral-200">
-                          <FileTree />
+                        <div className="h-full flex flex-col bg-neutral-50 border-r border-neutral-200">
+                          <div className="flex-1 min-h-0">
+                            <FileTree />
+                          </div>
+                          <DependencyList />
                         </div>
                       </ResizablePanel>
 
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { GitBranch, ArrowLeftRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { getProjectBranches } from "@/actions/get-project-branches";
+import { useChat } from "@/lib/contexts/chat-context";
+import { useBranches } from "@/hooks/use-branches";
+import { getBranchName } from "@/lib/project-branches";
+
+interface BranchSwitcherProps {
+  projectId: string;
+}
+
+interface ProjectBranch {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+export function BranchSwitcher({ projectId }: BranchSwitcherProps) {
+  const { messages, status } = useChat();
+  const { switchBranch } = useBranches(projectId);
+  const [open, setOpen] = useState(false);
+  const [branches, setBranches] = useState<ProjectBranch[]>([]);
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+
+  const isGenerating = status === "submitted" || status === "streaming";
+
+  const loadBranches = useCallback(() => {
+    getProjectBranches(projectId).then(setBranches).catch(console.error);
+  }, [projectId]);
+
+  // Refresh branches whenever the popover opens
+  useEffect(() => {
+    if (open) {
+      loadBranches();
+    }
+  }, [open, loadBranches]);
+
+  const handleSwitch = async (branch: ProjectBranch) => {
+    setSwitchingId(branch.id);
+    try {
+      await switchBranch(branch.id);
+      setOpen(false);
+    } catch (error) {
+      console.error("Failed to switch branch:", error);
+    } finally {
+      setSwitchingId(null);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="h-8 gap-2" title="Branches">
+          <GitBranch className="h-4 w-4" />
+          Branches
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[300px] p-0" align="end">
+        <div className="px-3 py-2 border-b border-neutral-200 text-sm font-medium text-neutral-900">
+          Branches
+        </div>
+        <div className="flex flex-col px-3 py-2 border-b border-neutral-200 bg-neutral-50">
+          <span className="truncate text-sm text-neutral-900">
+            {getBranchName(messages)}
+          </span>
+          <span className="text-xs text-neutral-500">Current</span>
+        </div>
+        {branches.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-neutral-500">
+            Branch from an earlier message to try an alternative
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[320px]">
+            <ol className="py-1">
+              {branches.map((branch) => (
+                <li
+                  key={branch.id}
+                  className="flex items-center justify-between gap-2 px-3 py-2 hover:bg-neutral-50"
+                >
+                  <div className="flex min-w-0 flex-col">
+                    <span className="truncate text-sm text-neutral-900">
+                      {branch.name}
+                    </span>
+                    <span className="text-xs text-neutral-500">
+                      {new Date(branch.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1"
+                    disabled={isGenerating || switchingId !== null}
+                    onClick={() => handleSwitch(branch)}
+                  >
+                    {switchingId === branch.id ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <ArrowLeftRight className="h-3 w-3" />
+                    )}
+                    Switch
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
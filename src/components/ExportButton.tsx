@@ -0,0 +1,42 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { createProjectZip } from "@/lib/project-export";
+
+interface ExportButtonProps {
+  projectName?: string;
+}
+
+export function ExportButton({
+  projectName = "uigen-project",
+}: ExportButtonProps) {
+  const { getAllFiles } = useFileSystem();
+
+  const handleExport = () => {
+    const zip = createProjectZip(getAllFiles(), projectName);
+    const url = URL.createObjectURL(
+      new Blob([zip], { type: "application/zip" })
+    );
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${projectName}.zip`;
+    link.click();
+    // Some browsers start the download after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <Button
+      variant="outline"
+      className="h-8 gap-2"
+      title="Download as a Vite + React + Tailwind project"
+      onClick={handleExport}
+    >
+      <Download className="h-4 w-4" />
+      Export
+    </Button>
+  );
+}
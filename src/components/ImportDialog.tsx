@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FileArchive, FolderOpen, Loader2, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import {
+  NormalizedUpload,
+  UploadedFile,
+  isImportCandidate,
+  mergeImport,
+  normalizeUpload,
+  readZip,
+} from "@/lib/project-import";
+import { saveProjectFiles } from "@/actions/save-project-files";
+
+interface ImportDialogProps {
+  projectId?: string;
+}
+
+function readFile(file: File, as: "text"): Promise<string>;
+function readFile(file: File, as: "arrayBuffer"): Promise<ArrayBuffer>;
+function readFile(file: File, as: "text" | "arrayBuffer") {
+  return new Promise<string | ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string | ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    if (as === "text") {
+      reader.readAsText(file);
+    } else {
+      reader.readAsArrayBuffer(file);
+    }
+  });
+}
+
+async function readUpload(fileList: FileList): Promise<NormalizedUpload> {
+  const files = Array.from(fileList);
+
+  if (files.length === 1 && files[0].name.endsWith(".zip")) {
+    const zip = readZip(
+      new Uint8Array(await readFile(files[0], "arrayBuffer"))
+    );
+    const upload = normalizeUpload(zip.files);
+    return { ...upload, skipped: [...zip.skipped, ...upload.skipped] };
+  }
+
+  const uploaded: UploadedFile[] = [];
+  const skipped: string[] = [];
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    if (isImportCandidate(path, file.size)) {
+      uploaded.push({ path, content: await readFile(file, "text") });
+    } else {
+      skipped.push(path);
+    }
+  }
+  const upload = normalizeUpload(uploaded);
+  return { ...upload, skipped: [...skipped, ...upload.skipped] };
+}
+
+export function ImportDialog({ projectId }: ImportDialogProps) {
+  const { getAllFiles, replaceFiles, fileSystem } = useFileSystem();
+  const { status } = useChat();
+  const [open, setOpen] = useState(false);
+  const [upload, setUpload] = useState<NormalizedUpload | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const zipInput = useRef<HTMLInputElement>(null);
+  const folderInput = useRef<HTMLInputElement>(null);
+
+  const isGenerating = status === "submitted" || status === "streaming";
+
+  // Not part of React's input props
+  useEffect(() => {
+    folderInput.current?.setAttribute("webkitdirectory", "");
+  }, [open]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setUpload(null);
+      setOverwrite(false);
+      setError(null);
+    }
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setError(null);
+    try {
+      const result = await readUpload(fileList);
+      if (Object.keys(result.files).length === 0) {
+        setUpload(null);
+        setError("No .jsx, .tsx, .js, .ts or .css files found");
+      } else {
+        setUpload(result);
+      }
+    } catch (err) {
+      console.error("Failed to read upload:", err);
+      setUpload(null);
+      setError("Could not read the selected files");
+    }
+  };
+
+  const conflicts = upload
+    ? mergeImport(getAllFiles(), upload.files, overwrite).conflicts
+    : [];
+  const fileCount = upload ? Object.keys(upload.files).length : 0;
+
+  const handleImport = async () => {
+    if (!upload) return;
+    setImporting(true);
+    try {
+      replaceFiles(mergeImport(getAllFiles(), upload.files, overwrite).files);
+      if (projectId) {
+        await saveProjectFiles(projectId, fileSystem.serialize());
+      }
+      handleOpenChange(false);
+    } catch (err) {
+      console.error("Failed to save imported files:", err);
+      setError("The files were imported but could not be saved");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="h-8 gap-2"
+        title="Import a zip or folder of components"
+        disabled={isGenerating}
+        onClick={() => setOpen(true)}
+      >
+        <Upload className="h-4 w-4" />
+        Import
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Import files</DialogTitle>
+            <DialogDescription>
+              Add .jsx, .tsx, .js, .ts and .css files from a zip or a folder
+              to this project.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1 gap-2"
+              onClick={() => zipInput.current?.click()}
+            >
+              <FileArchive className="h-4 w-4" />
+              Choose zip
+            </Button>
+            <Button
+              variant="outline"
+              className="flex-1 gap-2"
+              onClick={() => folderInput.current?.click()}
+            >
+              <FolderOpen className="h-4 w-4" />
+              Choose folder
+            </Button>
+            <input
+              ref={zipInput}
+              type="file"
+              accept=".zip"
+              className="hidden"
+              data-testid="zip-input"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <input
+              ref={folderInput}
+              type="file"
+              multiple
+              className="hidden"
+              data-testid="folder-input"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {upload && (
+            <div className="space-y-2 text-sm">
+              <p className="text-neutral-700">
+                {fileCount} file{fileCount > 1 ? "s" : ""} ready to import
+                {upload.skipped.length > 0 &&
+                  `, ${upload.skipped.length} skipped`}
+              </p>
+              {conflicts.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+                  <p className="font-medium">
+                    {conflicts.length} file{conflicts.length > 1 ? "s" : ""}{" "}
+                    already exist{conflicts.length > 1 ? "" : "s"} with
+                    different content
+                  </p>
+                  <ul className="mt-1 max-h-24 overflow-y-auto font-mono">
+                    {conflicts.map((path) => (
+                      <li key={path}>{path}</li>
+                    ))}
+                  </ul>
+                  <label className="mt-2 flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={overwrite}
+                      onChange={(e) => setOverwrite(e.target.checked)}
+                    />
+                    Overwrite existing files
+                  </label>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button disabled={!upload || importing} onClick={handleImport}>
+              {importing && <Loader2 className="h-4 w-4 animate-spin" />}
+              Add to project
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
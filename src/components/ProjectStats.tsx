@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { getUsageStats } from "@/actions/get-usage-stats";
+import { UsageTotals, formatCost, formatTokenCount } from "@/lib/token-usage";
+
+interface ProjectStatsProps {
+  projectId: string;
+}
+
+interface UsageStats {
+  project: UsageTotals;
+  user: UsageTotals;
+}
+
+function UsageSection({
+  title,
+  totals,
+}: {
+  title: string;
+  totals: UsageTotals;
+}) {
+  const rows = [
+    ["Turns", String(totals.turns)],
+    ["Input tokens", formatTokenCount(totals.promptTokens)],
+    ["Output tokens", formatTokenCount(totals.completionTokens)],
+    ["Cache reads", formatTokenCount(totals.cacheReadTokens)],
+    ["Cache writes", formatTokenCount(totals.cacheWriteTokens)],
+    ["Cost", formatCost(totals.cost)],
+  ];
+
+  return (
+    <section className="px-3 py-2">
+      <h3 className="mb-1 text-xs font-medium text-neutral-500">{title}</h3>
+      <dl className="grid grid-cols-2 gap-y-1 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-neutral-600">{label}</dt>
+            <dd className="text-right tabular-nums text-neutral-900">
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+}
+
+export function ProjectStats({ projectId }: ProjectStatsProps) {
+  const [open, setOpen] = useState(false);
+  const [stats, setStats] = useState<UsageStats | null>(null);
+
+  // Refresh the totals whenever the popover opens
+  useEffect(() => {
+    if (open) {
+      getUsageStats(projectId).then(setStats).catch(console.error);
+    }
+  }, [open, projectId]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="h-8 gap-2" title="Token usage">
+          <BarChart3 className="h-4 w-4" />
+          Usage
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[260px] p-0" align="end">
+        <div className="px-3 py-2 border-b border-neutral-200 text-sm font-medium text-neutral-900">
+          Token usage
+        </div>
+        {stats ? (
+          <div className="divide-y divide-neutral-200">
+            <UsageSection title="This project" totals={stats.project} />
+            <UsageSection title="All projects" totals={stats.user} />
+          </div>
+        ) : (
+          <p className="px-3 py-6 text-center text-sm text-neutral-500">
+            Loading...
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { AlertCircle, Check, Loader2 } from "lucide-react";
+import { useAutosave } from "@/hooks/use-autosave";
+
+interface SaveIndicatorProps {
+  projectId: string;
+}
+
+// Autosaves the project's files and shows whether they are saved
+export function SaveIndicator({ projectId }: SaveIndicatorProps) {
+  const { saveStatus, saveNow } = useAutosave(projectId);
+
+  if (saveStatus === "error") {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-red-600">
+        <AlertCircle className="h-3.5 w-3.5" />
+        Save failed
+        <button
+          className="font-medium underline underline-offset-2 hover:text-red-700"
+          onClick={() => saveNow()}
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="flex items-center gap-1.5 text-xs text-neutral-500"
+      aria-live="polite"
+    >
+      {saveStatus === "saving" ? (
+        <>
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Saving...
+        </>
+      ) : saveStatus === "unsaved" ? (
+        <>
+          <span className="h-2 w-2 rounded-full bg-amber-500" />
+          Unsaved changes
+        </>
+      ) : (
+        <>
+          <Check className="h-3.5 w-3.5" />
+          Saved
+        </>
+      )}
+    </div>
+  );
+}
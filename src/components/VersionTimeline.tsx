@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { History, RotateCcw, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { getProjectVersions } from "@/actions/get-project-versions";
+import { restoreProjectVersion } from "@/actions/restore-project-version";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+
+interface VersionTimelineProps {
+  projectId: string;
+}
+
+interface ProjectVersion {
+  id: string;
+  messageIndex: number;
+  createdAt: Date;
+}
+
+export function VersionTimeline({ projectId }: VersionTimelineProps) {
+  const { replaceFileSystem } = useFileSystem();
+  const { setMessages, status } = useChat();
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const isGenerating = status === "submitted" || status === "streaming";
+
+  const loadVersions = useCallback(() => {
+    getProjectVersions(projectId).then(setVersions).catch(console.error);
+  }, [projectId]);
+
+  // Refresh versions whenever the popover opens
+  useEffect(() => {
+    if (open) {
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  const handleRestore = async (version: ProjectVersion) => {
+    setRestoringId(version.id);
+    try {
+      const { messages, data } = await restoreProjectVersion(
+        projectId,
+        version.id
+      );
+      replaceFileSystem(data);
+      setMessages(messages);
+      setOpen(false);
+    } catch (error) {
+      console.error("Failed to restore version:", error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="h-8 gap-2" title="Version history">
+          <History className="h-4 w-4" />
+          History
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[300px] p-0" align="end">
+        <div className="px-3 py-2 border-b border-neutral-200 text-sm font-medium text-neutral-900">
+          Version history
+        </div>
+        {versions.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-neutral-500">
+            No versions yet
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[320px]">
+            <ol className="py-1">
+              {versions.map((version, index) => (
+                <li
+                  key={version.id}
+                  className="flex items-center justify-between gap-2 px-3 py-2 hover:bg-neutral-50"
+                >
+                  <div className="flex flex-col">
+                    <span className="text-sm text-neutral-900">
+                      Turn {versions.length - index}
+                      {index === 0 && (
+                        <span className="ml-2 text-xs text-neutral-500">
+                          Current
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-xs text-neutral-500">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1"
+                      disabled={isGenerating || restoringId !== null}
+                      onClick={() => handleRestore(version)}
+                    >
+                      {restoringId === version.id ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-3 w-3" />
+                      )}
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
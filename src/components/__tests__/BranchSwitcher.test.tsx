@@ -0,0 +1,96 @@
+import { test, expect, describe, beforeEach, vi, afterEach } from "vitest";
+import { render, screen, waitFor, cleanup } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { BranchSwitcher } from "../BranchSwitcher";
+
+vi.mock("@/actions/get-project-branches", () => ({
+  getProjectBranches: vi.fn(),
+}));
+
+vi.mock("@/components/ui/scroll-area", () => ({
+  ScrollArea: ({ children }: any) => <div>{children}</div>,
+}));
+
+const mockSwitchBranch = vi.fn();
+vi.mock("@/hooks/use-branches", () => ({
+  useBranches: () => ({ switchBranch: mockSwitchBranch }),
+}));
+
+let mockStatus = "ready";
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: () => ({
+    messages: [{ id: "1", role: "user", content: "Create a card" }],
+    status: mockStatus,
+  }),
+}));
+
+const { getProjectBranches } = await import("@/actions/get-project-branches");
+
+const mockBranches = [
+  { id: "b2", name: "Make it red", createdAt: new Date("2024-01-02") },
+  { id: "b1", name: "Make it blue", createdAt: new Date("2024-01-01") },
+];
+
+describe("BranchSwitcher", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStatus = "ready";
+    vi.mocked(getProjectBranches).mockResolvedValue(mockBranches);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  test("lists the current line and the other branches", async () => {
+    render(<BranchSwitcher projectId="project-123" />);
+
+    expect(getProjectBranches).not.toHaveBeenCalled();
+    await userEvent.click(screen.getByRole("button", { name: /branches/i }));
+
+    expect(getProjectBranches).toHaveBeenCalledWith("project-123");
+    expect(screen.getByText("Create a card")).toBeDefined();
+    expect(await screen.findByText("Make it red")).toBeDefined();
+    expect(screen.getByText("Make it blue")).toBeDefined();
+    expect(screen.getAllByRole("button", { name: /switch/i })).toHaveLength(2);
+  });
+
+  test("shows an empty state without branches", async () => {
+    vi.mocked(getProjectBranches).mockResolvedValue([]);
+    render(<BranchSwitcher projectId="project-123" />);
+
+    await userEvent.click(screen.getByRole("button", { name: /branches/i }));
+
+    expect(
+      await screen.findByText(
+        "Branch from an earlier message to try an alternative"
+      )
+    ).toBeDefined();
+  });
+
+  test("switches to a branch", async () => {
+    mockSwitchBranch.mockResolvedValue(undefined);
+    render(<BranchSwitcher projectId="project-123" />);
+
+    await userEvent.click(screen.getByRole("button", { name: /branches/i }));
+    await screen.findByText("Make it blue");
+    await userEvent.click(screen.getAllByRole("button", { name: /switch/i })[1]);
+
+    await waitFor(() => {
+      expect(mockSwitchBranch).toHaveBeenCalledWith("b1");
+      expect(screen.queryByText("Make it blue")).toBeNull();
+    });
+  });
+
+  test("disables switching while a response is generating", async () => {
+    mockStatus = "streaming";
+    render(<BranchSwitcher projectId="project-123" />);
+
+    await userEvent.click(screen.getByRole("button", { name: /branches/i }));
+    await screen.findByText("Make it red");
+
+    for (const button of screen.getAllByRole("button", { name: /switch/i })) {
+      expect((button as HTMLButtonElement).disabled).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect, vi, afterEach, beforeEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { ExportButton } from "../ExportButton";
+
+vi.mock("@/lib/contexts/file-system-context", () => ({
+  useFileSystem: () => ({
+    getAllFiles: () =>
+      new Map([["/App.jsx", "export default function App() { return null; }"]]),
+  }),
+}));
+
+beforeEach(() => {
+  global.URL.createObjectURL = vi.fn(() => "blob:export");
+  global.URL.revokeObjectURL = vi.fn();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+test("downloads the project as a zip named after it", () => {
+  vi.useFakeTimers();
+  const click = vi
+    .spyOn(HTMLAnchorElement.prototype, "click")
+    .mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.href).toBe("blob:export");
+      expect(this.download).toBe("Landing Page.zip");
+    });
+
+  render(<ExportButton projectName="Landing Page" />);
+  fireEvent.click(screen.getByText("Export"));
+
+  expect(click).toHaveBeenCalled();
+  expect(URL.createObjectURL).toHaveBeenCalledWith(
+    expect.objectContaining({ type: "application/zip" })
+  );
+  // Revoked only once the download has had a chance to start
+  expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+  vi.runAllTimers();
+  expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:export");
+});
@@ -0,0 +1,109 @@
+import { test, expect, vi, afterEach, beforeEach } from "vitest";
+import {
+  render,
+  screen,
+  fireEvent,
+  cleanup,
+  waitFor,
+} from "@testing-library/react";
+import { ImportDialog } from "../ImportDialog";
+
+const mockReplaceFiles = vi.fn();
+const mockSerialize = vi.fn(() => ({ "/": { type: "directory" } }));
+let mockFiles = new Map<string, string>();
+
+vi.mock("@/lib/contexts/file-system-context", () => ({
+  useFileSystem: () => ({
+    getAllFiles: () => mockFiles,
+    replaceFiles: mockReplaceFiles,
+    fileSystem: { serialize: mockSerialize },
+  }),
+}));
+
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: () => ({ status: "ready" }),
+}));
+
+vi.mock("@/actions/save-project-files", () => ({
+  saveProjectFiles: vi.fn(),
+}));
+
+const { saveProjectFiles } = await import("@/actions/save-project-files");
+
+function chooseFolder(files: Array<{ path: string; content: string }>) {
+  const input = screen.getByTestId("folder-input");
+  const fileList = files.map(({ path, content }) => {
+    const file = new File([content], path.split("/").pop()!);
+    Object.defineProperty(file, "webkitRelativePath", { value: path });
+    return file;
+  });
+  fireEvent.change(input, { target: { files: fileList } });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockFiles = new Map([["/App.jsx", "current app"]]);
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+test("imports a folder into the project and saves it", async () => {
+  render(<ImportDialog projectId="project-1" />);
+  fireEvent.click(screen.getByText("Import"));
+
+  chooseFolder([
+    { path: "components/Card.jsx", content: "card" },
+    { path: "components/logo.png", content: "png" },
+  ]);
+
+  await screen.findByText("1 file ready to import, 1 skipped");
+  fireEvent.click(screen.getByText("Add to project"));
+
+  await waitFor(() => {
+    expect(saveProjectFiles).toHaveBeenCalledWith("project-1", {
+      "/": { type: "directory" },
+    });
+  });
+  expect(mockReplaceFiles).toHaveBeenCalledWith({
+    "/App.jsx": "current app",
+    "/Card.jsx": "card",
+  });
+});
+
+test("reports conflicts and only overwrites when asked", async () => {
+  render(<ImportDialog />);
+  fireEvent.click(screen.getByText("Import"));
+
+  chooseFolder([
+    { path: "src/App.jsx", content: "imported app" },
+    { path: "src/Card.jsx", content: "card" },
+  ]);
+
+  await screen.findByText("1 file already exists with different content");
+  expect(screen.getByText("/App.jsx")).toBeDefined();
+
+  fireEvent.click(screen.getByLabelText("Overwrite existing files"));
+  fireEvent.click(screen.getByText("Add to project"));
+
+  await waitFor(() => {
+    expect(mockReplaceFiles).toHaveBeenCalledWith({
+      "/App.jsx": "imported app",
+      "/Card.jsx": "card",
+    });
+  });
+  expect(saveProjectFiles).not.toHaveBeenCalled();
+});
+
+test("explains when nothing can be imported", async () => {
+  render(<ImportDialog />);
+  fireEvent.click(screen.getByText("Import"));
+
+  chooseFolder([{ path: "docs/README.md", content: "readme" }]);
+
+  await screen.findByText("No .jsx, .tsx, .js, .ts or .css files found");
+  expect(
+    screen.getByText("Add to project").closest("button")
+  ).toHaveProperty("disabled", true);
+});
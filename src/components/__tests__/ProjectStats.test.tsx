@@ -0,0 +1,67 @@
+import { test, expect, describe, beforeEach, vi, afterEach } from "vitest";
+import { render, screen, cleanup, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { ProjectStats } from "../ProjectStats";
+
+vi.mock("@/actions/get-usage-stats", () => ({
+  getUsageStats: vi.fn(),
+}));
+
+const { getUsageStats } = await import("@/actions/get-usage-stats");
+
+const mockStats = {
+  project: {
+    turns: 3,
+    promptTokens: 4_200,
+    completionTokens: 1_500,
+    cacheReadTokens: 12_000,
+    cacheWriteTokens: 2_000,
+    cost: 0.05,
+  },
+  user: {
+    turns: 40,
+    promptTokens: 120_000,
+    completionTokens: 30_000,
+    cacheReadTokens: 400_000,
+    cacheWriteTokens: 8_000,
+    cost: 1.2,
+  },
+};
+
+describe("ProjectStats", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getUsageStats).mockResolvedValue(mockStats);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  test("loads the project's and the user's totals when opened", async () => {
+    render(<ProjectStats projectId="project-123" />);
+
+    expect(getUsageStats).not.toHaveBeenCalled();
+    await userEvent.click(screen.getByRole("button", { name: /usage/i }));
+
+    expect(getUsageStats).toHaveBeenCalledWith("project-123");
+    const project = (await screen.findByText("This project")).parentElement!;
+    expect(within(project).getByText("3")).toBeDefined();
+    expect(within(project).getByText("4.2k")).toBeDefined();
+    expect(within(project).getByText("$0.05")).toBeDefined();
+
+    const user = screen.getByText("All projects").parentElement!;
+    expect(within(user).getByText("40")).toBeDefined();
+    expect(within(user).getByText("400k")).toBeDefined();
+    expect(within(user).getByText("$1.20")).toBeDefined();
+  });
+
+  test("shows a loading state until the totals arrive", async () => {
+    vi.mocked(getUsageStats).mockReturnValue(new Promise(() => {}));
+    render(<ProjectStats projectId="project-123" />);
+
+    await userEvent.click(screen.getByRole("button", { name: /usage/i }));
+
+    expect(screen.getByText("Loading...")).toBeDefined();
+  });
+});
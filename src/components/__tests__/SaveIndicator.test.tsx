@@ -0,0 +1,41 @@
+import { test, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { SaveIndicator } from "../SaveIndicator";
+import { useAutosave, type SaveStatus } from "@/hooks/use-autosave";
+
+vi.mock("@/hooks/use-autosave", () => ({
+  useAutosave: vi.fn(),
+}));
+
+afterEach(() => {
+  cleanup();
+});
+
+function mockStatus(saveStatus: SaveStatus) {
+  const saveNow = vi.fn();
+  vi.mocked(useAutosave).mockReturnValue({ saveStatus, saveNow });
+  return saveNow;
+}
+
+test("shows the save status", () => {
+  mockStatus("saved");
+  const { rerender } = render(<SaveIndicator projectId="project-1" />);
+  expect(screen.getByText("Saved")).toBeDefined();
+
+  mockStatus("unsaved");
+  rerender(<SaveIndicator projectId="project-1" />);
+  expect(screen.getByText("Unsaved changes")).toBeDefined();
+
+  mockStatus("saving");
+  rerender(<SaveIndicator projectId="project-1" />);
+  expect(screen.getByText("Saving...")).toBeDefined();
+});
+
+test("retries a failed save", () => {
+  const saveNow = mockStatus("error");
+  render(<SaveIndicator projectId="project-1" />);
+
+  expect(screen.getByText("Save failed")).toBeDefined();
+  fireEvent.click(screen.getByText("Retry"));
+  expect(saveNow).toHaveBeenCalled();
+});
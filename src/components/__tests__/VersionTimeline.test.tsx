@@ -0,0 +1,105 @@
+import { test, expect, describe, beforeEach, vi, afterEach } from "vitest";
+import { render, screen, waitFor, cleanup } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { VersionTimeline } from "../VersionTimeline";
+
+vi.mock("@/actions/get-project-versions", () => ({
+  getProjectVersions: vi.fn(),
+}));
+
+vi.mock("@/actions/restore-project-version", () => ({
+  restoreProjectVersion: vi.fn(),
+}));
+
+vi.mock("@/components/ui/scroll-area", () => ({
+  ScrollArea: ({ children }: any) => <div>{children}</div>,
+}));
+
+const mockReplaceFileSystem = vi.fn();
+vi.mock("@/lib/contexts/file-system-context", () => ({
+  useFileSystem: () => ({ replaceFileSystem: mockReplaceFileSystem }),
+}));
+
+const mockSetMessages = vi.fn();
+let mockStatus = "ready";
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: () => ({ setMessages: mockSetMessages, status: mockStatus }),
+}));
+
+const { getProjectVersions } = await import("@/actions/get-project-versions");
+const { restoreProjectVersion } = await import(
+  "@/actions/restore-project-version"
+);
+
+const mockVersions = [
+  { id: "v3", messageIndex: 6, createdAt: new Date("2024-01-03") },
+  { id: "v2", messageIndex: 4, createdAt: new Date("2024-01-02") },
+  { id: "v1", messageIndex: 2, createdAt: new Date("2024-01-01") },
+];
+
+describe("VersionTimeline", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStatus = "ready";
+    vi.mocked(getProjectVersions).mockResolvedValue(mockVersions);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  test("loads versions when opened", async () => {
+    render(<VersionTimeline projectId="project-123" />);
+
+    expect(getProjectVersions).not.toHaveBeenCalled();
+    await userEvent.click(screen.getByRole("button", { name: /history/i }));
+
+    expect(getProjectVersions).toHaveBeenCalledWith("project-123");
+    expect(await screen.findByText("Turn 3")).toBeDefined();
+    expect(screen.getByText("Turn 1")).toBeDefined();
+    expect(screen.getByText("Current")).toBeDefined();
+    // The current version cannot be restored
+    expect(screen.getAllByRole("button", { name: /restore/i })).toHaveLength(2);
+  });
+
+  test("shows an empty state without versions", async () => {
+    vi.mocked(getProjectVersions).mockResolvedValue([]);
+    render(<VersionTimeline projectId="project-123" />);
+
+    await userEvent.click(screen.getByRole("button", { name: /history/i }));
+
+    expect(await screen.findByText("No versions yet")).toBeDefined();
+  });
+
+  test("restores a version into the file system and chat", async () => {
+    const restored = {
+      messages: [{ id: "1", role: "user", content: "Create a button" }],
+      data: { "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx" } },
+    };
+    vi.mocked(restoreProjectVersion).mockResolvedValue(restored);
+    render(<VersionTimeline projectId="project-123" />);
+
+    await userEvent.click(screen.getByRole("button", { name: /history/i }));
+    await screen.findByText("Turn 1");
+    const restoreButtons = screen.getAllByRole("button", { name: /restore/i });
+    await userEvent.click(restoreButtons[1]);
+
+    await waitFor(() => {
+      expect(restoreProjectVersion).toHaveBeenCalledWith("project-123", "v1");
+      expect(mockReplaceFileSystem).toHaveBeenCalledWith(restored.data);
+      expect(mockSetMessages).toHaveBeenCalledWith(restored.messages);
+    });
+  });
+
+  test("disables restore while generating", async () => {
+    mockStatus = "streaming";
+    render(<VersionTimeline projectId="project-123" />);
+
+    await userEvent.click(screen.getByRole("button", { name: /history/i }));
+    await screen.findByText("Turn 1");
+
+    for (const button of screen.getAllByRole("button", { name: /restore/i })) {
+      expect((button as HTMLButtonElement).disabled).toBe(true);
+    }
+  });
+});
@@ -5,10 +5,30 @@ import { MessageList } from "./MessageList";
 import { MessageInput } from "./MessageInput";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useChat } from "@/lib/contexts/chat-context";
+import { useBranches } from "@/hooks/use-branches";
+import { useRetryTurn } from "@/hooks/use-retry-turn";
 
-export function ChatInterface() {
+interface ChatInterfaceProps {
+  projectId?: string;
+}
+
+export function ChatInterface({ projectId }: ChatInterfaceProps) {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const { messages, input, handleInputChange, handleSubmit, status } = useChat();
+  const {
+    messages,
+    input,
+    handleInputChange,
+    handleSubmit,
+    status,
+    stop,
+    inspectedElement,
+    setInspectedElement,
+    attachments,
+    setAttachments,
+  } = useChat();
+  const { branchFrom } = useBranches(projectId);
+  const { regenerate, editLastMessage } = useRetryTurn(projectId);
+  const isBusy = status === "submitted" || status === "streaming";
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -26,7 +46,34 @@ export function ChatInterface() {
     <div className="flex flex-col h-full p-4 overflow-hidden">
       <ScrollArea ref={scrollAreaRef} className="flex-1 overflow-hidden">
         <div className="pr-4">
-          <MessageList messages={messages} isLoading={status === "streaming"} />
+          <MessageList
+            messages={messages}
+            isLoading={status === "streaming"}
+            onRegenerate={
+              isBusy
+                ? undefined
+                : () =>
+                    regenerate().catch((error) =>
+                      console.error("Failed to regenerate:", error)
+                    )
+            }
+            onEditMessage={
+              isBusy
+                ? undefined
+                : (content) =>
+                    editLastMessage(content).catch((error) =>
+                      console.error("Failed to edit message:", error)
+                    )
+            }
+            onBranchMessage={
+              isBusy || !projectId
+                ? undefined
+                : (index, content) =>
+                    branchFrom(index, content).catch((error) =>
+                      console.error("Failed to create branch:", error)
+                    )
+            }
+          />
         </div>
       </ScrollArea>
       <div className="mt-4 flex-shrink-0">
@@ -34,7 +81,12 @@ export function ChatInterface() {
           input={input}
           handleInputChange={handleInputChange}
           handleSubmit={handleSubmit}
-          isLoading={status === "submitted" || status === "streaming"}
+          isLoading={isBusy}
+          inspectedElement={inspectedElement}
+          onClearInspectedElement={() => setInspectedElement(null)}
+          onStop={stop}
+          attachments={attachments}
+          onAttachmentsChange={setAttachments}
         />
       </div>
     </div>
@@ -1,13 +1,36 @@
 "use client";
 
-import { ChangeEvent, FormEvent, KeyboardEvent } from "react";
-import { Send } from "lucide-react";
+import {
+  ChangeEvent,
+  ClipboardEvent,
+  DragEvent,
+  FormEvent,
+  KeyboardEvent,
+  useRef,
+  useState,
+} from "react";
+import Image from "next/image";
+import { Attachment } from "ai";
+import { ImagePlus, MousePointerClick, Send, Square, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { InspectedElement } from "@/lib/preview-messages";
+import {
+  IMAGE_TYPES,
+  MAX_ATTACHMENTS,
+  isSupportedImage,
+  readImageAttachment,
+} from "@/lib/image-attachments";
 
 interface MessageInputProps {
   input: string;
   handleInputChange: (e: ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit: (e: FormEvent<HTMLFormElement>) => void;
   isLoading: boolean;
+  inspectedElement?: InspectedElement | null;
+  onClearInspectedElement?: () => void;
+  onStop?: () => void;
+  attachments?: Attachment[];
+  onAttachmentsChange?: (attachments: Attachment[]) => void;
 }
 
 export function MessageInput({
@@ -15,7 +38,70 @@ export function MessageInput({
   handleInputChange,
   handleSubmit,
   isLoading,
+  inspectedElement,
+  onClearInspectedElement,
+  onStop,
+  attachments = [],
+  onAttachmentsChange,
 }: MessageInputProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [attachError, setAttachError] = useState<string | null>(null);
+
+  const canAttach = !!onAttachmentsChange && !isLoading;
+  const canSubmit = !isLoading && (!!input.trim() || attachments.length > 0);
+
+  const attachFiles = async (files: File[]) => {
+    if (!onAttachmentsChange || files.length === 0) return;
+
+    const images = files.filter(isSupportedImage);
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (images.length < files.length) {
+      setAttachError("Only PNG, JPEG, GIF and WebP images up to 5 MB can be attached");
+    } else if (images.length > room) {
+      setAttachError(`Up to ${MAX_ATTACHMENTS} images can be attached`);
+    } else {
+      setAttachError(null);
+    }
+
+    const accepted = images.slice(0, Math.max(room, 0));
+    if (accepted.length === 0) return;
+    try {
+      const added = await Promise.all(accepted.map(readImageAttachment));
+      onAttachmentsChange([...attachments, ...added]);
+    } catch (error) {
+      console.error("Failed to read image:", error);
+      setAttachError("Could not read the image");
+    }
+  };
+
+  const removeAttachment = (index: number) => {
+    onAttachmentsChange?.(attachments.filter((_, i) => i !== index));
+    setAttachError(null);
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (canAttach && files.length > 0) {
+      e.preventDefault();
+      attachFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLFormElement>) => {
+    if (canAttach && e.dataTransfer.types.includes("Files")) {
+      e.preventDefault();
+      setIsDragging(true);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+    setIsDragging(false);
+    if (!canAttach) return;
+    e.preventDefault();
+    attachFiles(Array.from(e.dataTransfer.files));
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -27,24 +113,122 @@ export function MessageInput({
   };
 
   return (
-    <form onSubmit={handleSubmit} className="relative p-4 bg-white border-t border-neutral-200/60">
+    <form
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "relative p-4 bg-white border-t border-neutral-200/60",
+        isDragging && "bg-blue-50/50"
+      )}
+    >
       <div className="relative max-w-4xl mx-auto">
+        {attachments.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {attachments.map((attachment, index) => (
+              <div key={index} className="relative">
+                {/* Data URLs gain nothing from optimization */}
+                <Image
+                  src={attachment.url}
+                  alt={attachment.name || "Attached image"}
+                  width={64}
+                  height={64}
+                  unoptimized
+                  className="h-16 w-16 rounded-md border border-neutral-200 object-cover"
+                />
+                {onAttachmentsChange && (
+                  <button
+                    type="button"
+                    className="absolute -right-1.5 -top-1.5 rounded-full border border-neutral-200 bg-white p-0.5 shadow-sm hover:bg-neutral-100"
+                    title={`Remove ${attachment.name || "image"}`}
+                    onClick={() => removeAttachment(index)}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {inspectedElement && (
+          <div className="mb-2 inline-flex max-w-full items-center gap-1.5 rounded-md border border-blue-200 bg-blue-50 px-2 py-1 text-xs text-blue-800">
+            <MousePointerClick className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate font-mono">
+              &lt;{inspectedElement.tagName}&gt;
+              {inspectedElement.path &&
+                ` ${inspectedElement.path}${inspectedElement.line ? `:${inspectedElement.line}` : ""}`}
+            </span>
+            {onClearInspectedElement && (
+              <button
+                type="button"
+                className="shrink-0 rounded p-0.5 hover:bg-blue-100"
+                title="Remove selected element"
+                onClick={onClearInspectedElement}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
+        {attachError && (
+          <p className="mb-2 text-xs text-red-600">{attachError}</p>
+        )}
         <textarea
           value={input}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           placeholder="Describe the React component you want to create..."
           disabled={isLoading}
-          className="w-full min-h-[80px] max-h-[200px] pl-4 pr-14 py-3.5 rounded-xl border border-neutral-200 bg-neutral-50/50 text-neutral-900 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/10 focus:border-blue-500/50 focus:bg-white transition-all placeholder:text-neutral-400 text-[15px] font-normal shadow-sm"
+          className="w-full min-h-[80px] max-h-[200px] pl-4 pr-24 py-3.5 rounded-xl border border-neutral-200 bg-neutral-50/50 text-neutral-900 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/10 focus:border-blue-500/50 focus:bg-white transition-all placeholder:text-neutral-400 text-[15px] font-normal shadow-sm"
           rows={3}
         />
-        <button 
-          type="submit" 
-          disabled={isLoading || !input.trim()}
-          className="absolute right-3 bottom-3 p-2.5 rounded-lg transition-all hover:bg-blue-50 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent group"
-        >
-          <Send className={`h-4 w-4 transition-transform group-hover:translate-x-0.5 group-hover:-translate-y-0.5 ${isLoading || !input.trim() ? 'text-neutral-300' : 'text-blue-600'}`} />
-        </button>
+        {onAttachmentsChange && (
+          <>
+            <button
+              type="button"
+              disabled={!canAttach || attachments.length >= MAX_ATTACHMENTS}
+              onClick={() => fileInput.current?.click()}
+              title="Attach images"
+              aria-label="Attach images"
+              className="absolute right-14 bottom-3 p-2.5 rounded-lg transition-all hover:bg-neutral-100 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+            >
+              <ImagePlus className="h-4 w-4 text-neutral-500" />
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={IMAGE_TYPES.join(",")}
+              multiple
+              className="hidden"
+              data-testid="image-input"
+              onChange={(e) => {
+                attachFiles(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+          </>
+        )}
+        {isLoading && onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            aria-label="Stop generating"
+            title="Stop generating"
+            className="absolute right-3 bottom-3 p-2.5 rounded-lg transition-all hover:bg-neutral-100"
+          >
+            <Square className="h-4 w-4 fill-neutral-700 text-neutral-700" />
+          </button>
+        ) : (
+          <button 
+            type="submit" 
+            disabled={!canSubmit}
+            className="absolute right-3 bottom-3 p-2.5 rounded-lg transition-all hover:bg-blue-50 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent group"
+          >
+            <Send className={`h-4 w-4 transition-transform group-hover:translate-x-0.5 group-hover:-translate-y-0.5 ${!canSubmit ? 'text-neutral-300' : 'text-blue-600'}`} />
+          </button>
+        )}
       </div>
     </form>
   );
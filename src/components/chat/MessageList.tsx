@@ -1,17 +1,68 @@
 "use client";
 
+import { Fragment, useState } from "react";
+import Image from "next/image";
 import { Message } from "ai";
 import { cn } from "@/lib/utils";
-import { User, Bot, Loader2 } from "lucide-react";
+import { User, Bot, Loader2, GitBranch, Pencil, RotateCcw } from "lucide-react";
 import { MarkdownRenderer } from "./MarkdownRenderer";
 import { ToolCallDisplay } from "./ToolCallDisplay";
+import { findHistorySummary } from "@/lib/context-window";
+import { findUsage, formatCost, formatTokenCount } from "@/lib/token-usage";
 
 interface MessageListProps {
   messages: Message[];
   isLoading?: boolean;
+  onRegenerate?: () => void;
+  onEditMessage?: (content: string) => void;
+  // Fork the conversation with an edited version of a user message
+  onBranchMessage?: (index: number, content: string) => void;
 }
 
-export function MessageList({ messages, isLoading }: MessageListProps) {
+interface Draft {
+  index: number;
+  content: string;
+  // Whether sending it creates a branch rather than replacing the message
+  branch: boolean;
+}
+
+// Tokens and cost of the turn that produced an assistant message
+function UsageFooter({ message }: { message: Message }) {
+  const usage = findUsage(message);
+  if (!usage) return null;
+
+  // Written to the cache, so billed as input as well
+  const inputTokens = usage.promptTokens + usage.cacheWriteTokens;
+  return (
+    <div
+      className="text-xs text-neutral-400"
+      title={[
+        `${usage.promptTokens} input tokens`,
+        `${usage.cacheWriteTokens} written to the cache`,
+        `${usage.cacheReadTokens} read from the cache`,
+        `${usage.completionTokens} output tokens`,
+        usage.model,
+      ].join("\n")}
+    >
+      {formatTokenCount(inputTokens)} in ·{" "}
+      {formatTokenCount(usage.completionTokens)} out
+      {usage.cacheReadTokens > 0 &&
+        ` · ${formatTokenCount(usage.cacheReadTokens)} cached`}
+      {` · ${formatCost(usage.cost)}`}
+    </div>
+  );
+}
+
+export function MessageList({
+  messages,
+  isLoading,
+  onRegenerate,
+  onEditMessage,
+  onBranchMessage,
+}: MessageListProps) {
+  // User message being edited
+  const [draft, setDraft] = useState<Draft | null>(null);
+
   if (messages.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)] px-4 text-center">
@@ -24,112 +75,252 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
     );
   }
 
+  // Messages before this one only reach the model as a summary
+  const summary = findHistorySummary(messages);
+  const lastUserIndex = messages.findLastIndex(
+    (message) => message.role === "user"
+  );
+
+  const submitDraft = () => {
+    if (!draft?.content.trim()) return;
+    if (draft.branch) {
+      onBranchMessage?.(draft.index, draft.content);
+    } else {
+      onEditMessage?.(draft.content);
+    }
+    setDraft(null);
+  };
+
   return (
     <div className="flex flex-col h-full overflow-y-auto px-4 py-6">
       <div className="space-y-6 max-w-4xl mx-auto w-full">
-        {messages.map((message) => (
-          <div
-            key={message.id || message.content}
-            className={cn(
-              "flex gap-4",
-              message.role === "user" ? "justify-end" : "justify-start"
-            )}
-          >
-            {message.role === "assistant" && (
-              <div className="flex-shrink-0">
-                <div className="w-9 h-9 rounded-lg bg-white border border-neutral-200 shadow-sm flex items-center justify-center">
-                  <Bot className="h-4.5 w-4.5 text-neutral-700" />
-                </div>
+        {messages.map((message, index) => (
+          <Fragment key={message.id || message.content}>
+            {index === summary?.messageCount && (
+              <div className="flex items-center gap-3 text-xs text-neutral-400">
+                <div className="h-px flex-1 bg-neutral-200" />
+                <span>Earlier messages were summarized to fit the model&apos;s context</span>
+                <div className="h-px flex-1 bg-neutral-200" />
               </div>
             )}
-            
-            <div className={cn(
-              "flex flex-col gap-2 max-w-[85%]",
-              message.role === "user" ? "items-end" : "items-start"
-            )}>
+            <div
+              className={cn(
+                "flex gap-4",
+                message.role === "user" ? "justify-end" : "justify-start"
+              )}
+            >
+              {message.role === "assistant" && (
+                <div className="flex-shrink-0">
+                  <div className="w-9 h-9 rounded-lg bg-white border border-neutral-200 shadow-sm flex items-center justify-center">
+                    <Bot className="h-4.5 w-4.5 text-neutral-700" />
+                  </div>
+                </div>
+              )}
+              
               <div className={cn(
-                "rounded-xl px-4 py-3",
-                message.role === "user" 
-                  ? "bg-blue-600 text-white shadow-sm" 
-                  : "bg-white text-neutral-900 border border-neutral-200 shadow-sm"
+                "flex flex-col gap-2 max-w-[85%]",
+                message.role === "user" ? "items-end" : "items-start"
               )}>
-                <div className="text-sm">
-                  {message.parts ? (
-                    <>
-                      {message.parts.map((part, partIndex) => {
-                        switch (part.type) {
-                          case "text":
-                            return message.role === "user" ? (
-                              <span key={partIndex} className="whitespace-pre-wrap">{part.text}</span>
-                            ) : (
-                              <MarkdownRenderer
-                                key={partIndex}
-                                content={part.text}
-                                className="prose-sm"
-                              />
-                            );
-                          case "reasoning":
-                            return (
-                              <div key={partIndex} className="mt-3 p-3 bg-white/50 rounded-md border border-neutral-200">
-                                <span className="text-xs font-medium text-neutral-600 block mb-1">Reasoning</span>
-                                <span className="text-sm text-neutral-700">{part.reasoning}</span>
-                              </div>
-                            );
-                          case "tool-invocation":
-                            const tool = part.toolInvocation;
-                            return (
-                              <ToolCallDisplay
-                                key={partIndex}
-                                toolInvocation={tool}
-                              />
-                            );
-                          case "source":
-                            return (
-                              <div key={partIndex} className="mt-2 text-xs text-neutral-500">
-                                Source: {JSON.stringify(part.source)}
-                              </div>
-                            );
-                          case "step-start":
-                            return partIndex > 0 ? <hr key={partIndex} className="my-3 border-neutral-200" /> : null;
-                          default:
-                            return null;
+                {draft?.index === index && (
+                  <div className="flex w-full min-w-[280px] flex-col gap-2">
+                    <textarea
+                      value={draft.content}
+                      onChange={(e) =>
+                        setDraft({ ...draft, content: e.target.value })
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          submitDraft();
+                        } else if (e.key === "Escape") {
+                          setDraft(null);
                         }
-                      })}
-                      {isLoading &&
-                        message.role === "assistant" &&
-                        messages.indexOf(message) === messages.length - 1 && (
-                          <div className="flex items-center gap-2 mt-3 text-neutral-500">
-                            <Loader2 className="h-3 w-3 animate-spin" />
-                            <span className="text-sm">Generating...</span>
-                          </div>
-                        )}
-                    </>
-                  ) : message.content ? (
-                    message.role === "user" ? (
-                      <span className="whitespace-pre-wrap">{message.content}</span>
-                    ) : (
-                      <MarkdownRenderer content={message.content} className="prose-sm" />
-                    )
-                  ) : isLoading &&
-                    message.role === "assistant" &&
-                    messages.indexOf(message) === messages.length - 1 ? (
-                    <div className="flex items-center gap-2 text-neutral-500">
-                      <Loader2 className="h-3 w-3 animate-spin" />
-                      <span className="text-sm">Generating...</span>
+                      }}
+                      aria-label="Edit message"
+                      autoFocus
+                      rows={3}
+                      className="w-full resize-none rounded-xl border border-neutral-200 bg-white px-4 py-3 text-sm text-neutral-900 focus:outline-none focus:ring-2 focus:ring-blue-500/10 focus:border-blue-500/50"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setDraft(null)}
+                        className="rounded-md px-3 py-1.5 text-xs text-neutral-600 hover:bg-neutral-100"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={submitDraft}
+                        disabled={!draft.content.trim()}
+                        className="rounded-md bg-blue-600 px-3 py-1.5 text-xs text-white hover:bg-blue-700 disabled:opacity-40"
+                      >
+                        {draft.branch ? "Create branch" : "Send"}
+                      </button>
                     </div>
-                  ) : null}
+                  </div>
+                )}
+                <div className={cn(
+                  "rounded-xl px-4 py-3",
+                  message.role === "user" 
+                    ? "bg-blue-600 text-white shadow-sm" 
+                    : "bg-white text-neutral-900 border border-neutral-200 shadow-sm",
+                  draft?.index === index && "hidden"
+                )}>
+                  {message.experimental_attachments &&
+                    message.experimental_attachments.length > 0 && (
+                      <div className="mb-2 flex flex-wrap gap-2">
+                        {message.experimental_attachments
+                          .filter((attachment) =>
+                            attachment.contentType?.startsWith("image/")
+                          )
+                          .map((attachment, attachmentIndex) => (
+                            // Data URLs gain nothing from optimization
+                            <Image
+                              key={attachmentIndex}
+                              src={attachment.url}
+                              alt={attachment.name || "Attached image"}
+                              width={200}
+                              height={160}
+                              unoptimized
+                              className="h-auto max-h-40 w-auto max-w-[200px] rounded-md object-cover"
+                            />
+                          ))}
+                      </div>
+                    )}
+                  <div className="text-sm">
+                    {message.parts ? (
+                      <>
+                        {message.parts.map((part, partIndex) => {
+                          switch (part.type) {
+                            case "text":
+                              return message.role === "user" ? (
+                                <span key={partIndex} className="whitespace-pre-wrap">{part.text}</span>
+                              ) : (
+                                <MarkdownRenderer
+                                  key={partIndex}
+                                  content={part.text}
+                                  className="prose-sm"
+                                />
+                              );
+                            case "reasoning":
+                              return (
+                                <div key={partIndex} className="mt-3 p-3 bg-white/50 rounded-md border border-neutral-200">
+                                  <span className="text-xs font-medium text-neutral-600 block mb-1">Reasoning</span>
+                                  <span className="text-sm text-neutral-700">{part.reasoning}</span>
+                                </div>
+                              );
+                            case "tool-invocation":
+                              const tool = part.toolInvocation;
+                              return (
+                                <ToolCallDisplay
+                                  key={partIndex}
+                                  toolInvocation={tool}
+                                />
+                              );
+                            case "source":
+                              return (
+                                <div key={partIndex} className="mt-2 text-xs text-neutral-500">
+                                  Source: {JSON.stringify(part.source)}
+                                </div>
+                              );
+                            case "step-start":
+                              return partIndex > 0 ? <hr key={partIndex} className="my-3 border-neutral-200" /> : null;
+                            default:
+                              return null;
+                          }
+                        })}
+                        {isLoading &&
+                          message.role === "assistant" &&
+                          messages.indexOf(message) === messages.length - 1 && (
+                            <div className="flex items-center gap-2 mt-3 text-neutral-500">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              <span className="text-sm">Generating...</span>
+                            </div>
+                          )}
+                      </>
+                    ) : message.content ? (
+                      message.role === "user" ? (
+                        <span className="whitespace-pre-wrap">{message.content}</span>
+                      ) : (
+                        <MarkdownRenderer content={message.content} className="prose-sm" />
+                      )
+                    ) : isLoading &&
+                      message.role === "assistant" &&
+                      messages.indexOf(message) === messages.length - 1 ? (
+                      <div className="flex items-center gap-2 text-neutral-500">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        <span className="text-sm">Generating...</span>
+                      </div>
+                    ) : null}
+                  </div>
                 </div>
+                {!isLoading &&
+                  message.role === "user" &&
+                  draft?.index !== index && (
+                    <div className="flex gap-3">
+                      {onEditMessage && index === lastUserIndex && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setDraft({
+                              index,
+                              content: message.content,
+                              branch: false,
+                            })
+                          }
+                          className="flex items-center gap-1 text-xs text-neutral-500 hover:text-neutral-900"
+                        >
+                          <Pencil className="h-3 w-3" />
+                          Edit
+                        </button>
+                      )}
+                      {onBranchMessage && (
+                        <button
+                          type="button"
+                          title="Edit in a new branch, keeping the current one"
+                          onClick={() =>
+                            setDraft({
+                              index,
+                              content: message.content,
+                              branch: true,
+                            })
+                          }
+                          className="flex items-center gap-1 text-xs text-neutral-500 hover:text-neutral-900"
+                        >
+                          <GitBranch className="h-3 w-3" />
+                          Branch
+                        </button>
+                      )}
+                    </div>
+                  )}
+                {message.role === "assistant" && (
+                  <UsageFooter message={message} />
+                )}
+                {!isLoading &&
+                  onRegenerate &&
+                  index === messages.length - 1 &&
+                  lastUserIndex !== -1 && (
+                    <button
+                      type="button"
+                      onClick={onRegenerate}
+                      className="flex items-center gap-1 text-xs text-neutral-500 hover:text-neutral-900"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      Regenerate
+                    </button>
+                  )}
               </div>
-            </div>
-            
-            {message.role === "user" && (
-              <div className="flex-shrink-0">
-                <div className="w-9 h-9 rounded-lg bg-blue-600 shadow-sm flex items-center justify-center">
-                  <User className="h-4.5 w-4.5 text-white" />
+              
+              {message.role === "user" && (
+                <div className="flex-shrink-0">
+                  <div className="w-9 h-9 rounded-lg bg-blue-600 shadow-sm flex items-center justify-center">
+                    <User className="h-4.5 w-4.5 text-white" />
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          </Fragment>
         ))}
       </div>
     </div>
@@ -31,6 +31,8 @@ function getToolDisplayMessage(toolInvocation: ToolInvocation): string {
         return `Viewing ${filename}`;
       case "insert":
         return `Updating ${filename}`;
+      case "undo_edit":
+        return `Reverting ${filename}`;
       default:
         return `Working with ${filename}`;
     }
@@ -53,6 +55,21 @@ function getToolDisplayMessage(toolInvocation: ToolInvocation): string {
     }
   }
 
+  if (toolName === "dependency_manager") {
+    const name = args?.name || "package";
+
+    switch (args?.command) {
+      case "add":
+        return args?.version
+          ? `Adding ${name}@${args.version}`
+          : `Adding ${name}`;
+      case "remove":
+        return `Removing ${name}`;
+      default:
+        return `Managing ${name}`;
+    }
+  }
+
   // Fallback for unknown tools
   return toolName.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 }
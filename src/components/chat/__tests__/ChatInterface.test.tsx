@@ -9,6 +9,14 @@ vi.mock("@/lib/contexts/chat-context", () => ({
   useChat: vi.fn(),
 }));
 
+vi.mock("@/hooks/use-branches", () => ({
+  useBranches: () => ({ branchFrom: vi.fn() }),
+}));
+
+vi.mock("@/hooks/use-retry-turn", () => ({
+  useRetryTurn: () => ({ regenerate: vi.fn(), editLastMessage: vi.fn() }),
+}));
+
 // Mock the ScrollArea component
 vi.mock("@/components/ui/scroll-area", () => ({
   ScrollArea: ({ children, className }: any) => (
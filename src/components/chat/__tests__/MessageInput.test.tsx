@@ -1,5 +1,5 @@
 import { test, expect, vi, afterEach } from "vitest";
-import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { render, screen, fireEvent, cleanup, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { MessageInput } from "../MessageInput";
 
@@ -260,4 +260,182 @@ test("submit button click triggers form submission", async () => {
   await userEvent.click(submitButton);
   
   expect(handleSubmit).toHaveBeenCalledOnce();
-});
\ No newline at end of file
+});
+test("shows the element picked in the preview and lets it be removed", () => {
+  const onClearInspectedElement = vi.fn();
+
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      inspectedElement={{
+        tagName: "button",
+        className: "px-4",
+        text: "Save",
+        path: "/App.jsx",
+        line: 12,
+      }}
+      onClearInspectedElement={onClearInspectedElement}
+    />
+  );
+
+  expect(screen.getByText("<button> /App.jsx:12")).toBeDefined();
+
+  fireEvent.click(screen.getByTitle("Remove selected element"));
+  expect(onClearInspectedElement).toHaveBeenCalled();
+});
+
+test("shows a stop button while generating", async () => {
+  const onStop = vi.fn();
+  const handleSubmit = vi.fn();
+
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={handleSubmit}
+      isLoading={true}
+      onStop={onStop}
+    />
+  );
+
+  await userEvent.click(screen.getByRole("button", { name: "Stop generating" }));
+
+  expect(onStop).toHaveBeenCalled();
+  expect(handleSubmit).not.toHaveBeenCalled();
+});
+
+test("does not show the stop button when idle", () => {
+  render(
+    <MessageInput
+      input="Hello"
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      onStop={vi.fn()}
+    />
+  );
+
+  expect(screen.queryByRole("button", { name: "Stop generating" })).toBeNull();
+});
+
+const image = {
+  name: "mockup.png",
+  contentType: "image/png",
+  url: "data:image/png;base64,cG5n",
+};
+
+test("attaches images from the file picker", async () => {
+  const onAttachmentsChange = vi.fn();
+
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      attachments={[]}
+      onAttachmentsChange={onAttachmentsChange}
+    />
+  );
+
+  const file = new File(["png"], "mockup.png", { type: "image/png" });
+  fireEvent.change(screen.getByTestId("image-input"), {
+    target: { files: [file] },
+  });
+
+  await waitFor(() => {
+    expect(onAttachmentsChange).toHaveBeenCalledWith([image]);
+  });
+});
+
+test("attaches pasted images", async () => {
+  const onAttachmentsChange = vi.fn();
+
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      attachments={[]}
+      onAttachmentsChange={onAttachmentsChange}
+    />
+  );
+
+  const file = new File(["png"], "mockup.png", { type: "image/png" });
+  fireEvent.paste(screen.getByRole("textbox"), {
+    clipboardData: { files: [file] },
+  });
+
+  await waitFor(() => {
+    expect(onAttachmentsChange).toHaveBeenCalledWith([image]);
+  });
+});
+
+test("rejects files that are not supported images", async () => {
+  const onAttachmentsChange = vi.fn();
+
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      attachments={[]}
+      onAttachmentsChange={onAttachmentsChange}
+    />
+  );
+
+  const file = new File(["%PDF"], "spec.pdf", { type: "application/pdf" });
+  fireEvent.drop(screen.getByRole("textbox").closest("form")!, {
+    dataTransfer: { files: [file], types: ["Files"] },
+  });
+
+  expect(
+    await screen.findByText(
+      "Only PNG, JPEG, GIF and WebP images up to 5 MB can be attached"
+    )
+  ).toBeDefined();
+  expect(onAttachmentsChange).not.toHaveBeenCalled();
+});
+
+test("shows attached images and removes them", () => {
+  const onAttachmentsChange = vi.fn();
+
+  render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      attachments={[image]}
+      onAttachmentsChange={onAttachmentsChange}
+    />
+  );
+
+  expect(screen.getByAltText("mockup.png")).toBeDefined();
+  fireEvent.click(screen.getByTitle("Remove mockup.png"));
+
+  expect(onAttachmentsChange).toHaveBeenCalledWith([]);
+});
+
+test("can send attached images without a prompt", () => {
+  const { container } = render(
+    <MessageInput
+      input=""
+      handleInputChange={vi.fn()}
+      handleSubmit={vi.fn()}
+      isLoading={false}
+      attachments={[image]}
+      onAttachmentsChange={vi.fn()}
+    />
+  );
+
+  const submitButton = container.querySelector(
+    'button[type="submit"]'
+  ) as HTMLButtonElement;
+  expect(submitButton.disabled).toBe(false);
+});
@@ -1,5 +1,5 @@
 import { test, expect, vi, afterEach } from "vitest";
-import { render, screen, cleanup } from "@testing-library/react";
+import { render, screen, cleanup, fireEvent } from "@testing-library/react";
 import { MessageList } from "../MessageList";
 import type { Message } from "ai";
 
@@ -323,3 +323,158 @@ test("MessageList shows loading for assistant message with empty parts", () => {
   );
   expect(generatingElements).toHaveLength(1);
 });
+
+const conversation: Message[] = [
+  { id: "1", role: "user", content: "Make a button" },
+  { id: "2", role: "assistant", content: "Done" },
+];
+
+test("MessageList regenerates the last response", () => {
+  const onRegenerate = vi.fn();
+
+  render(<MessageList messages={conversation} onRegenerate={onRegenerate} />);
+  fireEvent.click(screen.getByText("Regenerate"));
+
+  expect(onRegenerate).toHaveBeenCalled();
+});
+
+test("MessageList edits and resends the last user message", () => {
+  const onEditMessage = vi.fn();
+
+  render(
+    <MessageList messages={conversation} onEditMessage={onEditMessage} />
+  );
+  fireEvent.click(screen.getByText("Edit"));
+
+  const textarea = screen.getByLabelText("Edit message");
+  expect((textarea as HTMLTextAreaElement).value).toBe("Make a button");
+  fireEvent.change(textarea, { target: { value: "Make a red button" } });
+  fireEvent.click(screen.getByText("Send"));
+
+  expect(onEditMessage).toHaveBeenCalledWith("Make a red button");
+  expect(screen.queryByLabelText("Edit message")).toBeNull();
+});
+
+test("MessageList cancels editing", () => {
+  const onEditMessage = vi.fn();
+
+  render(
+    <MessageList messages={conversation} onEditMessage={onEditMessage} />
+  );
+  fireEvent.click(screen.getByText("Edit"));
+  fireEvent.click(screen.getByText("Cancel"));
+
+  expect(onEditMessage).not.toHaveBeenCalled();
+  expect(screen.getByText("Make a button")).toBeDefined();
+});
+
+test("MessageList hides the controls while generating", () => {
+  render(
+    <MessageList
+      messages={conversation}
+      isLoading={true}
+      onRegenerate={vi.fn()}
+      onEditMessage={vi.fn()}
+    />
+  );
+
+  expect(screen.queryByText("Regenerate")).toBeNull();
+  expect(screen.queryByText("Edit")).toBeNull();
+});
+
+test("MessageList branches from an earlier user message", () => {
+  const onBranchMessage = vi.fn();
+  const messages: Message[] = [
+    ...conversation,
+    { id: "3", role: "user", content: "Make it red" },
+    { id: "4", role: "assistant", content: "Done" },
+  ];
+
+  render(
+    <MessageList messages={messages} onBranchMessage={onBranchMessage} />
+  );
+  fireEvent.click(screen.getAllByText("Branch")[0]);
+
+  const textarea = screen.getByLabelText("Edit message");
+  expect((textarea as HTMLTextAreaElement).value).toBe("Make a button");
+  fireEvent.change(textarea, { target: { value: "Make a card" } });
+  fireEvent.click(screen.getByText("Create branch"));
+
+  expect(onBranchMessage).toHaveBeenCalledWith(0, "Make a card");
+});
+
+test("MessageList shows attached images", () => {
+  const messages: Message[] = [
+    {
+      id: "1",
+      role: "user",
+      content: "Build this",
+      experimental_attachments: [
+        {
+          name: "mockup.png",
+          contentType: "image/png",
+          url: "data:image/png;base64,cG5n",
+        },
+      ],
+    },
+  ];
+
+  render(<MessageList messages={messages} />);
+
+  const thumbnail = screen.getByAltText("mockup.png") as HTMLImageElement;
+  expect(thumbnail.src).toBe("data:image/png;base64,cG5n");
+});
+
+test("MessageList marks where the history was summarized", () => {
+  const messages: Message[] = [
+    ...conversation,
+    { id: "3", role: "user", content: "Make it red" },
+    {
+      id: "4",
+      role: "assistant",
+      content: "Done",
+      annotations: [
+        { type: "history-summary", summary: "A button", messageCount: 2 },
+      ],
+    },
+  ];
+
+  const { container } = render(<MessageList messages={messages} />);
+
+  const notice = screen.getByText(
+    "Earlier messages were summarized to fit the model's context"
+  );
+  const rows = Array.from(container.querySelector(".space-y-6")!.children);
+  expect(rows.indexOf(notice.parentElement!)).toBe(2);
+});
+
+test("MessageList shows the token usage of assistant messages", () => {
+  const messages: Message[] = [
+    { id: "1", role: "user", content: "Create a button" },
+    {
+      id: "2",
+      role: "assistant",
+      content: "Done",
+      annotations: [
+        {
+          type: "usage",
+          model: "claude-sonnet-4-0",
+          promptTokens: 1_200,
+          completionTokens: 340,
+          cacheReadTokens: 900,
+          cacheWriteTokens: 0,
+          cost: 0.0089,
+        },
+      ],
+    },
+    { id: "3", role: "user", content: "Make it red" },
+    { id: "4", role: "assistant", content: "Done" },
+  ];
+
+  render(<MessageList messages={messages} />);
+
+  expect(
+    screen.getByText("1.2k in · 340 out · 900 cached · <$0.01")
+  ).toBeDefined();
+  expect(screen.getAllByText(/ in · /)).toHaveLength(1);
+});
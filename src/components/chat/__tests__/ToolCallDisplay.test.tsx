@@ -85,6 +85,18 @@ describe("ToolCallDisplay", () => {
       expect(screen.getByText("Updating utils.ts")).toBeDefined();
     });
 
+    test("shows 'Reverting' message for undo_edit command", () => {
+      const toolInvocation = {
+        toolName: "str_replace_editor",
+        state: "result" as const,
+        args: { command: "undo_edit", path: "/src/utils.ts" },
+        result: "success"
+      };
+
+      render(<ToolCallDisplay toolInvocation={toolInvocation} />);
+      expect(screen.getByText("Reverting utils.ts")).toBeDefined();
+    });
+
     test("shows 'Working with' message for unknown command", () => {
       const toolInvocation = {
         toolName: "str_replace_editor",
@@ -122,6 +134,31 @@ describe("ToolCallDisplay", () => {
     });
   });
 
+  describe("dependency_manager tool messages", () => {
+    test("shows the pinned version when adding a package", () => {
+      const toolInvocation = {
+        toolName: "dependency_manager",
+        state: "result" as const,
+        args: { command: "add", name: "framer-motion", version: "11.2.0" },
+        result: "success"
+      };
+
+      render(<ToolCallDisplay toolInvocation={toolInvocation} />);
+      expect(screen.getByText("Adding framer-motion@11.2.0")).toBeDefined();
+    });
+
+    test("shows 'Removing' message for remove command", () => {
+      const toolInvocation = {
+        toolName: "dependency_manager",
+        state: "call" as const,
+        args: { command: "remove", name: "lodash" },
+      };
+
+      render(<ToolCallDisplay toolInvocation={toolInvocation} />);
+      expect(screen.getByText("Removing lodash")).toBeDefined();
+    });
+  });
+
   describe("file_manager tool messages", () => {
     test("shows 'Renaming' message for rename command", () => {
       const toolInvocation = {
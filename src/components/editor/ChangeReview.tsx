@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { DiffEditor } from "@monaco-editor/react";
+import { Check, GitCompare, Undo2 } from "lucide-react";
+import { FileChange, useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { getLanguageFromPath } from "./CodeEditor";
+
+function getChangeLabel(change: FileChange): string {
+  if (change.before === null) return "Added";
+  if (change.after === null) return "Deleted";
+  return "Modified";
+}
+
+export function ChangeReview() {
+  const {
+    pendingChanges,
+    acceptChange,
+    rejectChange,
+    acceptAllChanges,
+    rejectAllChanges,
+  } = useFileSystem();
+  const { status } = useChat();
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  // Changes are still coming in while the AI is generating
+  const disabled = status === "submitted" || status === "streaming";
+
+  if (pendingChanges.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <GitCompare className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-sm text-gray-500">No changes to review</p>
+          <p className="text-xs text-gray-400 mt-1">
+            Files changed by the AI will appear here
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const selected =
+    pendingChanges.find((change) => change.path === selectedPath) ||
+    pendingChanges[0];
+
+  return (
+    <div className="h-full flex">
+      <div className="w-64 shrink-0 flex flex-col border-r border-neutral-200 bg-neutral-50">
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-neutral-200">
+          <span className="text-sm font-medium text-neutral-900">
+            {pendingChanges.length} changed file
+            {pendingChanges.length > 1 ? "s" : ""}
+          </span>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Accept all"
+              disabled={disabled}
+              onClick={acceptAllChanges}
+            >
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Revert all"
+              disabled={disabled}
+              onClick={rejectAllChanges}
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <ScrollArea className="flex-1">
+          <ul className="py-1">
+            {pendingChanges.map((change) => (
+              <li
+                key={change.path}
+                className={cn(
+                  "flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-100",
+                  change.path === selected.path && "bg-blue-50 text-blue-600"
+                )}
+                onClick={() => setSelectedPath(change.path)}
+              >
+                <span className="flex-1 truncate" title={change.path}>
+                  {change.path}
+                </span>
+                <span className="text-xs text-neutral-500">
+                  {getChangeLabel(change)}
+                </span>
+                <button
+                  className="p-0.5 rounded hover:bg-emerald-100 disabled:opacity-40"
+                  title={`Accept ${change.path}`}
+                  disabled={disabled}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    acceptChange(change.path);
+                  }}
+                >
+                  <Check className="h-3.5 w-3.5 text-emerald-600" />
+                </button>
+                <button
+                  className="p-0.5 rounded hover:bg-red-100 disabled:opacity-40"
+                  title={`Revert ${change.path}`}
+                  disabled={disabled}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    rejectChange(change.path);
+                  }}
+                >
+                  <Undo2 className="h-3.5 w-3.5 text-red-600" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </div>
+      <div className="flex-1">
+        <DiffEditor
+          height="100%"
+          language={getLanguageFromPath(selected.path)}
+          original={selected.before ?? ""}
+          modified={selected.after ?? ""}
+          theme="vs-dark"
+          options={{
+            readOnly: true,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            fontSize: 14,
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
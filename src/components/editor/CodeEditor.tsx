@@ -1,43 +1,135 @@
 "use client";
 
-import { useEffect, useRef } from "react";
-import Editor from "@monaco-editor/react";
+import { useEffect, useState } from "react";
+import Editor, { Monaco, OnMount } from "@monaco-editor/react";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
-import { Code2 } from "lucide-react";
+import { computeTextEdit } from "@/lib/text-edit";
+import { cn } from "@/lib/utils";
+import { Code2, X } from "lucide-react";
+
+export function getLanguageFromPath(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'js':
+    case 'jsx':
+      return 'javascript';
+    case 'ts':
+    case 'tsx':
+      return 'typescript';
+    case 'json':
+      return 'json';
+    case 'css':
+      return 'css';
+    case 'html':
+      return 'html';
+    case 'md':
+      return 'markdown';
+    default:
+      return 'plaintext';
+  }
+}
 
 export function CodeEditor() {
-  const { selectedFile, getFileContent, updateFile } = useFileSystem();
-  const editorRef = useRef<any>(null);
+  const {
+    selectedFile,
+    setSelectedFile,
+    openFiles,
+    closeFile,
+    dirtyFiles,
+    getFileContent,
+    updateFile,
+    refreshTrigger,
+    editorLocation,
+    clearEditorLocation,
+  } = useFileSystem();
+  const [editor, setEditor] = useState<Parameters<OnMount>[0] | null>(null);
+  const [monaco, setMonaco] = useState<Monaco | null>(null);
 
-  const handleEditorDidMount = (editor: any) => {
-    editorRef.current = editor;
+  const handleEditorDidMount: OnMount = (mountedEditor, mountedMonaco) => {
+    setEditor(mountedEditor);
+    setMonaco(mountedMonaco);
   };
 
-  const handleEditorChange = (value: string | undefined) => {
-    if (selectedFile && value !== undefined) {
-      updateFile(selectedFile, value);
+  // The editor keeps a model per path, which holds the file's undo history.
+  // Bring the models in line with changes made elsewhere (e.g. by the AI),
+  // replacing only the changed text so cursors and history survive.
+  useEffect(() => {
+    if (!monaco) return;
+
+    for (const model of monaco.editor.getModels()) {
+      if (model.uri.scheme !== "file") continue;
+      const content = getFileContent(model.uri.path);
+      if (content === null) continue;
+
+      const edit = computeTextEdit(model.getValue(), content);
+      if (!edit) continue;
+
+      const start = model.getPositionAt(edit.start);
+      const end = model.getPositionAt(edit.end);
+      model.pushStackElement();
+      model.pushEditOperations(
+        [],
+        [
+          {
+            range: new monaco.Range(
+              start.lineNumber,
+              start.column,
+              end.lineNumber,
+              end.column
+            ),
+            text: edit.text,
+          },
+        ],
+        () => null
+      );
+      model.pushStackElement();
     }
-  };
+  }, [monaco, refreshTrigger, getFileContent]);
+
+  // Drop the models of closed, renamed and deleted files
+  useEffect(() => {
+    if (!monaco) return;
+
+    for (const model of monaco.editor.getModels()) {
+      if (
+        model.uri.scheme === "file" &&
+        !openFiles.includes(model.uri.path) &&
+        model !== editor?.getModel()
+      ) {
+        model.dispose();
+      }
+    }
+  }, [monaco, editor, openFiles, selectedFile]);
 
-  const getLanguageFromPath = (path: string): string => {
-    const extension = path.split('.').pop()?.toLowerCase();
-    switch (extension) {
-      case 'js':
-      case 'jsx':
-        return 'javascript';
-      case 'ts':
-      case 'tsx':
-        return 'typescript';
-      case 'json':
-        return 'json';
-      case 'css':
-        return 'css';
-      case 'html':
-        return 'html';
-      case 'md':
-        return 'markdown';
-      default:
-        return 'plaintext';
+  // Move the cursor to a location requested elsewhere, e.g. by clicking an
+  // error in the preview
+  useEffect(() => {
+    // A disposed editor (from before the file was deselected) has no model
+    if (
+      !editor?.getModel() ||
+      !editorLocation ||
+      editorLocation.path !== selectedFile
+    ) {
+      return;
+    }
+
+    const position = {
+      lineNumber: editorLocation.line,
+      column: editorLocation.column,
+    };
+    editor.setPosition(position);
+    editor.revealPositionInCenter(position);
+    editor.focus();
+    clearEditorLocation();
+  }, [editor, editorLocation, selectedFile, clearEditorLocation]);
+
+  const handleEditorChange = (value: string | undefined) => {
+    if (
+      selectedFile &&
+      value !== undefined &&
+      value !== getFileContent(selectedFile)
+    ) {
+      updateFile(selectedFile, value);
     }
   };
 
@@ -60,25 +152,110 @@ export function CodeEditor() {
   const content = getFileContent(selectedFile) || '';
   const language = getLanguageFromPath(selectedFile);
 
+  // Tabs for files with the same name also show their folder
+  const nameCounts = new Map<string, number>();
+  for (const path of openFiles) {
+    const name = path.split('/').pop()!;
+    nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+  }
+
   return (
-    <Editor
-      height="100%"
-      language={language}
-      value={content}
-      onChange={handleEditorChange}
-      onMount={handleEditorDidMount}
-      theme="vs-dark"
-      options={{
-        minimap: { enabled: false },
-        fontSize: 14,
-        lineNumbers: 'on',
-        roundedSelection: false,
-        scrollBeyondLastLine: false,
-        readOnly: false,
-        automaticLayout: true,
-        wordWrap: 'on',
-        padding: { top: 16, bottom: 16 },
-      }}
-    />
+    <div className="h-full flex flex-col bg-[#1e1e1e]">
+      <div
+        role="tablist"
+        aria-label="Open files"
+        className="flex shrink-0 overflow-x-auto bg-gray-900 border-b border-gray-800"
+      >
+        {openFiles.map((path) => {
+          const name = path.split('/').pop()!;
+          const folder = path.slice(0, path.lastIndexOf('/')) || '/';
+          const isActive = path === selectedFile;
+          const isDirty = dirtyFiles.has(path);
+
+          return (
+            <div
+              key={path}
+              role="tab"
+              tabIndex={0}
+              aria-selected={isActive}
+              title={path}
+              className={cn(
+                "group flex h-9 shrink-0 cursor-pointer items-center gap-1.5 border-r border-gray-800 pl-3 pr-1.5 text-xs",
+                isActive
+                  ? "bg-[#1e1e1e] text-gray-100"
+                  : "text-gray-400 hover:bg-gray-800"
+              )}
+              onClick={() => setSelectedFile(path)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  setSelectedFile(path);
+                }
+              }}
+              onAuxClick={(e) => {
+                // Middle click closes the tab
+                if (e.button === 1) {
+                  e.preventDefault();
+                  closeFile(path);
+                }
+              }}
+            >
+              <span>{name}</span>
+              {nameCounts.get(name)! > 1 && (
+                <span className="text-gray-500">{folder}</span>
+              )}
+              <button
+                aria-label={`Close ${name}`}
+                className="flex h-4 w-4 items-center justify-center rounded hover:bg-gray-700"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  closeFile(path);
+                }}
+              >
+                {isDirty && (
+                  <span
+                    title="Unsaved changes"
+                    className="h-2 w-2 rounded-full bg-gray-300 group-hover:hidden"
+                  />
+                )}
+                <X
+                  className={cn(
+                    "h-3 w-3",
+                    isDirty
+                      ? "hidden group-hover:block"
+                      : !isActive && "invisible group-hover:visible"
+                  )}
+                />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex-1 min-h-0">
+        <Editor
+          height="100%"
+          path={selectedFile}
+          language={language}
+          defaultValue={content}
+          // Keep the file's model (and its undo history) when switching away
+          // from the code view
+          keepCurrentModel
+          onChange={handleEditorChange}
+          onMount={handleEditorDidMount}
+          theme="vs-dark"
+          options={{
+            minimap: { enabled: false },
+            fontSize: 14,
+            lineNumbers: 'on',
+            roundedSelection: false,
+            scrollBeyondLastLine: false,
+            readOnly: false,
+            automaticLayout: true,
+            wordWrap: 'on',
+            padding: { top: 16, bottom: 16 },
+          }}
+        />
+      </div>
+    </div>
   );
-}
\ No newline at end of file
+}
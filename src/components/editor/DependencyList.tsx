@@ -0,0 +1,39 @@
+"use client";
+
+import { Package } from "lucide-react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import {
+  PACKAGE_MANIFEST_PATH,
+  readDependencies,
+} from "@/lib/package-manifest";
+
+export function DependencyList() {
+  const { fileSystem } = useFileSystem();
+  const dependencies = Object.entries(
+    readDependencies(fileSystem.readFile(PACKAGE_MANIFEST_PATH))
+  );
+
+  return (
+    <div className="shrink-0 border-t border-neutral-200 px-3 py-2">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-neutral-700">
+        <Package className="h-3.5 w-3.5 text-neutral-500" />
+        Dependencies
+      </div>
+      {dependencies.length === 0 ? (
+        <p className="mt-1 text-xs text-neutral-400">No packages pinned</p>
+      ) : (
+        <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto">
+          {dependencies.map(([name, version]) => (
+            <li
+              key={name}
+              className="flex justify-between gap-2 text-xs font-mono"
+            >
+              <span className="truncate text-neutral-700">{name}</span>
+              <span className="shrink-0 text-neutral-500">{version}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,26 +1,200 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { FileNode } from "@/lib/file-system";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { findMissingImports } from "@/lib/transform/import-resolver";
 import {
+  AlertTriangle,
   ChevronRight,
   ChevronDown,
   Folder,
   FolderOpen,
   FileCode,
+  FilePlus,
+  FolderPlus,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// A name being typed in place, either for a new node or to rename one
+type Draft =
+  | { kind: "create"; type: "file" | "directory"; parent: string }
+  | { kind: "rename"; path: string };
+
+interface ContextMenuState {
+  x: number;
+  y: number;
+  // null when opened on the empty area of the tree, i.e. the root
+  node: FileNode | null;
+}
+
+// State and handlers shared by every node of the tree
+interface FileTreeActions {
+  draft: Draft | null;
+  // Directory a dragged node would be moved into
+  dropTarget: string | null;
+  startRename: (path: string) => void;
+  // Returns an error message when the name cannot be used
+  submitDraft: (name: string) => string | null;
+  cancelDraft: () => void;
+  requestDelete: (node: FileNode) => void;
+  openMenu: (menu: ContextMenuState) => void;
+  startDrag: (path: string) => void;
+  endDrag: () => void;
+  dragOver: (event: React.DragEvent, directory: string) => void;
+  drop: (event: React.DragEvent, directory: string) => void;
+}
 
 interface FileTreeNodeProps {
   node: FileNode;
   level: number;
+  // Unresolved import specifiers, keyed by the file that contains them
+  missingImports: Map<string, string[]>;
+  actions: FileTreeActions;
+}
+
+function collectFiles(node: FileNode, files: Map<string, string>) {
+  if (node.type === "file") {
+    files.set(node.path, node.content || "");
+  } else if (node.children) {
+    for (const child of node.children.values()) {
+      collectFiles(child, files);
+    }
+  }
+  return files;
+}
+
+function joinPath(directory: string, name: string) {
+  return directory === "/" ? `/${name}` : `${directory}/${name}`;
+}
+
+function getParentPath(path: string) {
+  return path.slice(0, path.lastIndexOf("/")) || "/";
+}
+
+function getName(path: string) {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function validateName(name: string): string | null {
+  if (!name) return "Enter a name";
+  if (/[\\/]/.test(name)) return "Names cannot contain slashes";
+  if (name === "." || name === "..") return `"${name}" is not a valid name`;
+  return null;
+}
+
+interface NameInputProps {
+  level: number;
+  type: "file" | "directory";
+  label: string;
+  initialName?: string;
+  onSubmit: (name: string) => string | null;
+  onCancel: () => void;
 }
 
-function FileTreeNode({ node, level }: FileTreeNodeProps) {
+function NameInput({
+  level,
+  type,
+  label,
+  initialName = "",
+  onSubmit,
+  onCancel,
+}: NameInputProps) {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Set once the input has been submitted or cancelled, so the blur caused
+  // by unmounting it is ignored
+  const done = useRef(false);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    input.focus();
+    // Select the name without its extension
+    const dot = initialName.lastIndexOf(".");
+    input.setSelectionRange(0, dot > 0 ? dot : initialName.length);
+  }, [initialName]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key === "Enter") {
+      e.preventDefault();
+      const submitError = onSubmit(name);
+      done.current = submitError === null;
+      setError(submitError);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      done.current = true;
+      onCancel();
+    }
+  };
+
+  const handleBlur = () => {
+    if (done.current) return;
+    done.current = true;
+    if (onSubmit(name) !== null) {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="py-1 pr-2" style={{ paddingLeft: `${level * 12 + 8}px` }}>
+      <div className="flex items-center gap-2">
+        <div className="w-3.5" />
+        {type === "directory" ? (
+          <Folder className="h-4 w-4 shrink-0 text-blue-500" />
+        ) : (
+          <FileCode className="h-4 w-4 shrink-0 text-gray-400" />
+        )}
+        <input
+          ref={inputRef}
+          aria-label={label}
+          aria-invalid={error !== null}
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={handleBlur}
+          className="min-w-0 flex-1 rounded border border-blue-400 bg-white px-1 text-sm text-gray-700 outline-none aria-invalid:border-red-500"
+        />
+      </div>
+      {error && <p className="mt-1 pl-11 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+function FileTreeNode({
+  node,
+  level,
+  missingImports,
+  actions,
+}: FileTreeNodeProps) {
   const { selectedFile, setSelectedFile } = useFileSystem();
   const [isExpanded, setIsExpanded] = useState(true);
+  const missing = missingImports.get(node.path);
+  const { draft } = actions;
+
+  const isRenaming = draft?.kind === "rename" && draft.path === node.path;
+  const isCreatingInside =
+    draft?.kind === "create" && draft.parent === node.path;
+  const showChildren =
+    node.type === "directory" && (isExpanded || isCreatingInside);
+  // Nodes dropped on a file are moved next to it
+  const dropDirectory =
+    node.type === "directory" ? node.path : getParentPath(node.path);
 
   const handleClick = () => {
     if (node.type === "directory") {
@@ -30,6 +204,26 @@ function FileTreeNode({ node, level }: FileTreeNodeProps) {
     }
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      handleClick();
+    } else if (e.key === "F2") {
+      e.preventDefault();
+      actions.startRename(node.path);
+    } else if (
+      e.key === "Delete" ||
+      (e.key === "Backspace" && (e.metaKey || e.ctrlKey))
+    ) {
+      e.preventDefault();
+      actions.requestDelete(node);
+    } else if (e.key === "ContextMenu" || (e.key === "F10" && e.shiftKey)) {
+      e.preventDefault();
+      const rect = e.currentTarget.getBoundingClientRect();
+      actions.openMenu({ x: rect.left + 24, y: rect.bottom, node });
+    }
+  };
+
   const children =
     node.type === "directory" && node.children
       ? Array.from(node.children.values()).sort((a, b) => {
@@ -43,39 +237,96 @@ function FileTreeNode({ node, level }: FileTreeNodeProps) {
 
   return (
     <div>
-      <div
-        className={cn(
-          "flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 cursor-pointer text-sm transition-colors",
-          selectedFile === node.path && "bg-blue-50 text-blue-600"
-        )}
-        style={{ paddingLeft: `${level * 12 + 8}px` }}
-        onClick={handleClick}
-      >
-        {node.type === "directory" ? (
-          <>
-            {isExpanded ? (
-              <ChevronDown className="h-3.5 w-3.5 shrink-0 text-gray-500" />
-            ) : (
-              <ChevronRight className="h-3.5 w-3.5 shrink-0 text-gray-500" />
-            )}
-            {isExpanded ? (
-              <FolderOpen className="h-4 w-4 shrink-0 text-blue-500" />
-            ) : (
-              <Folder className="h-4 w-4 shrink-0 text-blue-500" />
-            )}
-          </>
-        ) : (
-          <>
-            <div className="w-3.5" />
-            <FileCode className="h-4 w-4 shrink-0 text-gray-400" />
-          </>
-        )}
-        <span className="truncate text-gray-700">{node.name}</span>
-      </div>
-      {node.type === "directory" && isExpanded && children.length > 0 && (
+      {isRenaming ? (
+        <NameInput
+          level={level}
+          type={node.type}
+          label={`Rename ${node.name}`}
+          initialName={node.name}
+          onSubmit={actions.submitDraft}
+          onCancel={actions.cancelDraft}
+        />
+      ) : (
+        <div
+          role="treeitem"
+          tabIndex={0}
+          aria-selected={selectedFile === node.path}
+          aria-expanded={node.type === "directory" ? showChildren : undefined}
+          draggable
+          className={cn(
+            "flex items-center gap-2 px-2 py-1.5 hover:bg-gray-100 cursor-pointer text-sm transition-colors outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-blue-400",
+            selectedFile === node.path && "bg-blue-50 text-blue-600",
+            node.type === "directory" &&
+              actions.dropTarget === node.path &&
+              "bg-blue-100"
+          )}
+          style={{ paddingLeft: `${level * 12 + 8}px` }}
+          onClick={handleClick}
+          onKeyDown={handleKeyDown}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            actions.openMenu({ x: e.clientX, y: e.clientY, node });
+          }}
+          onDragStart={(e) => {
+            e.stopPropagation();
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", node.path);
+            actions.startDrag(node.path);
+          }}
+          onDragEnd={actions.endDrag}
+          onDragOver={(e) => actions.dragOver(e, dropDirectory)}
+          onDrop={(e) => actions.drop(e, dropDirectory)}
+        >
+          {node.type === "directory" ? (
+            <>
+              {showChildren ? (
+                <ChevronDown className="h-3.5 w-3.5 shrink-0 text-gray-500" />
+              ) : (
+                <ChevronRight className="h-3.5 w-3.5 shrink-0 text-gray-500" />
+              )}
+              {showChildren ? (
+                <FolderOpen className="h-4 w-4 shrink-0 text-blue-500" />
+              ) : (
+                <Folder className="h-4 w-4 shrink-0 text-blue-500" />
+              )}
+            </>
+          ) : (
+            <>
+              <div className="w-3.5" />
+              <FileCode className="h-4 w-4 shrink-0 text-gray-400" />
+            </>
+          )}
+          <span className="truncate text-gray-700">{node.name}</span>
+          {missing && (
+            <span
+              className="ml-auto shrink-0"
+              title={`Missing import${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`}
+            >
+              <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+            </span>
+          )}
+        </div>
+      )}
+      {showChildren && (children.length > 0 || isCreatingInside) && (
         <div>
+          {isCreatingInside && draft?.kind === "create" && (
+            <NameInput
+              level={level + 1}
+              type={draft.type}
+              label={draft.type === "file" ? "New file name" : "New folder name"}
+              onSubmit={actions.submitDraft}
+              onCancel={actions.cancelDraft}
+            />
+          )}
           {children.map((child) => (
-            <FileTreeNode key={child.path} node={child} level={level + 1} />
+            <FileTreeNode
+              key={child.path}
+              node={child}
+              level={level + 1}
+              missingImports={missingImports}
+              actions={actions}
+            />
           ))}
         </div>
       )}
@@ -83,34 +334,354 @@ function FileTreeNode({ node, level }: FileTreeNodeProps) {
   );
 }
 
+interface ContextMenuItem {
+  label: string;
+  onSelect: () => void;
+}
+
+function ContextMenu({
+  x,
+  y,
+  items,
+  onClose,
+}: {
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}) {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    menuRef.current?.querySelector("button")?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener("mousedown", handlePointerDown);
+    return () => document.removeEventListener("mousedown", handlePointerDown);
+  }, [onClose]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const buttons = Array.from(
+      menuRef.current?.querySelectorAll("button") ?? []
+    );
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+
+    if (e.key === "Escape" || e.key === "Tab") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      buttons[(index + 1) % buttons.length]?.focus();
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      buttons[(index - 1 + buttons.length) % buttons.length]?.focus();
+    }
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="fixed z-50 min-w-[140px] rounded-md border border-neutral-200 bg-white py-1 shadow-md"
+      style={{ left: x, top: y }}
+      onKeyDown={handleKeyDown}
+    >
+      {items.map((item) => (
+        <button
+          key={item.label}
+          role="menuitem"
+          className="block w-full px-3 py-1.5 text-left text-sm text-neutral-700 outline-none hover:bg-neutral-100 focus:bg-neutral-100"
+          onClick={() => {
+            onClose();
+            item.onSelect();
+          }}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export function FileTree() {
-  const { fileSystem, refreshTrigger } = useFileSystem();
+  const {
+    fileSystem,
+    setSelectedFile,
+    createFile,
+    createDirectory,
+    renameFile,
+    deleteFile,
+  } = useFileSystem();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [menu, setMenu] = useState<ContextMenuState | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<FileNode | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const dragSource = useRef<string | null>(null);
   const rootNode = fileSystem.getNode("/");
 
-  if (!rootNode || !rootNode.children || rootNode.children.size === 0) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full p-4 text-center">
-        <Folder className="h-12 w-12 text-gray-300 mb-3" />
-        <p className="text-sm text-gray-500">No files yet</p>
-        <p className="text-xs text-gray-400 mt-1">Files will appear here</p>
-      </div>
-    );
-  }
+  const startCreate = (parent: string, type: "file" | "directory") => {
+    setMenu(null);
+    setDraft({ kind: "create", type, parent });
+  };
+
+  const submitDraft = (rawName: string): string | null => {
+    if (!draft) return null;
+    const name = rawName.trim();
+
+    if (draft.kind === "rename" && name === getName(draft.path)) {
+      setDraft(null);
+      return null;
+    }
+
+    const error = validateName(name);
+    if (error) return error;
+
+    const parent =
+      draft.kind === "create" ? draft.parent : getParentPath(draft.path);
+    const path = joinPath(parent, name);
+    if (fileSystem.getNode(path)) {
+      return `${name} already exists`;
+    }
+
+    if (draft.kind === "rename") {
+      if (!renameFile(draft.path, path)) {
+        return `Could not rename to ${name}`;
+      }
+    } else if (draft.type === "file") {
+      createFile(path);
+      setSelectedFile(path);
+    } else {
+      createDirectory(path);
+    }
+
+    setDraft(null);
+    return null;
+  };
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteFile(pendingDelete.path);
+    setPendingDelete(null);
+  };
 
-  const rootChildren = Array.from(rootNode.children.values()).sort((a, b) => {
-    if (a.type !== b.type) {
-      return a.type === "directory" ? -1 : 1;
+  // Whether the dragged node can be moved into a directory: not into itself,
+  // its own subtree or its current parent, and not over an existing node
+  const canMove = (source: string, directory: string) =>
+    directory !== source &&
+    !directory.startsWith(source + "/") &&
+    directory !== getParentPath(source) &&
+    !fileSystem.getNode(joinPath(directory, getName(source)));
+
+  const dragOver = (event: React.DragEvent, directory: string) => {
+    // Keep the root area from also handling a drag over a nested node
+    event.stopPropagation();
+    const source = dragSource.current;
+    if (!source || !canMove(source, directory)) {
+      setDropTarget(null);
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDropTarget(directory);
+  };
+
+  const drop = (event: React.DragEvent, directory: string) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const source = dragSource.current;
+    dragSource.current = null;
+    setDropTarget(null);
+
+    if (source && canMove(source, directory)) {
+      renameFile(source, joinPath(directory, getName(source)));
+    }
+  };
+
+  const actions: FileTreeActions = {
+    draft,
+    dropTarget,
+    startRename: (path) => {
+      setMenu(null);
+      setDraft({ kind: "rename", path });
+    },
+    submitDraft,
+    cancelDraft: () => setDraft(null),
+    requestDelete: (node) => {
+      setMenu(null);
+      setPendingDelete(node);
+    },
+    openMenu: setMenu,
+    startDrag: (path) => {
+      dragSource.current = path;
+    },
+    endDrag: () => {
+      dragSource.current = null;
+      setDropTarget(null);
+    },
+    dragOver,
+    drop,
+  };
+
+  const menuItems = (node: FileNode | null): ContextMenuItem[] => {
+    // New nodes go inside a directory, or next to a file
+    const directory = !node
+      ? "/"
+      : node.type === "directory"
+        ? node.path
+        : getParentPath(node.path);
+    const items: ContextMenuItem[] = [
+      { label: "New file", onSelect: () => startCreate(directory, "file") },
+      {
+        label: "New folder",
+        onSelect: () => startCreate(directory, "directory"),
+      },
+    ];
+    if (node) {
+      items.push(
+        { label: "Rename", onSelect: () => actions.startRename(node.path) },
+        { label: "Delete", onSelect: () => actions.requestDelete(node) }
+      );
+    }
+    return items;
+  };
+
+  const isCreatingAtRoot = draft?.kind === "create" && draft.parent === "/";
+  const isEmpty = !rootNode || !rootNode.children || rootNode.children.size === 0;
+
+  const missingImports = new Map<string, string[]>();
+  const rootChildren: FileNode[] = [];
+  if (rootNode?.children) {
+    for (const { path, importPath } of findMissingImports(
+      collectFiles(rootNode, new Map())
+    )) {
+      missingImports.set(path, [
+        ...(missingImports.get(path) || []),
+        importPath,
+      ]);
     }
-    return a.name.localeCompare(b.name);
-  });
+
+    rootChildren.push(
+      ...Array.from(rootNode.children.values()).sort((a, b) => {
+        if (a.type !== b.type) {
+          return a.type === "directory" ? -1 : 1;
+        }
+        return a.name.localeCompare(b.name);
+      })
+    );
+  }
 
   return (
-    <ScrollArea className="h-full">
-      <div className="py-2" key={refreshTrigger}>
-        {rootChildren.map((child) => (
-          <FileTreeNode key={child.path} node={child} level={0} />
-        ))}
+    <div className="flex h-full flex-col">
+      <div className="flex shrink-0 items-center justify-between border-b border-neutral-200 py-1 pl-3 pr-1">
+        <span className="text-xs font-medium text-neutral-700">Files</span>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="New file"
+            onClick={() => startCreate("/", "file")}
+          >
+            <FilePlus className="h-3.5 w-3.5 text-neutral-500" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="New folder"
+            onClick={() => startCreate("/", "directory")}
+          >
+            <FolderPlus className="h-3.5 w-3.5 text-neutral-500" />
+          </Button>
+        </div>
       </div>
-    </ScrollArea>
+
+      {isEmpty && !isCreatingAtRoot ? (
+        <div
+          className="flex flex-1 flex-col items-center justify-center p-4 text-center"
+          onContextMenu={(e) => {
+            e.preventDefault();
+            setMenu({ x: e.clientX, y: e.clientY, node: null });
+          }}
+        >
+          <Folder className="h-12 w-12 text-gray-300 mb-3" />
+          <p className="text-sm text-gray-500">No files yet</p>
+          <p className="text-xs text-gray-400 mt-1">Files will appear here</p>
+        </div>
+      ) : (
+        <ScrollArea className="flex-1 min-h-0">
+          <div
+            role="tree"
+            className={cn("py-2", dropTarget === "/" && "bg-blue-50")}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              setMenu({ x: e.clientX, y: e.clientY, node: null });
+            }}
+            onDragOver={(e) => dragOver(e, "/")}
+            onDrop={(e) => drop(e, "/")}
+          >
+            {isCreatingAtRoot && (
+              <NameInput
+                level={0}
+                type={draft.type}
+                label={
+                  draft.type === "file" ? "New file name" : "New folder name"
+                }
+                onSubmit={submitDraft}
+                onCancel={actions.cancelDraft}
+              />
+            )}
+            {rootChildren.map((child) => (
+              <FileTreeNode
+                key={child.path}
+                node={child}
+                level={0}
+                missingImports={missingImports}
+                actions={actions}
+              />
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      {menu && (
+        <ContextMenu
+          x={menu.x}
+          y={menu.y}
+          items={menuItems(menu.node)}
+          onClose={() => setMenu(null)}
+        />
+      )}
+
+      <Dialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Delete {pendingDelete?.name}?</DialogTitle>
+            <DialogDescription>
+              {pendingDelete?.type === "directory"
+                ? "The folder and everything in it will be removed."
+                : "The file will be removed."}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
   );
 }
@@ -0,0 +1,124 @@
+import { test, expect, vi, afterEach, beforeEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { ChangeReview } from "@/components/editor/ChangeReview";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+
+vi.mock("@/lib/contexts/file-system-context");
+vi.mock("@/lib/contexts/chat-context");
+
+vi.mock("@monaco-editor/react", () => ({
+  DiffEditor: ({ original, modified, language }: any) => (
+    <div data-testid="diff-editor" data-language={language}>
+      <pre data-testid="original">{original}</pre>
+      <pre data-testid="modified">{modified}</pre>
+    </div>
+  ),
+}));
+
+vi.mock("@/components/ui/scroll-area", () => ({
+  ScrollArea: ({ children }: any) => <div>{children}</div>,
+}));
+
+const actions = {
+  acceptChange: vi.fn(),
+  rejectChange: vi.fn(),
+  acceptAllChanges: vi.fn(),
+  rejectAllChanges: vi.fn(),
+};
+
+const changes = [
+  { path: "/App.jsx", before: "old app", after: "new app" },
+  { path: "/Button.jsx", before: null, after: "button" },
+];
+
+beforeEach(() => {
+  vi.mocked(useChat).mockReturnValue({ status: "ready" } as any);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+test("shows an empty state without pending changes", () => {
+  vi.mocked(useFileSystem).mockReturnValue({
+    pendingChanges: [],
+    ...actions,
+  } as any);
+
+  render(<ChangeReview />);
+
+  expect(screen.getByText("No changes to review")).toBeDefined();
+  expect(screen.queryByTestId("diff-editor")).toBeNull();
+});
+
+test("lists changed files and diffs the first one", () => {
+  vi.mocked(useFileSystem).mockReturnValue({
+    pendingChanges: changes,
+    ...actions,
+  } as any);
+
+  render(<ChangeReview />);
+
+  expect(screen.getByText("/App.jsx")).toBeDefined();
+  expect(screen.getByText("Modified")).toBeDefined();
+  expect(screen.getByText("Added")).toBeDefined();
+  expect(screen.getByTestId("original").textContent).toBe("old app");
+  expect(screen.getByTestId("modified").textContent).toBe("new app");
+  expect(screen.getByTestId("diff-editor").dataset.language).toBe("javascript");
+});
+
+test("switches the diff when another file is selected", () => {
+  vi.mocked(useFileSystem).mockReturnValue({
+    pendingChanges: changes,
+    ...actions,
+  } as any);
+
+  render(<ChangeReview />);
+  fireEvent.click(screen.getByText("/Button.jsx"));
+
+  expect(screen.getByTestId("original").textContent).toBe("");
+  expect(screen.getByTestId("modified").textContent).toBe("button");
+});
+
+test("accepts and reverts single files", () => {
+  vi.mocked(useFileSystem).mockReturnValue({
+    pendingChanges: changes,
+    ...actions,
+  } as any);
+
+  render(<ChangeReview />);
+  fireEvent.click(screen.getByTitle("Accept /App.jsx"));
+  fireEvent.click(screen.getByTitle("Revert /Button.jsx"));
+
+  expect(actions.acceptChange).toHaveBeenCalledWith("/App.jsx");
+  expect(actions.rejectChange).toHaveBeenCalledWith("/Button.jsx");
+});
+
+test("accepts and reverts all files", () => {
+  vi.mocked(useFileSystem).mockReturnValue({
+    pendingChanges: changes,
+    ...actions,
+  } as any);
+
+  render(<ChangeReview />);
+  fireEvent.click(screen.getByTitle("Accept all"));
+  fireEvent.click(screen.getByTitle("Revert all"));
+
+  expect(actions.acceptAllChanges).toHaveBeenCalled();
+  expect(actions.rejectAllChanges).toHaveBeenCalled();
+});
+
+test("disables review actions while generating", () => {
+  vi.mocked(useChat).mockReturnValue({ status: "streaming" } as any);
+  vi.mocked(useFileSystem).mockReturnValue({
+    pendingChanges: changes,
+    ...actions,
+  } as any);
+
+  render(<ChangeReview />);
+  fireEvent.click(screen.getByTitle("Accept /App.jsx"));
+
+  expect(actions.acceptChange).not.toHaveBeenCalled();
+});
@@ -0,0 +1,171 @@
+import { test, expect, vi, afterEach, beforeEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { useEffect, useRef } from "react";
+import { CodeEditor } from "../CodeEditor";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+
+vi.mock("@/lib/contexts/file-system-context", () => ({
+  useFileSystem: vi.fn(),
+}));
+
+function createModel(path: string, value: string) {
+  return {
+    uri: { scheme: "file", path },
+    value,
+    getValue() {
+      return this.value;
+    },
+    getPositionAt: (offset: number) => ({ lineNumber: 1, column: offset + 1 }),
+    pushStackElement: vi.fn(),
+    pushEditOperations: vi.fn(),
+    dispose: vi.fn(),
+  };
+}
+
+let models: ReturnType<typeof createModel>[] = [];
+const mockEditor = { getModel: () => models[0] ?? null };
+const mockMonaco = {
+  editor: { getModels: () => models },
+  Range: class {
+    constructor(
+      public startLineNumber: number,
+      public startColumn: number,
+      public endLineNumber: number,
+      public endColumn: number
+    ) {}
+  },
+};
+
+function MockEditor({
+  path,
+  onMount,
+}: {
+  path: string;
+  onMount: (editor: unknown, monaco: unknown) => void;
+}) {
+  // Like Monaco, call onMount only once
+  const mounted = useRef(false);
+  useEffect(() => {
+    if (!mounted.current) {
+      mounted.current = true;
+      onMount(mockEditor, mockMonaco);
+    }
+  }, [onMount]);
+  return <div data-testid="monaco" data-path={path} />;
+}
+
+vi.mock("@monaco-editor/react", () => ({
+  default: MockEditor,
+}));
+
+const files: Record<string, string> = {
+  "/App.jsx": "export default function App() {}",
+  "/components/Button.jsx": "export function Button() {}",
+  "/ui/Button.jsx": "export function UiButton() {}",
+};
+
+function mockContext(overrides: Record<string, unknown> = {}) {
+  const context = {
+    selectedFile: "/App.jsx",
+    setSelectedFile: vi.fn(),
+    openFiles: ["/App.jsx", "/components/Button.jsx"],
+    closeFile: vi.fn(),
+    dirtyFiles: new Set<string>(),
+    getFileContent: (path: string) => files[path] ?? null,
+    updateFile: vi.fn(),
+    refreshTrigger: 0,
+    editorLocation: null,
+    clearEditorLocation: vi.fn(),
+    ...overrides,
+  };
+  vi.mocked(useFileSystem).mockReturnValue(context as any);
+  return context;
+}
+
+beforeEach(() => {
+  models = [];
+});
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+test("shows a tab per open file and edits the selected one", () => {
+  mockContext();
+  render(<CodeEditor />);
+
+  const tabs = screen.getAllByRole("tab");
+  expect(tabs.map((tab) => tab.textContent)).toEqual([
+    "App.jsx",
+    "Button.jsx",
+  ]);
+  expect(tabs[0].getAttribute("aria-selected")).toBe("true");
+  expect(screen.getByTestId("monaco").getAttribute("data-path")).toBe(
+    "/App.jsx"
+  );
+});
+
+test("switches and closes tabs", () => {
+  const context = mockContext();
+  render(<CodeEditor />);
+
+  fireEvent.click(screen.getByText("Button.jsx"));
+  expect(context.setSelectedFile).toHaveBeenCalledWith(
+    "/components/Button.jsx"
+  );
+
+  fireEvent.click(screen.getByLabelText("Close Button.jsx"));
+  expect(context.closeFile).toHaveBeenCalledWith("/components/Button.jsx");
+  expect(context.setSelectedFile).toHaveBeenCalledTimes(1);
+});
+
+test("marks files with unsaved changes", () => {
+  mockContext({ dirtyFiles: new Set(["/components/Button.jsx"]) });
+  render(<CodeEditor />);
+
+  const dirty = screen.getByTitle("Unsaved changes");
+  expect(dirty.closest("[role=tab]")?.getAttribute("title")).toBe(
+    "/components/Button.jsx"
+  );
+});
+
+test("shows the folder of tabs that share a name", () => {
+  mockContext({
+    openFiles: ["/components/Button.jsx", "/ui/Button.jsx"],
+    selectedFile: "/ui/Button.jsx",
+  });
+  render(<CodeEditor />);
+
+  expect(screen.getByText("/components")).toBeDefined();
+  expect(screen.getByText("/ui")).toBeDefined();
+});
+
+test("applies outside changes to kept models as minimal edits", () => {
+  const app = createModel("/App.jsx", files["/App.jsx"]);
+  const button = createModel(
+    "/components/Button.jsx",
+    "export function Btn() {}"
+  );
+  models = [app, button];
+  mockContext();
+  render(<CodeEditor />);
+
+  expect(app.pushEditOperations).not.toHaveBeenCalled();
+  expect(button.pushEditOperations).toHaveBeenCalledTimes(1);
+  const [, [operation]] = button.pushEditOperations.mock.calls[0];
+  // "Btn" -> "Button" keeps the shared "B" and "n"
+  expect(operation.text).toBe("utto");
+  expect(operation.range).toMatchObject({ startColumn: 18, endColumn: 19 });
+});
+
+test("disposes the models of files that are no longer open", () => {
+  const app = createModel("/App.jsx", files["/App.jsx"]);
+  const closed = createModel("/ui/Button.jsx", files["/ui/Button.jsx"]);
+  models = [app, closed];
+  mockContext();
+  render(<CodeEditor />);
+
+  expect(closed.dispose).toHaveBeenCalled();
+  expect(app.dispose).not.toHaveBeenCalled();
+});
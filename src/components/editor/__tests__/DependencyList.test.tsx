@@ -0,0 +1,40 @@
+import { test, expect, vi, afterEach } from "vitest";
+import { render, screen, cleanup } from "@testing-library/react";
+import { DependencyList } from "../DependencyList";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+
+vi.mock("@/lib/contexts/file-system-context");
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+function renderWithManifest(content?: string) {
+  const fileSystem = new VirtualFileSystem();
+  if (content !== undefined) {
+    fileSystem.createFile("/package.json", content);
+  }
+  vi.mocked(useFileSystem).mockReturnValue({
+    fileSystem,
+  } as unknown as ReturnType<typeof useFileSystem>);
+  render(<DependencyList />);
+}
+
+test("lists dependencies pinned in /package.json", () => {
+  renderWithManifest(
+    JSON.stringify({ dependencies: { clsx: "2.1.1", "framer-motion": "^11" } })
+  );
+
+  expect(screen.getByText("clsx")).toBeDefined();
+  expect(screen.getByText("2.1.1")).toBeDefined();
+  expect(screen.getByText("framer-motion")).toBeDefined();
+  expect(screen.getByText("^11")).toBeDefined();
+});
+
+test("shows an empty state without a manifest", () => {
+  renderWithManifest();
+
+  expect(screen.getByText("No packages pinned")).toBeDefined();
+});
@@ -10,6 +10,7 @@ import { useFileSystem } from "@/lib/contexts/file-system-context";
 // Mock the file system context
 vi.mock("@/lib/contexts/file-system-context");
 
+
 // Clean up after each test
 afterEach(() => {
   cleanup();
@@ -18,6 +19,9 @@ afterEach(() => {
 
 // Mock lucide-react icons
 vi.mock("lucide-react", () => ({
+  AlertTriangle: ({ className }: { className?: string }) => (
+    <div className={className}>AlertTriangle</div>
+  ),
   ChevronRight: ({ className }: { className?: string }) => (
     <div className={className}>ChevronRight</div>
   ),
@@ -33,6 +37,15 @@ vi.mock("lucide-react", () => ({
   FileCode: ({ className }: { className?: string }) => (
     <div className={className}>FileCode</div>
   ),
+  FilePlus: ({ className }: { className?: string }) => (
+    <div className={className}>FilePlus</div>
+  ),
+  FolderPlus: ({ className }: { className?: string }) => (
+    <div className={className}>FolderPlus</div>
+  ),
+  XIcon: ({ className }: { className?: string }) => (
+    <div className={className}>XIcon</div>
+  ),
 }));
 
 // Helper function to create a mock file system
@@ -335,3 +348,256 @@ test("FileTree re-renders when refreshTrigger changes", () => {
   // The component should still render correctly
   expect(screen.getByText("test.js")).toBeDefined();
 });
+
+test("FileTree keeps folders collapsed when the files change", () => {
+  const childNode: FileNode = {
+    type: "file",
+    name: "child.txt",
+    path: "/parent/child.txt",
+    content: "",
+  };
+  const parentNode: FileNode = {
+    type: "directory",
+    name: "parent",
+    path: "/parent",
+    children: new Map([["child.txt", childNode]]),
+  };
+  const rootChildren = new Map<string, FileNode>([["parent", parentNode]]);
+
+  const mockFileSystem = createMockFileSystem({
+    "/": { type: "directory", name: "", path: "/", children: rootChildren },
+    "/parent": parentNode,
+  });
+
+  const mockUseFileSystem = useFileSystem as ReturnType<typeof vi.fn>;
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: mockFileSystem,
+    refreshTrigger: 1,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+  });
+
+  const { rerender } = render(<FileTree />);
+  fireEvent.click(screen.getByText("parent"));
+  expect(screen.queryByText("child.txt")).toBeNull();
+
+  rootChildren.set("new.js", {
+    type: "file",
+    name: "new.js",
+    path: "/new.js",
+    content: "",
+  });
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: mockFileSystem,
+    refreshTrigger: 2,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+  });
+  rerender(<FileTree />);
+
+  expect(screen.getByText("new.js")).toBeDefined();
+  expect(screen.queryByText("child.txt")).toBeNull();
+});
+
+test("FileTree flags files with missing imports", () => {
+  const rootChildren = new Map<string, FileNode>([
+    [
+      "App.jsx",
+      {
+        type: "file",
+        name: "App.jsx",
+        path: "/App.jsx",
+        content: "import Card from './Card';\nimport Nav from './Nav';",
+      },
+    ],
+    [
+      "Nav.jsx",
+      {
+        type: "file",
+        name: "Nav.jsx",
+        path: "/Nav.jsx",
+        content: "export default function Nav() {}",
+      },
+    ],
+  ]);
+
+  const mockFileSystem = createMockFileSystem({
+    "/": { type: "directory", name: "", path: "/", children: rootChildren },
+  });
+
+  const mockUseFileSystem = useFileSystem as ReturnType<typeof vi.fn>;
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: mockFileSystem,
+    refreshTrigger: 0,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+  });
+
+  render(<FileTree />);
+
+  const badges = screen.getAllByText("AlertTriangle");
+  expect(badges).toHaveLength(1);
+  expect(badges[0].parentElement?.getAttribute("title")).toBe(
+    "Missing import: ./Card"
+  );
+});
+
+function mockEditableTree() {
+  const appNode: FileNode = {
+    type: "file",
+    name: "App.jsx",
+    path: "/App.jsx",
+    content: "",
+  };
+  const buttonNode: FileNode = {
+    type: "file",
+    name: "Button.jsx",
+    path: "/components/Button.jsx",
+    content: "",
+  };
+  const componentsNode: FileNode = {
+    type: "directory",
+    name: "components",
+    path: "/components",
+    children: new Map([["Button.jsx", buttonNode]]),
+  };
+  const nodes: Record<string, FileNode> = {
+    "/": {
+      type: "directory",
+      name: "",
+      path: "/",
+      children: new Map([
+        ["components", componentsNode],
+        ["App.jsx", appNode],
+      ]),
+    },
+    "/App.jsx": appNode,
+    "/components": componentsNode,
+    "/components/Button.jsx": buttonNode,
+  };
+
+  const context = {
+    fileSystem: createMockFileSystem(nodes),
+    refreshTrigger: 0,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+    createFile: vi.fn(),
+    createDirectory: vi.fn(),
+    renameFile: vi.fn(() => true),
+    deleteFile: vi.fn(),
+  };
+  (useFileSystem as ReturnType<typeof vi.fn>).mockReturnValue(context);
+  return context;
+}
+
+test("FileTree creates a file from the toolbar", () => {
+  const context = mockEditableTree();
+
+  render(<FileTree />);
+
+  fireEvent.click(screen.getByTitle("New file"));
+  const input = screen.getByLabelText("New file name");
+  fireEvent.change(input, { target: { value: "Card.jsx" } });
+  fireEvent.keyDown(input, { key: "Enter" });
+
+  expect(context.createFile).toHaveBeenCalledWith("/Card.jsx");
+  expect(context.setSelectedFile).toHaveBeenCalledWith("/Card.jsx");
+  expect(screen.queryByLabelText("New file name")).toBeNull();
+});
+
+test("FileTree creates a folder inside a directory from the context menu", () => {
+  const context = mockEditableTree();
+
+  render(<FileTree />);
+
+  fireEvent.contextMenu(screen.getByText("components"));
+  fireEvent.click(screen.getByRole("menuitem", { name: "New folder" }));
+  const input = screen.getByLabelText("New folder name");
+  fireEvent.change(input, { target: { value: "ui" } });
+  fireEvent.keyDown(input, { key: "Enter" });
+
+  expect(context.createDirectory).toHaveBeenCalledWith("/components/ui");
+});
+
+test("FileTree rejects names that already exist", () => {
+  const context = mockEditableTree();
+
+  render(<FileTree />);
+
+  fireEvent.click(screen.getByTitle("New file"));
+  const input = screen.getByLabelText("New file name");
+  fireEvent.change(input, { target: { value: "App.jsx" } });
+  fireEvent.keyDown(input, { key: "Enter" });
+
+  expect(screen.getByText("App.jsx already exists")).toBeDefined();
+  expect(context.createFile).not.toHaveBeenCalled();
+
+  fireEvent.keyDown(input, { key: "Escape" });
+  expect(screen.queryByLabelText("New file name")).toBeNull();
+});
+
+test("FileTree renames a file with F2", () => {
+  const context = mockEditableTree();
+
+  render(<FileTree />);
+
+  fireEvent.keyDown(screen.getByText("App.jsx").parentElement!, {
+    key: "F2",
+  });
+  const input = screen.getByLabelText("Rename App.jsx") as HTMLInputElement;
+  expect(input.value).toBe("App.jsx");
+
+  fireEvent.change(input, { target: { value: "Main.jsx" } });
+  fireEvent.keyDown(input, { key: "Enter" });
+
+  expect(context.renameFile).toHaveBeenCalledWith("/App.jsx", "/Main.jsx");
+});
+
+test("FileTree deletes a folder only after confirmation", () => {
+  const context = mockEditableTree();
+
+  render(<FileTree />);
+
+  fireEvent.contextMenu(screen.getByText("components"));
+  fireEvent.click(screen.getByRole("menuitem", { name: "Delete" }));
+
+  expect(screen.getByText("Delete components?")).toBeDefined();
+  expect(
+    screen.getByText("The folder and everything in it will be removed.")
+  ).toBeDefined();
+  expect(context.deleteFile).not.toHaveBeenCalled();
+
+  fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+  expect(context.deleteFile).toHaveBeenCalledWith("/components");
+});
+
+test("FileTree moves files by dragging them onto a folder", () => {
+  const context = mockEditableTree();
+
+  render(<FileTree />);
+
+  const app = screen.getByText("App.jsx").parentElement!;
+  const components = screen.getByText("components").parentElement!;
+  fireEvent.dragStart(app, { dataTransfer: { setData: vi.fn() } });
+  fireEvent.dragOver(components, { dataTransfer: {} });
+  fireEvent.drop(components, { dataTransfer: {} });
+
+  expect(context.renameFile).toHaveBeenCalledWith(
+    "/App.jsx",
+    "/components/App.jsx"
+  );
+});
+
+test("FileTree does not move a folder into its own subtree", () => {
+  const context = mockEditableTree();
+
+  render(<FileTree />);
+
+  const components = screen.getByText("components").parentElement!;
+  const button = screen.getByText("Button.jsx").parentElement!;
+  fireEvent.dragStart(components, { dataTransfer: { setData: vi.fn() } });
+  fireEvent.drop(button, { dataTransfer: {} });
+
+  expect(context.renameFile).not.toHaveBeenCalled();
+});
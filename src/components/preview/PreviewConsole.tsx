@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Trash2, Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { PreviewError, PreviewLogEntry } from "@/lib/preview-messages";
+import { cn } from "@/lib/utils";
+
+interface PreviewConsoleProps {
+  logs: PreviewLogEntry[];
+  errors: PreviewError[];
+  onFix: () => void;
+  // Open the file and line an error points at
+  onOpenError?: (error: PreviewError) => void;
+  fixDisabled?: boolean;
+  autoFix: boolean;
+  onAutoFixChange: (enabled: boolean) => void;
+  onClear: () => void;
+}
+
+const levelClassNames: Record<PreviewLogEntry["level"], string> = {
+  log: "text-neutral-700",
+  info: "text-blue-700",
+  warn: "text-amber-700 bg-amber-50",
+  error: "text-red-700 bg-red-50",
+};
+
+function formatErrorLocation({ path, line, column }: PreviewError) {
+  if (!line) return `${path}:`;
+  return `${path}:${line}${column ? `:${column}` : ""}:`;
+}
+
+export function PreviewConsole({
+  logs,
+  errors,
+  onFix,
+  onOpenError,
+  fixDisabled = false,
+  autoFix,
+  onAutoFixChange,
+  onClear,
+}: PreviewConsoleProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="shrink-0 border-t border-neutral-200 bg-white">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <button
+          className="flex items-center gap-1.5 text-xs font-medium text-neutral-700 hover:text-neutral-900"
+          onClick={() => setExpanded(!expanded)}
+          aria-expanded={expanded}
+        >
+          {expanded ? (
+            <ChevronDown className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronUp className="h-3.5 w-3.5" />
+          )}
+          Console
+          {errors.length > 0 && (
+            <span className="rounded-full bg-red-100 px-1.5 text-[10px] text-red-700">
+              {errors.length} error{errors.length > 1 ? "s" : ""}
+            </span>
+          )}
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-neutral-600">
+            <input
+              type="checkbox"
+              checked={autoFix}
+              onChange={(e) => onAutoFixChange(e.target.checked)}
+            />
+            Auto-fix
+          </label>
+          {errors.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 gap-1 px-2 text-xs"
+              disabled={fixDisabled}
+              onClick={onFix}
+            >
+              <Wrench className="h-3 w-3" />
+              Fix this error
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Clear console"
+            onClick={onClear}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      {expanded && (
+        <ScrollArea className="h-40 border-t border-neutral-100">
+          <ul className="py-1 font-mono text-xs">
+            {errors.map((error, index) => (
+              <li
+                key={`error-${index}`}
+                className="px-3 py-1 whitespace-pre-wrap text-red-700 bg-red-50"
+              >
+                {error.path && onOpenError ? (
+                  <button
+                    className="mr-1 underline decoration-dotted hover:text-red-900"
+                    title="Open in editor"
+                    onClick={() => onOpenError(error)}
+                  >
+                    {formatErrorLocation(error)}
+                  </button>
+                ) : error.path ? (
+                  `${formatErrorLocation(error)} `
+                ) : null}
+                {error.message}
+              </li>
+            ))}
+            {logs.map((entry, index) => (
+              <li
+                key={`log-${index}`}
+                className={cn(
+                  "px-3 py-1 whitespace-pre-wrap",
+                  levelClassNames[entry.level]
+                )}
+              >
+                {entry.message}
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
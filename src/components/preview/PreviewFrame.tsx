@@ -1,22 +1,89 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
 import {
   createImportMap,
   createPreviewHTML,
 } from "@/lib/transform/jsx-transformer";
-import { AlertCircle } from "lucide-react";
+import {
+  PREVIEW_MESSAGE_SOURCE,
+  PreviewCommand,
+  PreviewError,
+  PreviewLogEntry,
+  formatErrorsForChat,
+  isPreviewMessage,
+} from "@/lib/preview-messages";
+import { MissingImport } from "@/lib/transform/import-resolver";
+import { PreviewModule, mapStackTrace } from "@/lib/transform/source-map";
+import { parseSourceLocation } from "@/lib/transform/source-location-plugin";
+import { AlertCircle, AlertTriangle, Crosshair } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_VIEWPORT,
+  ViewportSettings,
+  getViewportSize,
+  loadViewportSettings,
+  saveViewportSettings,
+} from "@/lib/viewport";
+import { cn } from "@/lib/utils";
+import { PreviewConsole } from "./PreviewConsole";
+import { ViewportControls } from "./ViewportControls";
 
-export function PreviewFrame() {
+const MAX_LOG_ENTRIES = 200;
+const AUTO_FIX_STORAGE_KEY = "uigen_auto_fix";
+// Give the preview a moment to settle before asking the AI for a fix
+const AUTO_FIX_DELAY_MS = 1000;
+// Stop auto-fixing after this many consecutive attempts that didn't help
+const MAX_AUTO_FIX_ATTEMPTS = 3;
+// How long a freshly rendered preview must stay error-free to count as fixed
+const AUTO_FIX_SETTLE_MS = 2000;
+// Coalesce bursts of file changes (typing, streamed tool calls) into one rebuild
+const REBUILD_DEBOUNCE_MS = 300;
+// Width of the frame drawn around mobile and tablet viewports
+const DEVICE_BEZEL_PX = 12;
+
+interface PreviewFrameProps {
+  // Viewport settings are remembered per project
+  projectId?: string;
+  // Called after an error location was opened so the code view can be shown
+  onOpenInEditor?: () => void;
+}
+
+export function PreviewFrame({
+  projectId,
+  onOpenInEditor,
+}: PreviewFrameProps = {}) {
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const { getAllFiles, refreshTrigger } = useFileSystem();
+  const { getAllFiles, refreshTrigger, openFileAt } = useFileSystem();
+  const { sendMessage, status, setInspectedElement } = useChat();
   const [error, setError] = useState<string | null>(null);
   const [entryPoint, setEntryPoint] = useState<string>("/App.jsx");
   const [isFirstLoad, setIsFirstLoad] = useState(true);
+  const [logs, setLogs] = useState<PreviewLogEntry[]>([]);
+  const [runtimeErrors, setRuntimeErrors] = useState<PreviewError[]>([]);
+  const [syntaxErrors, setSyntaxErrors] = useState<PreviewError[]>([]);
+  const [missingImports, setMissingImports] = useState<MissingImport[]>([]);
+  const [autoFix, setAutoFix] = useState(false);
+  const [inspecting, setInspecting] = useState(false);
+  const [viewport, setViewport] = useState<ViewportSettings>(DEFAULT_VIEWPORT);
+  const autoFixAttempts = useRef(0);
+  const settleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const builtRefreshTrigger = useRef<number | null>(null);
+  // Modules of the current build, used to map stack traces to project files
+  const previewModules = useRef<Record<string, PreviewModule>>({});
+
+  const isGenerating = status === "submitted" || status === "streaming";
+
+  const allErrors = useMemo(
+    () => [...syntaxErrors, ...runtimeErrors],
+    [syntaxErrors, runtimeErrors]
+  );
 
   useEffect(() => {
     const updatePreview = () => {
+      builtRefreshTrigger.current = refreshTrigger;
       try {
         const files = getAllFiles();
 
@@ -74,9 +141,25 @@ export function PreviewFrame() {
           return;
         }
 
-        const { importMap, styles, errors } = createImportMap(files);
+        const { importMap, styles, errors, missingImports, modules } =
+          createImportMap(files);
         const previewHTML = createPreviewHTML(foundEntryPoint, importMap, styles, errors);
 
+        // Output from the previous build no longer applies
+        setLogs([]);
+        setRuntimeErrors([]);
+        previewModules.current = modules;
+        setSyntaxErrors(
+          errors.map(({ path, error, line, column }) => ({
+            kind: "syntax",
+            path,
+            line,
+            column,
+            message: error,
+          }))
+        );
+        setMissingImports(missingImports);
+
         if (iframeRef.current) {
           const iframe = iframeRef.current;
 
@@ -95,9 +178,160 @@ export function PreviewFrame() {
       }
     };
 
-    updatePreview();
+    // File changes are debounced; the first build and follow-up renders
+    // caused by the build itself run right away
+    const isFileChange =
+      builtRefreshTrigger.current !== null &&
+      builtRefreshTrigger.current !== refreshTrigger;
+    if (!isFileChange) {
+      updatePreview();
+      return;
+    }
+
+    const timer = setTimeout(updatePreview, REBUILD_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
   }, [refreshTrigger, getAllFiles, entryPoint, error, isFirstLoad]);
 
+  const openInEditor = (path: string, line?: number, column?: number) => {
+    openFileAt(path, line ?? 1, column ?? 1);
+    onOpenInEditor?.();
+  };
+  // The message listener is registered once, so it reads the latest handler
+  // through a ref
+  const openInEditorRef = useRef(openInEditor);
+  openInEditorRef.current = openInEditor;
+
+  // Collect console output, uncaught errors and clicks on syntax errors
+  // posted by the preview bridge
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (
+        event.source !== iframeRef.current?.contentWindow ||
+        !isPreviewMessage(event.data)
+      ) {
+        return;
+      }
+
+      const message = event.data;
+      switch (message.type) {
+        case "console":
+          setLogs((prev) =>
+            [...prev, { level: message.level, message: message.message }].slice(
+              -MAX_LOG_ENTRIES
+            )
+          );
+          break;
+        case "error": {
+          if (settleTimer.current) {
+            clearTimeout(settleTimer.current);
+            settleTimer.current = null;
+          }
+          const { stack, location } = message.stack
+            ? mapStackTrace(message.stack, previewModules.current)
+            : { stack: undefined, location: undefined };
+          setRuntimeErrors((prev) =>
+            prev.some((e) => e.message === message.message)
+              ? prev
+              : [
+                  ...prev,
+                  {
+                    kind: "runtime",
+                    message: message.message,
+                    stack,
+                    ...location,
+                  },
+                ]
+          );
+          break;
+        }
+        case "open-file":
+          if (typeof message.path === "string") {
+            openInEditorRef.current(message.path, message.line, message.column);
+          }
+          break;
+        case "element-selected": {
+          const location = parseSourceLocation(message.element.source);
+          setInspectedElement({
+            tagName: message.element.tagName,
+            className: message.element.className,
+            text: message.element.text,
+            ...(location && { path: location.path, line: location.line }),
+          });
+          setInspecting(false);
+          break;
+        }
+        case "ready":
+          if (settleTimer.current) clearTimeout(settleTimer.current);
+          settleTimer.current = setTimeout(() => {
+            autoFixAttempts.current = 0;
+            settleTimer.current = null;
+          }, AUTO_FIX_SETTLE_MS);
+          break;
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => {
+      window.removeEventListener("message", handleMessage);
+      if (settleTimer.current) clearTimeout(settleTimer.current);
+    };
+  }, [setInspectedElement]);
+
+  // Tell the preview whether the element inspector is on. Also sent on every
+  // load, since a rebuild replaces the preview document.
+  const postInspectState = useCallback(() => {
+    const command: PreviewCommand = {
+      source: PREVIEW_MESSAGE_SOURCE,
+      type: "inspect",
+      enabled: inspecting,
+    };
+    iframeRef.current?.contentWindow?.postMessage(command, "*");
+  }, [inspecting]);
+
+  useEffect(() => {
+    postInspectState();
+  }, [postInspectState]);
+
+  useEffect(() => {
+    setAutoFix(localStorage.getItem(AUTO_FIX_STORAGE_KEY) === "true");
+  }, []);
+
+  useEffect(() => {
+    setViewport(loadViewportSettings(projectId));
+  }, [projectId]);
+
+  const handleViewportChange = (settings: ViewportSettings) => {
+    setViewport(settings);
+    saveViewportSettings(projectId, settings);
+  };
+
+  const handleAutoFixChange = (enabled: boolean) => {
+    autoFixAttempts.current = 0;
+    setAutoFix(enabled);
+    localStorage.setItem(AUTO_FIX_STORAGE_KEY, String(enabled));
+  };
+
+  const handleFix = () => {
+    if (allErrors.length > 0) {
+      sendMessage(formatErrorsForChat(allErrors));
+    }
+  };
+
+  const handleOpenError = ({ path, line, column }: PreviewError) => {
+    if (path) openInEditor(path, line, column);
+  };
+
+  useEffect(() => {
+    if (!autoFix || isGenerating || allErrors.length === 0) return;
+    if (autoFixAttempts.current >= MAX_AUTO_FIX_ATTEMPTS) return;
+
+    const timer = setTimeout(() => {
+      autoFixAttempts.current += 1;
+      sendMessage(formatErrorsForChat(allErrors));
+    }, AUTO_FIX_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autoFix, isGenerating, allErrors, sendMessage]);
+
   if (error) {
     if (error === "firstLoad") {
       return (
@@ -150,11 +384,126 @@ export function PreviewFrame() {
     );
   }
 
+  const showConsole = logs.length > 0 || allErrors.length > 0;
+  const viewportSize = getViewportSize(viewport);
+  // Phones and tablets get a device bezel, other fixed sizes a plain border
+  const isDevice = viewport.preset === "mobile" || viewport.preset === "tablet";
+  const bezel = isDevice ? DEVICE_BEZEL_PX : viewportSize ? 1 : 0;
+
   return (
-    <iframe
-      ref={iframeRef}
-      className="w-full h-full border-0 bg-white"
-      title="Preview"
-    />
+    <div className="h-full flex flex-col">
+      <div className="shrink-0 flex items-center gap-1 h-9 px-2 border-b border-neutral-200 bg-neutral-50 overflow-x-auto">
+        <Button
+          variant={inspecting ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 gap-1.5 px-2 text-xs"
+          aria-pressed={inspecting}
+          title="Pick an element to ask the AI about"
+          onClick={() => setInspecting(!inspecting)}
+        >
+          <Crosshair className="h-3.5 w-3.5" />
+          Inspect
+        </Button>
+        <div className="mx-1 h-4 w-px bg-neutral-200" />
+        <ViewportControls settings={viewport} onChange={handleViewportChange} />
+        {viewportSize && (
+          <span className="ml-auto text-xs text-neutral-500 tabular-nums">
+            {viewportSize.width} × {viewportSize.height}
+          </span>
+        )}
+      </div>
+      {missingImports.length > 0 && (
+        <MissingImportsBanner missingImports={missingImports} />
+      )}
+      {/* The iframe keeps its place in the tree across viewport changes so
+          the preview document isn't reloaded */}
+      <div
+        className={cn(
+          "flex-1 min-h-0",
+          viewportSize && "overflow-auto bg-neutral-100 p-4"
+        )}
+      >
+        <div
+          className={cn(!viewportSize && "h-full", viewportSize && "mx-auto")}
+          style={
+            viewportSize
+              ? {
+                  width: (viewportSize.width + 2 * bezel) * viewport.zoom,
+                  height: (viewportSize.height + 2 * bezel) * viewport.zoom,
+                }
+              : undefined
+          }
+        >
+          <div
+            data-testid="preview-viewport"
+            className={cn(
+              !viewportSize && "h-full",
+              viewportSize &&
+                "box-content origin-top-left overflow-hidden bg-white shadow-md",
+              isDevice
+                ? "rounded-[28px] border-neutral-800"
+                : viewportSize && "border-neutral-300"
+            )}
+            style={
+              viewportSize
+                ? {
+                    width: viewportSize.width,
+                    height: viewportSize.height,
+                    borderWidth: bezel,
+                    transform: `scale(${viewport.zoom})`,
+                  }
+                : undefined
+            }
+          >
+            <iframe
+              ref={iframeRef}
+              className="w-full h-full border-0 bg-white"
+              title="Preview"
+              onLoad={postInspectState}
+            />
+          </div>
+        </div>
+      </div>
+      {showConsole && (
+        <PreviewConsole
+          logs={logs}
+          errors={allErrors}
+          onFix={handleFix}
+          onOpenError={handleOpenError}
+          fixDisabled={isGenerating}
+          autoFix={autoFix}
+          onAutoFixChange={handleAutoFixChange}
+          onClear={() => {
+            setLogs([]);
+            setRuntimeErrors([]);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function MissingImportsBanner({
+  missingImports,
+}: {
+  missingImports: MissingImport[];
+}) {
+  return (
+    <div className="shrink-0 flex gap-2 px-3 py-2 border-b border-amber-200 bg-amber-50 text-xs text-amber-800">
+      <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+      <div>
+        <p className="font-medium">
+          {missingImports.length} missing import
+          {missingImports.length > 1 ? "s" : ""} rendered as placeholders
+        </p>
+        <ul className="mt-1 space-y-0.5 font-mono">
+          {missingImports.map(({ path, importPath }) => (
+            <li key={`${path}:${importPath}`}>
+              {importPath} in {path}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
   );
 }
@@ -0,0 +1,105 @@
+"use client";
+
+import {
+  Maximize2,
+  Monitor,
+  Ruler,
+  RotateCw,
+  Smartphone,
+  Tablet,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DEVICE_PRESETS,
+  ViewportPreset,
+  ViewportSettings,
+  ZOOM_LEVELS,
+  clampViewportSize,
+} from "@/lib/viewport";
+
+interface ViewportControlsProps {
+  settings: ViewportSettings;
+  onChange: (settings: ViewportSettings) => void;
+}
+
+const presetButtons: Array<{
+  preset: ViewportPreset;
+  label: string;
+  icon: typeof Monitor;
+}> = [
+  { preset: "responsive", label: "Responsive", icon: Maximize2 },
+  { preset: "mobile", label: DEVICE_PRESETS.mobile.label, icon: Smartphone },
+  { preset: "tablet", label: DEVICE_PRESETS.tablet.label, icon: Tablet },
+  { preset: "desktop", label: DEVICE_PRESETS.desktop.label, icon: Monitor },
+  { preset: "custom", label: "Custom size", icon: Ruler },
+];
+
+export function ViewportControls({ settings, onChange }: ViewportControlsProps) {
+  const update = (changes: Partial<ViewportSettings>) =>
+    onChange({ ...settings, ...changes });
+
+  const sizeInput = (dimension: "width" | "height") => (
+    <input
+      type="number"
+      aria-label={dimension === "width" ? "Viewport width" : "Viewport height"}
+      className="h-7 w-16 rounded border border-neutral-200 bg-white px-1.5 text-xs"
+      value={settings[dimension]}
+      onChange={(e) => {
+        const value = Number(e.target.value);
+        if (value > 0) update({ [dimension]: value });
+      }}
+      onBlur={() =>
+        update({ [dimension]: clampViewportSize(settings[dimension]) })
+      }
+    />
+  );
+
+  return (
+    <div className="flex items-center gap-1">
+      {presetButtons.map(({ preset, label, icon: Icon }) => (
+        <Button
+          key={preset}
+          variant={settings.preset === preset ? "secondary" : "ghost"}
+          size="icon"
+          className="h-7 w-7"
+          title={label}
+          aria-pressed={settings.preset === preset}
+          onClick={() => update({ preset })}
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </Button>
+      ))}
+      {settings.preset === "custom" && (
+        <div className="flex items-center gap-1 text-xs text-neutral-500">
+          {sizeInput("width")}
+          <span>×</span>
+          {sizeInput("height")}
+        </div>
+      )}
+      <Button
+        variant={settings.rotated ? "secondary" : "ghost"}
+        size="icon"
+        className="h-7 w-7"
+        title="Rotate"
+        aria-pressed={settings.rotated}
+        disabled={settings.preset === "responsive"}
+        onClick={() => update({ rotated: !settings.rotated })}
+      >
+        <RotateCw className="h-3.5 w-3.5" />
+      </Button>
+      <select
+        aria-label="Zoom"
+        className="h-7 rounded border border-neutral-200 bg-white px-1 text-xs"
+        value={settings.zoom}
+        disabled={settings.preset === "responsive"}
+        onChange={(e) => update({ zoom: Number(e.target.value) })}
+      >
+        {ZOOM_LEVELS.map((zoom) => (
+          <option key={zoom} value={zoom}>
+            {Math.round(zoom * 100)}%
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,15 +1,29 @@
 import { test, expect, describe, beforeEach, vi, afterEach } from "vitest";
-import { render, screen, waitFor } from "@testing-library/react";
+import { render, screen, waitFor, act, fireEvent, cleanup } from "@testing-library/react";
 import { PreviewFrame } from "../PreviewFrame";
 
 // Mock the file system context
 const mockGetAllFiles = vi.fn();
-const mockRefreshTrigger = 0;
+const mockOpenFileAt = vi.fn();
+let mockRefreshTrigger = 0;
 
 vi.mock("@/lib/contexts/file-system-context", () => ({
   useFileSystem: () => ({
     getAllFiles: mockGetAllFiles,
     refreshTrigger: mockRefreshTrigger,
+    openFileAt: mockOpenFileAt,
+  }),
+}));
+
+const mockSendMessage = vi.fn();
+const mockSetInspectedElement = vi.fn();
+let mockStatus = "ready";
+
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: () => ({
+    sendMessage: mockSendMessage,
+    status: mockStatus,
+    setInspectedElement: mockSetInspectedElement,
   }),
 }));
 
@@ -26,17 +40,23 @@ const { createImportMap: mockCreateImportMap, createPreviewHTML: mockCreatePrevi
 describe("PreviewFrame", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockStatus = "ready";
+    mockRefreshTrigger = 0;
+    localStorage.clear();
     
     // Default mocks
     mockCreateImportMap.mockReturnValue({
       importMap: {},
       styles: "",
       errors: [],
+      missingImports: [],
+      modules: {},
     });
     mockCreatePreviewHTML.mockReturnValue("<html><body>Preview</body></html>");
   });
 
   afterEach(() => {
+    cleanup();
     vi.restoreAllMocks();
   });
 
@@ -365,6 +385,8 @@ describe("PreviewFrame", () => {
         importMap: mockImportMap,
         styles: mockStyles,
         errors: mockErrors,
+        missingImports: [],
+        modules: {},
       });
 
       render(<PreviewFrame />);
@@ -493,4 +515,376 @@ describe("PreviewFrame", () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe("preview console", () => {
+    const files = new Map([
+      ["/App.jsx", "export default function App() { return <div>Hello</div>; }"],
+    ]);
+
+    function postFromPreview(data: unknown) {
+      const iframe = screen.getByTitle("Preview") as HTMLIFrameElement;
+      act(() => {
+        window.dispatchEvent(
+          new MessageEvent("message", {
+            data: { source: "uigen-preview", ...(data as object) },
+            source: iframe.contentWindow,
+          })
+        );
+      });
+    }
+
+    test("is hidden while the preview has no output", () => {
+      mockGetAllFiles.mockReturnValue(files);
+
+      render(<PreviewFrame />);
+
+      expect(screen.queryByText("Console")).not.toBeInTheDocument();
+    });
+
+    test("shows console output posted by the preview", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame />);
+
+      postFromPreview({ type: "console", level: "log", message: "hello" });
+      fireEvent.click(screen.getByText("Console"));
+
+      expect(screen.getByText("hello")).toBeInTheDocument();
+    });
+
+    test("ignores messages that do not come from the preview", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame />);
+
+      act(() => {
+        window.dispatchEvent(
+          new MessageEvent("message", {
+            data: { source: "uigen-preview", type: "error", message: "Boom" },
+          })
+        );
+      });
+
+      expect(screen.queryByText("Console")).not.toBeInTheDocument();
+    });
+
+    test("sends runtime errors to the chat when asked to fix them", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame />);
+
+      postFromPreview({ type: "error", message: "Boom", stack: "at App" });
+      expect(screen.getByText("1 error")).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("Fix this error"));
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        expect.stringContaining("Boom")
+      );
+    });
+
+    test("reports syntax errors from the transform", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      mockCreateImportMap.mockReturnValue({
+        importMap: {},
+        styles: "",
+        errors: [{ path: "/App.jsx", error: "Unexpected token" }],
+        missingImports: [],
+        modules: {},
+      });
+      render(<PreviewFrame />);
+
+      fireEvent.click(screen.getByText("Fix this error"));
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        expect.stringContaining("Syntax error in /App.jsx:\nUnexpected token")
+      );
+    });
+
+    test("maps runtime stack traces to project files", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      mockCreateImportMap.mockReturnValue({
+        importMap: "{}",
+        styles: "",
+        errors: [],
+        missingImports: [],
+        // Generated line 3 maps to line 7, column 5 of /App.jsx
+        modules: {
+          "blob:http://localhost/app": {
+            path: "/App.jsx",
+            map: { version: 3, sources: ["/App.jsx"], mappings: ";;AAMI" },
+          },
+        },
+      });
+      render(<PreviewFrame />);
+
+      postFromPreview({
+        type: "error",
+        message: "Boom",
+        stack: "Error: Boom\n    at App (blob:http://localhost/app:3:1)",
+      });
+      fireEvent.click(screen.getByText("Console"));
+      fireEvent.click(screen.getByText("Fix this error"));
+
+      expect(screen.getByText("/App.jsx:7:5:")).toBeInTheDocument();
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "Runtime error in /App.jsx:7:5:\nBoom\n    at App (/App.jsx:7:5)"
+        )
+      );
+    });
+
+    test("opens the file of a clicked error in the editor", () => {
+      const onOpenInEditor = vi.fn();
+      mockGetAllFiles.mockReturnValue(files);
+      mockCreateImportMap.mockReturnValue({
+        importMap: "{}",
+        styles: "",
+        errors: [
+          { path: "/App.jsx", error: "Unexpected token (2:4)", line: 2, column: 5 },
+        ],
+        missingImports: [],
+        modules: {},
+      });
+      render(<PreviewFrame onOpenInEditor={onOpenInEditor} />);
+
+      fireEvent.click(screen.getByText("Console"));
+      fireEvent.click(screen.getByTitle("Open in editor"));
+
+      expect(mockOpenFileAt).toHaveBeenCalledWith("/App.jsx", 2, 5);
+      expect(onOpenInEditor).toHaveBeenCalled();
+    });
+
+    test("opens files when a syntax error in the preview is clicked", () => {
+      const onOpenInEditor = vi.fn();
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame onOpenInEditor={onOpenInEditor} />);
+
+      postFromPreview({
+        type: "open-file",
+        path: "/components/Card.jsx",
+        line: 4,
+        column: 12,
+      });
+
+      expect(mockOpenFileAt).toHaveBeenCalledWith("/components/Card.jsx", 4, 12);
+      expect(onOpenInEditor).toHaveBeenCalled();
+    });
+
+    test("disables fixing while the AI is generating", () => {
+      mockStatus = "streaming";
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame />);
+
+      postFromPreview({ type: "error", message: "Boom" });
+
+      expect(screen.getByText("Fix this error").closest("button")).toBeDisabled();
+    });
+
+    test("auto-fix sends errors without user action once enabled", () => {
+      vi.useFakeTimers();
+      try {
+        localStorage.setItem("uigen_auto_fix", "true");
+        mockGetAllFiles.mockReturnValue(files);
+        render(<PreviewFrame />);
+
+        postFromPreview({ type: "error", message: "Boom" });
+        act(() => {
+          vi.advanceTimersByTime(1000);
+        });
+
+        expect(mockSendMessage).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test("auto-fix is off by default", () => {
+      vi.useFakeTimers();
+      try {
+        mockGetAllFiles.mockReturnValue(files);
+        render(<PreviewFrame />);
+
+        postFromPreview({ type: "error", message: "Boom" });
+        act(() => {
+          vi.advanceTimersByTime(5000);
+        });
+
+        expect(mockSendMessage).not.toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("element inspector", () => {
+    const files = new Map([
+      ["/App.jsx", "export default function App() { return <div>Hello</div>; }"],
+    ]);
+
+    test("toggles inspect mode in the preview", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame />);
+
+      const iframe = screen.getByTitle("Preview") as HTMLIFrameElement;
+      const postMessage = vi.spyOn(iframe.contentWindow!, "postMessage");
+      fireEvent.click(screen.getByText("Inspect"));
+
+      expect(postMessage).toHaveBeenCalledWith(
+        { source: "uigen-preview", type: "inspect", enabled: true },
+        "*"
+      );
+      expect(
+        screen.getByText("Inspect").closest("button")
+      ).toHaveAttribute("aria-pressed", "true");
+    });
+
+    test("attaches the picked element to the next chat message", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame />);
+      fireEvent.click(screen.getByText("Inspect"));
+
+      const iframe = screen.getByTitle("Preview") as HTMLIFrameElement;
+      act(() => {
+        window.dispatchEvent(
+          new MessageEvent("message", {
+            data: {
+              source: "uigen-preview",
+              type: "element-selected",
+              element: {
+                tagName: "button",
+                className: "px-4",
+                text: "Save",
+                source: "/App.jsx:12:7",
+              },
+            },
+            source: iframe.contentWindow,
+          })
+        );
+      });
+
+      expect(mockSetInspectedElement).toHaveBeenCalledWith({
+        tagName: "button",
+        className: "px-4",
+        text: "Save",
+        path: "/App.jsx",
+        line: 12,
+      });
+      expect(
+        screen.getByText("Inspect").closest("button")
+      ).toHaveAttribute("aria-pressed", "false");
+    });
+  });
+
+  describe("viewport", () => {
+    const files = new Map([
+      ["/App.jsx", "export default function App() { return <div>Hello</div>; }"],
+    ]);
+
+    test("fills the panel by default", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame projectId="project-1" />);
+
+      expect(screen.getByTestId("preview-viewport").style.width).toBe("");
+    });
+
+    test("renders device presets at their size and remembers them", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame projectId="project-1" />);
+
+      fireEvent.click(screen.getByTitle("Mobile"));
+      fireEvent.click(screen.getByTitle("Rotate"));
+
+      const viewport = screen.getByTestId("preview-viewport");
+      expect(viewport.style.width).toBe("667px");
+      expect(viewport.style.height).toBe("375px");
+      expect(screen.getByText("667 × 375")).toBeDefined();
+      expect(
+        JSON.parse(localStorage.getItem("uigen_viewport:project-1")!)
+      ).toMatchObject({ preset: "mobile", rotated: true });
+    });
+
+    test("restores the project's viewport and zoom", () => {
+      localStorage.setItem(
+        "uigen_viewport:project-1",
+        JSON.stringify({ preset: "tablet", zoom: 0.5 })
+      );
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame projectId="project-1" />);
+
+      const viewport = screen.getByTestId("preview-viewport");
+      expect(viewport.style.width).toBe("768px");
+      expect(viewport.style.transform).toBe("scale(0.5)");
+    });
+
+    test("keeps the same iframe when the viewport changes", () => {
+      mockGetAllFiles.mockReturnValue(files);
+      render(<PreviewFrame />);
+      const iframe = screen.getByTitle("Preview");
+
+      fireEvent.click(screen.getByTitle("Desktop"));
+      fireEvent.click(screen.getByTitle("Custom size"));
+      fireEvent.change(screen.getByLabelText("Viewport width"), {
+        target: { value: "600" },
+      });
+
+      expect(screen.getByTitle("Preview")).toBe(iframe);
+      expect(screen.getByTestId("preview-viewport").style.width).toBe("600px");
+    });
+  });
+
+  describe("missing imports", () => {
+    test("shows a banner listing imports rendered as placeholders", () => {
+      mockGetAllFiles.mockReturnValue(
+        new Map([["/App.jsx", "import Card from './Card';"]])
+      );
+      mockCreateImportMap.mockReturnValue({
+        importMap: "{}",
+        styles: "",
+        errors: [],
+        missingImports: [{ path: "/App.jsx", importPath: "./Card" }],
+        modules: {},
+      });
+
+      render(<PreviewFrame />);
+
+      expect(
+        screen.getByText("1 missing import rendered as placeholders")
+      ).toBeInTheDocument();
+      expect(screen.getByText("./Card in /App.jsx")).toBeInTheDocument();
+    });
+
+    test("hides the banner when every import resolves", () => {
+      mockGetAllFiles.mockReturnValue(
+        new Map([["/App.jsx", "export default function App() {}"]])
+      );
+
+      render(<PreviewFrame />);
+
+      expect(screen.queryByText(/missing import/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe("rebuild debouncing", () => {
+    test("coalesces file changes into one rebuild", () => {
+      vi.useFakeTimers();
+      try {
+        mockGetAllFiles.mockReturnValue(
+          new Map([["/App.jsx", "export default function App() {}"]])
+        );
+        const { rerender } = render(<PreviewFrame />);
+        const initialBuilds = mockCreateImportMap.mock.calls.length;
+
+        mockRefreshTrigger = 1;
+        rerender(<PreviewFrame />);
+        mockRefreshTrigger = 2;
+        rerender(<PreviewFrame />);
+        expect(mockCreateImportMap).toHaveBeenCalledTimes(initialBuilds);
+
+        act(() => {
+          vi.advanceTimersByTime(300);
+        });
+        expect(mockCreateImportMap).toHaveBeenCalledTimes(initialBuilds + 1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
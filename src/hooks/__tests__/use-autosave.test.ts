@@ -0,0 +1,203 @@
+import { test, expect, describe, beforeEach, vi, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useAutosave } from "../use-autosave";
+
+// Mock server actions
+vi.mock("@/actions/save-project-files", () => ({
+  saveProjectFiles: vi.fn(),
+}));
+
+const mockFiles = new Map([["/App.jsx", "export default function App() {}"]]);
+const mockFileSystem = {
+  serialize: vi.fn(() => ({ "/": { type: "directory" } })),
+  getAllFiles: vi.fn(() => mockFiles),
+};
+const mockMarkSaved = vi.fn();
+let mockRefreshTrigger = 0;
+let mockDirtyFiles = new Set<string>();
+
+vi.mock("@/lib/contexts/file-system-context", () => ({
+  useFileSystem: () => ({
+    fileSystem: mockFileSystem,
+    refreshTrigger: mockRefreshTrigger,
+    dirtyFiles: mockDirtyFiles,
+    markSaved: mockMarkSaved,
+  }),
+}));
+
+let mockStatus = "ready";
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: () => ({ status: mockStatus }),
+}));
+
+const { saveProjectFiles } = await import("@/actions/save-project-files");
+
+describe("useAutosave", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.mocked(saveProjectFiles).mockResolvedValue(undefined);
+    mockRefreshTrigger = 0;
+    mockDirtyFiles = new Set();
+    mockStatus = "ready";
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Simulate a file change in the file system context
+  const changeFiles = (rerender: () => void) => {
+    mockRefreshTrigger++;
+    act(() => rerender());
+  };
+
+  test("starts saved and does not save the initial files", async () => {
+    const { result } = renderHook(() => useAutosave("project-123"));
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(5000);
+    });
+
+    expect(result.current.saveStatus).toBe("saved");
+    expect(saveProjectFiles).not.toHaveBeenCalled();
+  });
+
+  test("saves once changes settle", async () => {
+    const { result, rerender } = renderHook(() => useAutosave("project-123"));
+
+    changeFiles(rerender);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(500);
+    });
+    changeFiles(rerender);
+
+    expect(result.current.saveStatus).toBe("unsaved");
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(saveProjectFiles).toHaveBeenCalledTimes(1);
+    expect(saveProjectFiles).toHaveBeenCalledWith(
+      "project-123",
+      { "/": { type: "directory" } },
+      { checkpoint: false }
+    );
+    expect(mockMarkSaved).toHaveBeenCalledWith(mockFiles);
+    expect(result.current.saveStatus).toBe("saved");
+  });
+
+  test("stays unsaved when files change during a save", async () => {
+    let finishSave = () => {};
+    vi.mocked(saveProjectFiles).mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finishSave = resolve))
+    );
+    const { result, rerender } = renderHook(() => useAutosave("project-123"));
+
+    changeFiles(rerender);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+    expect(result.current.saveStatus).toBe("saving");
+
+    changeFiles(rerender);
+    await act(async () => {
+      finishSave();
+    });
+    expect(result.current.saveStatus).toBe("unsaved");
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+    expect(saveProjectFiles).toHaveBeenCalledTimes(2);
+    expect(result.current.saveStatus).toBe("saved");
+  });
+
+  test("reports failed saves and retries with saveNow", async () => {
+    vi.mocked(saveProjectFiles).mockRejectedValueOnce(new Error("Offline"));
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const { result, rerender } = renderHook(() => useAutosave("project-123"));
+
+    changeFiles(rerender);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+    expect(result.current.saveStatus).toBe("error");
+    expect(mockMarkSaved).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current.saveNow();
+    });
+    expect(saveProjectFiles).toHaveBeenCalledTimes(2);
+    expect(result.current.saveStatus).toBe("saved");
+
+    consoleError.mockRestore();
+  });
+
+  test("warns before leaving the page with unsaved changes", () => {
+    const { rerender } = renderHook(() => useAutosave("project-123"));
+
+    const cleanEvent = new Event("beforeunload", { cancelable: true });
+    window.dispatchEvent(cleanEvent);
+    expect(cleanEvent.defaultPrevented).toBe(false);
+
+    changeFiles(rerender);
+
+    const dirtyEvent = new Event("beforeunload", { cancelable: true });
+    window.dispatchEvent(dirtyEvent);
+    expect(dirtyEvent.defaultPrevented).toBe(true);
+  });
+
+  test("leaves the AI's changes to the chat route", async () => {
+    const { result, rerender } = renderHook(() => useAutosave("project-123"));
+
+    changeFiles(rerender);
+    mockStatus = "streaming";
+    changeFiles(rerender);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(5000);
+    });
+
+    expect(saveProjectFiles).not.toHaveBeenCalled();
+
+    // The finished turn's files were saved along with it
+    mockStatus = "ready";
+    act(() => rerender());
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(5000);
+    });
+
+    expect(saveProjectFiles).not.toHaveBeenCalled();
+    expect(result.current.saveStatus).toBe("saved");
+  });
+
+  test("saves what a stopped turn left unsaved", async () => {
+    const { rerender } = renderHook(() => useAutosave("project-123"));
+
+    mockStatus = "streaming";
+    changeFiles(rerender);
+    mockStatus = "ready";
+    mockDirtyFiles = new Set(["/App.jsx"]);
+    act(() => rerender());
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(saveProjectFiles).toHaveBeenCalledTimes(1);
+  });
+
+  test("saves pending changes when unmounted", async () => {
+    const { rerender, unmount } = renderHook(() => useAutosave("project-123"));
+
+    changeFiles(rerender);
+    unmount();
+    await act(async () => {
+      await vi.runAllTimersAsync();
+    });
+
+    expect(saveProjectFiles).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect, vi, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useBranches } from "../use-branches";
+
+vi.mock("@/actions/create-project-branch", () => ({
+  createProjectBranch: vi.fn(),
+}));
+
+vi.mock("@/actions/switch-project-branch", () => ({
+  switchProjectBranch: vi.fn(),
+}));
+
+const files = { "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx" } };
+const mockReplaceFileSystem = vi.fn();
+vi.mock("@/lib/contexts/file-system-context", () => ({
+  useFileSystem: () => ({
+    fileSystem: { serialize: () => files },
+    replaceFileSystem: mockReplaceFileSystem,
+  }),
+}));
+
+const image = {
+  name: "mockup.png",
+  contentType: "image/png",
+  url: "data:image/png;base64,cG5n",
+};
+const mockMessages = [
+  { id: "1", role: "user", content: "Create a button" },
+  { id: "2", role: "assistant", content: "Done" },
+  {
+    id: "3",
+    role: "user",
+    content: "Make it blue",
+    experimental_attachments: [image],
+  },
+];
+const mockSetMessages = vi.fn();
+const mockSendMessageAfter = vi.fn();
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: () => ({
+    messages: mockMessages,
+    setMessages: mockSetMessages,
+    sendMessageAfter: mockSendMessageAfter,
+  }),
+}));
+
+const { createProjectBranch } = await import("@/actions/create-project-branch");
+const { switchProjectBranch } = await import("@/actions/switch-project-branch");
+
+const branchData = {
+  "/Card.jsx": { type: "file", name: "Card.jsx", path: "/Card.jsx" },
+};
+const history = [{ id: "1", role: "user", content: "Create a button" }];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+test("branches from a message and sends its new version with its images", async () => {
+  vi.mocked(createProjectBranch).mockResolvedValue({
+    messages: history,
+    data: branchData,
+  });
+  const { result } = renderHook(() => useBranches("project-123"));
+
+  await act(() => result.current.branchFrom(2, "Make it red"));
+
+  expect(createProjectBranch).toHaveBeenCalledWith("project-123", 2, files);
+  expect(mockReplaceFileSystem).toHaveBeenCalledWith(branchData);
+  expect(mockSendMessageAfter).toHaveBeenCalledWith(history, "Make it red", [
+    image,
+  ]);
+});
+
+test("switches to a branch", async () => {
+  vi.mocked(switchProjectBranch).mockResolvedValue({
+    messages: history,
+    data: branchData,
+  });
+  const { result } = renderHook(() => useBranches("project-123"));
+
+  await act(() => result.current.switchBranch("branch-1"));
+
+  expect(switchProjectBranch).toHaveBeenCalledWith(
+    "project-123",
+    "branch-1",
+    files
+  );
+  expect(mockReplaceFileSystem).toHaveBeenCalledWith(branchData);
+  expect(mockSetMessages).toHaveBeenCalledWith(history);
+});
+
+test("does nothing without a project", async () => {
+  const { result } = renderHook(() => useBranches());
+
+  await act(() => result.current.branchFrom(0, "Make it red"));
+
+  expect(createProjectBranch).not.toHaveBeenCalled();
+  expect(mockSendMessageAfter).not.toHaveBeenCalled();
+});
@@ -0,0 +1,62 @@
+import { test, expect, vi, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useRetryTurn } from "../use-retry-turn";
+
+vi.mock("@/actions/rewind-project-turn", () => ({
+  rewindProjectTurn: vi.fn(),
+}));
+
+const mockMessages = [
+  { id: "1", role: "user", content: "Create a button" },
+  { id: "2", role: "assistant", content: "Done" },
+  { id: "3", role: "user", content: "Make it blue" },
+  { id: "4", role: "assistant", content: "Done" },
+];
+const mockRegenerate = vi.fn();
+const mockEditLastMessage = vi.fn();
+vi.mock("@/lib/contexts/chat-context", () => ({
+  useChat: () => ({
+    messages: mockMessages,
+    regenerate: mockRegenerate,
+    editLastMessage: mockEditLastMessage,
+  }),
+}));
+
+const { rewindProjectTurn } = await import("@/actions/rewind-project-turn");
+
+const checkpoint = {
+  "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx" },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+test("regenerates from the checkpoint before the last user message", async () => {
+  vi.mocked(rewindProjectTurn).mockResolvedValue({ data: checkpoint });
+  const { result } = renderHook(() => useRetryTurn("project-123"));
+
+  await act(() => result.current.regenerate());
+
+  expect(rewindProjectTurn).toHaveBeenCalledWith("project-123", 2);
+  expect(mockRegenerate).toHaveBeenCalledWith(checkpoint);
+});
+
+test("edits the last message from the checkpoint before it", async () => {
+  vi.mocked(rewindProjectTurn).mockResolvedValue({ data: checkpoint });
+  const { result } = renderHook(() => useRetryTurn("project-123"));
+
+  await act(() => result.current.editLastMessage("Make it red"));
+
+  expect(rewindProjectTurn).toHaveBeenCalledWith("project-123", 2);
+  expect(mockEditLastMessage).toHaveBeenCalledWith("Make it red", checkpoint);
+});
+
+test("leaves the rollback to the chat without a project", async () => {
+  const { result } = renderHook(() => useRetryTurn());
+
+  await act(() => result.current.regenerate());
+
+  expect(rewindProjectTurn).not.toHaveBeenCalled();
+  expect(mockRegenerate).toHaveBeenCalledWith(undefined);
+});
@@ -0,0 +1,121 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import { saveProjectFiles } from "@/actions/save-project-files";
+
+// How long file changes have to settle before they are saved
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Whether the files match what is saved to the project
+export type SaveStatus = "saved" | "unsaved" | "saving" | "error";
+
+// Save the project's files whenever they change, e.g. after edits in the code
+// editor or the file tree, which are otherwise only kept in memory. Mount it
+// once per project.
+//
+// Changes made while the AI is generating are its tool calls, which may leave
+// files half written; the chat route saves them when the turn finishes.
+export function useAutosave(projectId: string) {
+  const { fileSystem, refreshTrigger, dirtyFiles, markSaved } =
+    useFileSystem();
+  const { status } = useChat();
+  const isGenerating = status === "submitted" || status === "streaming";
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("saved");
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Saves run one at a time so an older snapshot never overwrites a newer one
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const latestRevision = useRef(refreshTrigger);
+  const initialRevision = useRef(refreshTrigger);
+
+  const saveNow = useCallback(() => {
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+      autosaveTimer.current = null;
+    }
+
+    saveQueue.current = saveQueue.current.then(async () => {
+      const revision = latestRevision.current;
+      const files = fileSystem.getAllFiles();
+      setSaveStatus("saving");
+      try {
+        await saveProjectFiles(projectId, fileSystem.serialize(), {
+          checkpoint: false,
+        });
+        markSaved(files);
+        // Changes made while saving are left for the next save
+        setSaveStatus(
+          latestRevision.current === revision ? "saved" : "unsaved"
+        );
+      } catch (error) {
+        console.error("Failed to save files:", error);
+        setSaveStatus("error");
+      }
+    });
+    return saveQueue.current;
+  }, [projectId, fileSystem, markSaved]);
+
+  const scheduleSave = useCallback(() => {
+    setSaveStatus("unsaved");
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+    }
+    autosaveTimer.current = setTimeout(saveNow, AUTOSAVE_DELAY_MS);
+  }, [saveNow]);
+
+  // Every refresh is a file change; save once changes stop coming in
+  const isGeneratingRef = useRef(isGenerating);
+  isGeneratingRef.current = isGenerating;
+  useEffect(() => {
+    latestRevision.current = refreshTrigger;
+    if (refreshTrigger === initialRevision.current) return;
+    if (isGeneratingRef.current) return;
+
+    scheduleSave();
+  }, [refreshTrigger, scheduleSave]);
+
+  // A pending save is dropped when a turn starts, since the files go along
+  // with the chat request. Afterwards only what the turn didn't save is left,
+  // e.g. when it was stopped.
+  const wasGenerating = useRef(isGenerating);
+  useEffect(() => {
+    if (isGenerating === wasGenerating.current) return;
+    wasGenerating.current = isGenerating;
+
+    if (isGenerating) {
+      if (autosaveTimer.current) {
+        clearTimeout(autosaveTimer.current);
+        autosaveTimer.current = null;
+      }
+    } else if (dirtyFiles.size > 0) {
+      scheduleSave();
+    } else {
+      setSaveStatus((prev) => (prev === "unsaved" ? "saved" : prev));
+    }
+  }, [isGenerating, dirtyFiles, scheduleSave]);
+
+  // Flush a pending autosave when leaving the project
+  const saveNowRef = useRef(saveNow);
+  saveNowRef.current = saveNow;
+  useEffect(() => {
+    return () => {
+      if (autosaveTimer.current) {
+        saveNowRef.current();
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (saveStatus === "saved") return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [saveStatus]);
+
+  return { saveStatus, saveNow };
+}
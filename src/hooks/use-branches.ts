@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback } from "react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import { createProjectBranch } from "@/actions/create-project-branch";
+import { switchProjectBranch } from "@/actions/switch-project-branch";
+
+// Fork the project's conversation and move between its branches. The
+// current files are handed to the server so unsaved edits stay with the
+// branch they were made on. Branches need a saved project; without one
+// both actions do nothing.
+export function useBranches(projectId?: string) {
+  const { fileSystem, replaceFileSystem } = useFileSystem();
+  const { messages: chatMessages, setMessages, sendMessageAfter } = useChat();
+
+  // Go back to an earlier user message and send an edited version of it
+  const branchFrom = useCallback(
+    async (messageIndex: number, content: string) => {
+      if (!projectId) return;
+      const attachments = chatMessages[messageIndex]?.experimental_attachments;
+      const { messages, data } = await createProjectBranch(
+        projectId,
+        messageIndex,
+        fileSystem.serialize()
+      );
+      replaceFileSystem(data);
+      sendMessageAfter(messages, content, attachments);
+    },
+    [projectId, chatMessages, fileSystem, replaceFileSystem, sendMessageAfter]
+  );
+
+  const switchBranch = useCallback(
+    async (branchId: string) => {
+      if (!projectId) return;
+      const { messages, data } = await switchProjectBranch(
+        projectId,
+        branchId,
+        fileSystem.serialize()
+      );
+      replaceFileSystem(data);
+      setMessages(messages);
+    },
+    [projectId, fileSystem, replaceFileSystem, setMessages]
+  );
+
+  return { branchFrom, switchBranch };
+}
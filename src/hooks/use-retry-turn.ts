@@ -0,0 +1,35 @@
+"use client";
+
+import { useCallback } from "react";
+import { useChat } from "@/lib/contexts/chat-context";
+import { rewindProjectTurn } from "@/actions/rewind-project-turn";
+
+// Regenerate or edit the last turn. A saved project goes back to its
+// checkpoint from before the last user message, which also drops the
+// discarded turn's checkpoints; without one the chat undoes the turn from
+// what this session has seen.
+export function useRetryTurn(projectId?: string) {
+  const { messages, regenerate, editLastMessage } = useChat();
+  const lastUserIndex = messages.findLastIndex(
+    (message) => message.role === "user"
+  );
+
+  const rewind = useCallback(async () => {
+    if (!projectId || lastUserIndex === -1) return undefined;
+    const { data } = await rewindProjectTurn(projectId, lastUserIndex);
+    return data;
+  }, [projectId, lastUserIndex]);
+
+  const retry = useCallback(async () => {
+    regenerate(await rewind());
+  }, [regenerate, rewind]);
+
+  const editAndRetry = useCallback(
+    async (content: string) => {
+      editLastMessage(content, await rewind());
+    },
+    [editLastMessage, rewind]
+  );
+
+  return { regenerate: retry, editLastMessage: editAndRetry };
+}
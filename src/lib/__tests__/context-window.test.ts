@@ -0,0 +1,222 @@
+import { test, expect, describe } from "vitest";
+import type { Message } from "ai";
+import {
+  CONTEXT_TOKEN_BUDGET,
+  HISTORY_SUMMARY,
+  IMAGE_TOKENS,
+  estimateTokens,
+  findHistorySummary,
+  findRecentStart,
+  formatFileIndex,
+  formatTranscript,
+  pruneToolCalls,
+} from "@/lib/context-window";
+
+const longContent = "x".repeat(1000);
+
+function createToolMessage(id: string): Message {
+  const toolInvocation = {
+    state: "result" as const,
+    toolCallId: `call-${id}`,
+    toolName: "str_replace_editor",
+    args: { command: "create", path: "/App.jsx", file_text: longContent },
+    result: "File created: /App.jsx",
+  };
+  return {
+    id,
+    role: "assistant",
+    content: "Done",
+    toolInvocations: [toolInvocation],
+    parts: [{ type: "tool-invocation", toolInvocation }],
+  };
+}
+
+describe("estimateTokens", () => {
+  test("counts about four characters a token", () => {
+    expect(estimateTokens("a".repeat(400))).toBe(100);
+    expect(estimateTokens("abc")).toBe(1);
+    expect(estimateTokens(undefined)).toBe(0);
+  });
+
+  test("estimates structured values by their JSON", () => {
+    expect(estimateTokens({ a: 1 })).toBe(2);
+  });
+
+  test("counts images at a fixed cost rather than by their data", () => {
+    const message: Message = {
+      id: "1",
+      role: "user",
+      content: "Build this",
+      experimental_attachments: [
+        {
+          name: "screenshot.png",
+          contentType: "image/png",
+          url: `data:image/png;base64,${"A".repeat(500_000)}`,
+        },
+      ],
+    };
+
+    const tokens = estimateTokens([message]);
+
+    expect(tokens).toBeGreaterThanOrEqual(IMAGE_TOKENS);
+    expect(tokens).toBeLessThan(IMAGE_TOKENS + 100);
+    expect(tokens).toBeLessThan(CONTEXT_TOKEN_BUDGET);
+  });
+});
+
+describe("findHistorySummary", () => {
+  test("finds the latest summary annotation", () => {
+    const messages: Message[] = [
+      { id: "1", role: "user", content: "Create a button" },
+      {
+        id: "2",
+        role: "assistant",
+        content: "Done",
+        annotations: [
+          { type: HISTORY_SUMMARY, summary: "Older", messageCount: 2 },
+        ],
+      },
+      { id: "3", role: "user", content: "Make it red" },
+      {
+        id: "4",
+        role: "assistant",
+        content: "Done",
+        annotations: [
+          { type: "other" },
+          { type: HISTORY_SUMMARY, summary: "Newer", messageCount: 4 },
+        ],
+      },
+    ];
+
+    expect(findHistorySummary(messages)).toEqual({
+      type: HISTORY_SUMMARY,
+      summary: "Newer",
+      messageCount: 4,
+    });
+    expect(findHistorySummary(messages.slice(0, 3))?.summary).toBe("Older");
+    expect(findHistorySummary(messages.slice(0, 1))).toBeNull();
+  });
+
+  test("skips annotations that only look like a summary", () => {
+    const messages: Message[] = [
+      {
+        id: "1",
+        role: "assistant",
+        content: "Done",
+        annotations: [
+          { type: HISTORY_SUMMARY, summary: "Older", messageCount: 2 },
+          { type: HISTORY_SUMMARY, summary: null, messageCount: 4 },
+          { type: HISTORY_SUMMARY, summary: "Newer" },
+        ],
+      },
+    ];
+
+    expect(findHistorySummary(messages)?.summary).toBe("Older");
+  });
+});
+
+describe("formatFileIndex", () => {
+  test("lists files with their line counts but not their contents", () => {
+    const index = formatFileIndex(
+      new Map([
+        ["/components/Button.jsx", "export function Button() {}"],
+        ["/App.jsx", "import x from 'y';\n\nexport default App;"],
+      ])
+    );
+
+    expect(index).toContain("/App.jsx (3 lines)\n/components/Button.jsx (1 line)");
+    expect(index).toContain("view a file");
+    expect(index).not.toContain("export default");
+  });
+
+  test("describes an empty project", () => {
+    expect(formatFileIndex(new Map())).toBe("The project has no files yet.");
+  });
+});
+
+describe("pruneToolCalls", () => {
+  test("leaves file contents out of earlier turns only", () => {
+    const messages: Message[] = [
+      { id: "1", role: "user", content: "Create a button" },
+      createToolMessage("2"),
+      { id: "3", role: "user", content: "Make it red" },
+      createToolMessage("4"),
+    ];
+
+    const pruned = pruneToolCalls(messages);
+
+    const earlier = pruned[1].toolInvocations![0];
+    expect(earlier.args.file_text).toContain("Content omitted");
+    expect(earlier.args.path).toBe("/App.jsx");
+    expect(
+      (pruned[1].parts![0] as any).toolInvocation.args.file_text
+    ).toContain("Content omitted");
+    expect(pruned[3]).toBe(messages[3]);
+    expect(messages[1].toolInvocations![0].args.file_text).toBe(longContent);
+  });
+});
+
+describe("findRecentStart", () => {
+  const messages: Message[] = [
+    { id: "1", role: "user", content: "a".repeat(400) },
+    { id: "2", role: "assistant", content: "a".repeat(400) },
+    { id: "3", role: "user", content: "a".repeat(400) },
+    { id: "4", role: "assistant", content: "a".repeat(400) },
+    { id: "5", role: "user", content: "a".repeat(400) },
+    { id: "6", role: "assistant", content: "a".repeat(400) },
+  ];
+
+  test("keeps as many whole turns as fit in the budget", () => {
+    expect(findRecentStart(messages, 500)).toBe(2);
+  });
+
+  test("always keeps the latest turn", () => {
+    expect(findRecentStart(messages, 10)).toBe(4);
+  });
+
+  test("keeps everything when there is one turn", () => {
+    expect(findRecentStart(messages.slice(0, 2), 10)).toBe(0);
+  });
+
+  test("keeps a recent turn with a large image attachment", () => {
+    const withImage: Message[] = [
+      ...messages.slice(0, 4),
+      {
+        id: "5",
+        role: "user",
+        content: "Build this",
+        experimental_attachments: [
+          {
+            name: "screenshot.png",
+            contentType: "image/png",
+            url: `data:image/png;base64,${"A".repeat(500_000)}`,
+          },
+        ],
+      },
+      { id: "6", role: "assistant", content: "Done" },
+      { id: "7", role: "user", content: "Make it red" },
+    ];
+
+    expect(findRecentStart(withImage, 1_800)).toBe(4);
+  });
+});
+
+describe("formatTranscript", () => {
+  test("writes the conversation as plain text", () => {
+    expect(
+      formatTranscript([
+        {
+          id: "1",
+          role: "user",
+          content: "Build this",
+          experimental_attachments: [
+            { contentType: "image/png", url: "data:image/png;base64,cG5n" },
+          ],
+        },
+        createToolMessage("2"),
+      ])
+    ).toBe(
+      "User: Build this\n(attached 1 image)\n\nAssistant: Done\n(tool calls: str_replace_editor create /App.jsx)"
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { test, expect } from "vitest";
-import { VirtualFileSystem } from "@/lib/file-system";
+import { VirtualFileSystem, MAX_EDIT_HISTORY } from "@/lib/file-system";
 
 test("creates a new file system with root directory", () => {
   const fs = new VirtualFileSystem();
@@ -675,3 +675,94 @@ test("rename handles empty directories", () => {
   expect(fs.exists("/moved-empty-dir")).toBe(true);
   expect(fs.getNode("/moved-empty-dir")?.type).toBe("directory");
 });
+
+test("undoEdit restores the previous version of a file", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "v1");
+  fs.replaceInFile("/test.txt", "v1", "v2");
+  fs.replaceInFile("/test.txt", "v2", "v3");
+
+  expect(fs.undoEdit("/test.txt")).toBe(
+    "Last edit to /test.txt undone successfully"
+  );
+  expect(fs.readFile("/test.txt")).toBe("v2");
+
+  fs.undoEdit("/test.txt");
+  expect(fs.readFile("/test.txt")).toBe("v1");
+
+  expect(fs.undoEdit("/test.txt")).toBe(
+    "Error: No edit history found for /test.txt"
+  );
+  expect(fs.readFile("/test.txt")).toBe("v1");
+});
+
+test("edits that change nothing are not recorded", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "same");
+  fs.replaceInFile("/test.txt", "same", "same");
+
+  expect(fs.getNode("/test.txt")?.history).toBeUndefined();
+});
+
+test("updateFile is not recorded as an edit", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "v1");
+  fs.replaceInFile("/test.txt", "v1", "v2");
+  fs.updateFile("/test.txt", "v2 typed");
+
+  expect(fs.getNode("/test.txt")?.history).toEqual(["v1"]);
+});
+
+test("edit history is bounded", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "0");
+  for (let i = 1; i <= MAX_EDIT_HISTORY + 5; i++) {
+    fs.replaceInFile("/test.txt", String(i - 1), String(i));
+  }
+
+  const history = fs.getNode("/test.txt")?.history;
+  expect(history).toHaveLength(MAX_EDIT_HISTORY);
+  expect(history?.[0]).toBe("5");
+});
+
+test("edit history follows renamed files", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/src/test.txt", "before");
+  fs.replaceInFile("/src/test.txt", "before", "after");
+  fs.rename("/src", "/lib");
+
+  fs.undoEdit("/lib/test.txt");
+
+  expect(fs.readFile("/lib/test.txt")).toBe("before");
+});
+
+test("undoEdit rejects missing files and directories", () => {
+  const fs = new VirtualFileSystem();
+  fs.createDirectory("/src");
+
+  expect(fs.undoEdit("/missing.txt")).toBe("Error: File not found: /missing.txt");
+  expect(fs.undoEdit("/src")).toBe(
+    "Error: Cannot undo edits to a directory: /src"
+  );
+});
+
+test("edit history is not serialized", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "v1");
+  fs.insertInFile("/test.txt", 1, "v2");
+
+  expect(fs.serialize()["/test.txt"].history).toBeUndefined();
+});
+
+test("clearEditHistory forgets every file's edits", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.txt", "v1");
+  fs.replaceInFile("/test.txt", "v1", "v2");
+
+  fs.clearEditHistory();
+
+  expect(fs.undoEdit("/test.txt")).toBe(
+    "Error: No edit history found for /test.txt"
+  );
+  expect(fs.readFile("/test.txt")).toBe("v2");
+});
@@ -0,0 +1,57 @@
+import { test, expect } from "vitest";
+import {
+  MAX_IMAGE_SIZE,
+  isImageAttachment,
+  isSupportedImage,
+  readImageAttachment,
+} from "@/lib/image-attachments";
+
+test("accepts common image formats up to the size limit", () => {
+  expect(isSupportedImage({ type: "image/png", size: 1024 })).toBe(true);
+  expect(isSupportedImage({ type: "image/webp", size: MAX_IMAGE_SIZE })).toBe(
+    true
+  );
+  expect(
+    isSupportedImage({ type: "image/jpeg", size: MAX_IMAGE_SIZE + 1 })
+  ).toBe(false);
+  expect(isSupportedImage({ type: "image/svg+xml", size: 1024 })).toBe(false);
+  expect(isSupportedImage({ type: "application/pdf", size: 1024 })).toBe(false);
+});
+
+test("reads an image as a data URL attachment", async () => {
+  const file = new File(["png"], "mockup.png", { type: "image/png" });
+
+  expect(await readImageAttachment(file)).toEqual({
+    name: "mockup.png",
+    contentType: "image/png",
+    url: "data:image/png;base64,cG5n",
+  });
+});
+
+test("only treats inline images as image attachments", () => {
+  expect(
+    isImageAttachment({
+      contentType: "image/png",
+      url: "data:image/png;base64,cG5n",
+    })
+  ).toBe(true);
+  expect(
+    isImageAttachment({
+      contentType: "image/png",
+      url: "https://example.com/mockup.png",
+    })
+  ).toBe(false);
+  expect(
+    isImageAttachment({
+      contentType: "image/png",
+      url: "data:text/plain;base64,cG5n",
+    })
+  ).toBe(false);
+  expect(
+    isImageAttachment({
+      contentType: "text/plain",
+      url: "data:text/plain;base64,cG5n",
+    })
+  ).toBe(false);
+  expect(isImageAttachment({ url: "data:image/png;base64,cG5n" })).toBe(false);
+});
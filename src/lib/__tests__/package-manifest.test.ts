@@ -0,0 +1,103 @@
+import { test, expect, describe } from "vitest";
+import { VirtualFileSystem } from "../file-system";
+import {
+  PACKAGE_MANIFEST_PATH,
+  applyDependencyChange,
+  readDependencies,
+} from "../package-manifest";
+
+describe("readDependencies", () => {
+  test("returns the string dependencies of a manifest", () => {
+    const content = JSON.stringify({
+      name: "app",
+      dependencies: { clsx: "2.1.1", broken: 3 },
+    });
+
+    expect(readDependencies(content)).toEqual({ clsx: "2.1.1" });
+  });
+
+  test("returns nothing for missing or invalid manifests", () => {
+    expect(readDependencies(null)).toEqual({});
+    expect(readDependencies("{ not json")).toEqual({});
+    expect(readDependencies("[]")).toEqual({});
+    expect(readDependencies(JSON.stringify({ name: "app" }))).toEqual({});
+  });
+});
+
+describe("applyDependencyChange", () => {
+  test("creates the manifest when adding the first dependency", () => {
+    const fileSystem = new VirtualFileSystem();
+
+    const result = applyDependencyChange(fileSystem, "add", "clsx", "2.1.1");
+
+    expect(result).toEqual({
+      success: true,
+      message: "Added clsx@2.1.1 to /package.json",
+    });
+    expect(JSON.parse(fileSystem.readFile(PACKAGE_MANIFEST_PATH)!)).toEqual({
+      dependencies: { clsx: "2.1.1" },
+    });
+  });
+
+  test("keeps other manifest fields and sorts dependencies", () => {
+    const fileSystem = new VirtualFileSystem();
+    fileSystem.createFile(
+      PACKAGE_MANIFEST_PATH,
+      JSON.stringify({ name: "app", dependencies: { zod: "3" } })
+    );
+
+    applyDependencyChange(fileSystem, "add", "clsx", "2");
+    applyDependencyChange(fileSystem, "add", "zod", "4");
+
+    const manifest = JSON.parse(fileSystem.readFile(PACKAGE_MANIFEST_PATH)!);
+    expect(manifest.name).toBe("app");
+    expect(Object.entries(manifest.dependencies)).toEqual([
+      ["clsx", "2"],
+      ["zod", "4"],
+    ]);
+  });
+
+  test("removes a dependency", () => {
+    const fileSystem = new VirtualFileSystem();
+    applyDependencyChange(fileSystem, "add", "clsx", "2");
+
+    const result = applyDependencyChange(fileSystem, "remove", "clsx");
+
+    expect(result.success).toBe(true);
+    expect(readDependencies(fileSystem.readFile(PACKAGE_MANIFEST_PATH))).toEqual(
+      {}
+    );
+  });
+
+  test("fails to remove a package that is not a dependency", () => {
+    const fileSystem = new VirtualFileSystem();
+
+    expect(applyDependencyChange(fileSystem, "remove", "clsx")).toEqual({
+      success: false,
+      error: "clsx is not a dependency",
+    });
+    expect(fileSystem.exists(PACKAGE_MANIFEST_PATH)).toBe(false);
+  });
+
+  test("requires a version when adding", () => {
+    const fileSystem = new VirtualFileSystem();
+
+    expect(applyDependencyChange(fileSystem, "add", "clsx")).toEqual({
+      success: false,
+      error: "version is required for add command",
+    });
+  });
+
+  test("refuses to overwrite an invalid manifest", () => {
+    const fileSystem = new VirtualFileSystem();
+    fileSystem.createFile(PACKAGE_MANIFEST_PATH, "{ not json");
+
+    const result = applyDependencyChange(fileSystem, "add", "clsx", "2");
+
+    expect(result).toEqual({
+      success: false,
+      error: "/package.json is not valid JSON",
+    });
+    expect(fileSystem.readFile(PACKAGE_MANIFEST_PATH)).toBe("{ not json");
+  });
+});
@@ -0,0 +1,119 @@
+import { test, expect, describe } from "vitest";
+import {
+  formatErrorsForChat,
+  formatInspectedElement,
+  isPreviewMessage,
+} from "../preview-messages";
+
+describe("isPreviewMessage", () => {
+  test("accepts messages tagged by the preview bridge", () => {
+    expect(
+      isPreviewMessage({ source: "uigen-preview", type: "ready" })
+    ).toBe(true);
+  });
+
+  test("rejects other messages", () => {
+    expect(isPreviewMessage(null)).toBe(false);
+    expect(isPreviewMessage("uigen-preview")).toBe(false);
+    expect(isPreviewMessage({ source: "devtools", type: "ready" })).toBe(false);
+    expect(isPreviewMessage({ source: "uigen-preview" })).toBe(false);
+  });
+});
+
+describe("formatErrorsForChat", () => {
+  test("formats a single runtime error with its stack frames", () => {
+    const message = formatErrorsForChat([
+      {
+        kind: "runtime",
+        message: "TypeError: x is undefined",
+        stack: "TypeError: x is undefined\n    at App (blob:1)\n    at render (blob:2)",
+      },
+    ]);
+
+    expect(message).toBe(
+      [
+        "The preview is showing an error. Please fix it.",
+        "```\nRuntime error:\nTypeError: x is undefined\n    at App (blob:1)\n    at render (blob:2)\n```",
+      ].join("\n\n")
+    );
+  });
+
+  test("includes the file path of syntax errors", () => {
+    const message = formatErrorsForChat([
+      { kind: "syntax", path: "/App.jsx", message: "Unexpected token (1:5)" },
+    ]);
+
+    expect(message).toContain("Syntax error in /App.jsx:\nUnexpected token (1:5)");
+  });
+
+  test("includes the source location of mapped runtime errors", () => {
+    const message = formatErrorsForChat([
+      {
+        kind: "runtime",
+        message: "TypeError: x is undefined",
+        path: "/components/Card.jsx",
+        line: 12,
+        column: 5,
+      },
+    ]);
+
+    expect(message).toContain(
+      "Runtime error in /components/Card.jsx:12:5:\nTypeError: x is undefined"
+    );
+  });
+
+  test("summarizes multiple errors", () => {
+    const message = formatErrorsForChat([
+      { kind: "syntax", path: "/A.jsx", message: "a" },
+      { kind: "runtime", message: "b" },
+    ]);
+
+    expect(message.startsWith("The preview is showing 2 errors.")).toBe(true);
+    expect(message.match(/```/g)).toHaveLength(4);
+  });
+
+  test("keeps only the first few stack frames", () => {
+    const stack = Array.from({ length: 10 }, (_, i) => `  at frame${i}`).join(
+      "\n"
+    );
+    const message = formatErrorsForChat([
+      { kind: "runtime", message: "Boom", stack },
+    ]);
+
+    expect(message).toContain("frame4");
+    expect(message).not.toContain("frame5");
+  });
+});
+
+describe("formatInspectedElement", () => {
+  test("describes the element and where it is defined", () => {
+    expect(
+      formatInspectedElement({
+        tagName: "button",
+        className: "px-4 py-2",
+        text: "Save",
+        path: "/App.jsx",
+        line: 12,
+      })
+    ).toBe(
+      [
+        "The user selected an element in the preview and their latest message refers to it:",
+        '- Element: <button class="px-4 py-2">',
+        '- Text: "Save"',
+        "- Source: /App.jsx:12",
+      ].join("\n")
+    );
+  });
+
+  test("omits what isn't known", () => {
+    const message = formatInspectedElement({
+      tagName: "div",
+      className: "",
+      text: "",
+    });
+
+    expect(message).toContain("- Element: <div>");
+    expect(message).not.toContain("Text:");
+    expect(message).not.toContain("Source:");
+  });
+});
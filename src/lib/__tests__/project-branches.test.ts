@@ -0,0 +1,24 @@
+import { test, expect } from "vitest";
+import { getBranchName } from "@/lib/project-branches";
+
+test("names a branch after its latest prompt", () => {
+  expect(
+    getBranchName([
+      { role: "user", content: "Create a button" },
+      { role: "assistant", content: "Done" },
+      { role: "user", content: "  Make it\n  red " },
+      { role: "assistant", content: "Done" },
+    ])
+  ).toBe("Make it red");
+});
+
+test("shortens long prompts", () => {
+  const name = getBranchName([{ role: "user", content: "a".repeat(100) }]);
+
+  expect(name).toHaveLength(60);
+  expect(name.endsWith("…")).toBe(true);
+});
+
+test("names a branch without prompts", () => {
+  expect(getBranchName([])).toBe("Empty conversation");
+});
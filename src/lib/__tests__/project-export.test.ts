@@ -0,0 +1,191 @@
+import { test, expect, describe } from "vitest";
+import { strFromU8, unzipSync } from "fflate";
+import {
+  buildViteProject,
+  createProjectZip,
+  inferDependencies,
+} from "../project-export";
+
+describe("inferDependencies", () => {
+  test("includes imported packages at their pinned versions", () => {
+    const files = new Map([
+      [
+        "/App.jsx",
+        [
+          "import { motion } from 'framer-motion';",
+          "import { Check } from 'lucide-react';",
+          "import Button from '@/components/Button';",
+          "import { format } from 'date-fns/format';",
+        ].join("\n"),
+      ],
+      [
+        "/package.json",
+        JSON.stringify({ dependencies: { "framer-motion": "11.2.0" } }),
+      ],
+    ]);
+
+    expect(inferDependencies(files)).toEqual({
+      "date-fns": "latest",
+      "framer-motion": "11.2.0",
+      "lucide-react": "latest",
+      react: "^19.0.0",
+      "react-dom": "^19.0.0",
+    });
+  });
+
+  test("takes versions from versioned specifiers", () => {
+    const files = new Map([
+      [
+        "/App.jsx",
+        [
+          "import debounce from 'lodash@4/debounce';",
+          "import { motion } from 'framer-motion@11.2.0';",
+          "import { Slot } from '@radix-ui/react-slot@1.1';",
+        ].join("\n"),
+      ],
+    ]);
+
+    expect(inferDependencies(files)).toEqual({
+      "@radix-ui/react-slot": "1.1",
+      "framer-motion": "11.2.0",
+      lodash: "4",
+      react: "^19.0.0",
+      "react-dom": "^19.0.0",
+    });
+  });
+
+  test("takes the highest version when files disagree", () => {
+    const files = new Map([
+      [
+        "/App.jsx",
+        [
+          "import { motion } from 'framer-motion@11.10.0';",
+          "import debounce from 'lodash@4.17.21/debounce';",
+        ].join("\n"),
+      ],
+      [
+        "/Card.jsx",
+        [
+          "import { motion } from 'framer-motion@11.2.0';",
+          "import throttle from 'lodash@4/throttle';",
+          "import { format } from 'date-fns@next';",
+        ].join("\n"),
+      ],
+      ["/Chart.jsx", "import { format } from 'date-fns@3.6.0';"],
+    ]);
+
+    expect(inferDependencies(files)).toEqual({
+      "date-fns": "3.6.0",
+      "framer-motion": "11.10.0",
+      lodash: "4.17.21",
+      react: "^19.0.0",
+      "react-dom": "^19.0.0",
+    });
+  });
+});
+
+describe("buildViteProject", () => {
+  const files = new Map([
+    [
+      "/App.jsx",
+      [
+        "import Card from '/components/Card';",
+        "import Button from '@/components/Button';",
+        "import './styles.css';",
+        "export default function App() { return <Card />; }",
+      ].join("\n"),
+    ],
+    ["/components/Card.jsx", "export default function Card() { return null; }"],
+    ["/styles.css", "body { margin: 0; }"],
+    ["/package.json", "{}"],
+  ]);
+
+  test("places project files under src and aliases absolute imports", () => {
+    const output = buildViteProject(files, "My Project");
+
+    expect(output["src/App.jsx"]).toContain("import Card from '@/components/Card';");
+    expect(output["src/App.jsx"]).toContain(
+      "import Button from '@/components/Button';"
+    );
+    expect(output["src/App.jsx"]).toContain("import './styles.css';");
+    expect(output["src/components/Card.jsx"]).toBeDefined();
+    expect(output["src/styles.css"]).toBe("body { margin: 0; }");
+    expect(output["src/package.json"]).toBeUndefined();
+  });
+
+  test("adds the Vite, Tailwind and entry files", () => {
+    const output = buildViteProject(files, "My Project");
+
+    expect(output["vite.config.js"]).toContain('"@": fileURLToPath(new URL("./src"');
+    expect(output["vite.config.js"]).toContain("tailwindcss()");
+    expect(output["src/index.css"]).toBe('@import "tailwindcss";\n');
+    expect(output["src/main.jsx"]).toContain('import App from "@/App";');
+    expect(output["src/main.jsx"]).toContain('import "@/index.css";');
+    expect(output["index.html"]).toContain('src="/src/main.jsx"');
+
+    const manifest = JSON.parse(output["package.json"]);
+    expect(manifest.name).toBe("my-project");
+    expect(manifest.scripts.dev).toBe("vite");
+    expect(manifest.devDependencies).toHaveProperty("vite");
+    expect(manifest.devDependencies).toHaveProperty("@tailwindcss/vite");
+  });
+
+  test("does not overwrite project files with generated ones", () => {
+    const output = buildViteProject(
+      new Map([
+        ["/App.jsx", "export default function App() { return null; }"],
+        ["/index.css", "h1 { color: red; }"],
+        ["/main.jsx", "export const main = true;"],
+      ]),
+      "app"
+    );
+
+    expect(output["src/index.css"]).toBe("h1 { color: red; }");
+    expect(output["src/main.jsx"]).toBe("export const main = true;");
+    expect(output["src/index-1.css"]).toBe('@import "tailwindcss";\n');
+    expect(output["src/main-1.jsx"]).toContain('import "@/index-1.css";');
+    expect(output["index.html"]).toContain('src="/src/main-1.jsx"');
+  });
+
+  test("removes versions from package imports", () => {
+    const output = buildViteProject(
+      new Map([
+        [
+          "/App.jsx",
+          [
+            "import debounce from 'lodash@4/debounce';",
+            'import { Slot } from "@radix-ui/react-slot@1.1";',
+            "const icons = import('lucide-react@0.400.0');",
+            "import Button from './Button@2';",
+          ].join("\n"),
+        ],
+      ]),
+      "app"
+    );
+
+    expect(output["src/App.jsx"]).toBe(
+      [
+        "import debounce from 'lodash/debounce';",
+        'import { Slot } from "@radix-ui/react-slot";',
+        "const icons = import('lucide-react');",
+        "import Button from './Button@2';",
+      ].join("\n")
+    );
+  });
+});
+
+describe("createProjectZip", () => {
+  test("zips the repository inside a folder named after the project", () => {
+    const zip = unzipSync(
+      createProjectZip(
+        new Map([["/App.jsx", "export default function App() { return null; }"]]),
+        "Landing Page"
+      )
+    );
+
+    expect(Object.keys(zip)).toContain("landing-page/package.json");
+    expect(strFromU8(zip["landing-page/src/App.jsx"])).toBe(
+      "export default function App() { return null; }"
+    );
+  });
+});
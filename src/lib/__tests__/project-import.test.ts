@@ -0,0 +1,107 @@
+import { test, expect, describe } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import {
+  isImportCandidate,
+  mergeImport,
+  normalizeUpload,
+  readZip,
+} from "../project-import";
+
+describe("normalizeUpload", () => {
+  test("keeps source files and drops the wrapping folder", () => {
+    const { files, skipped } = normalizeUpload([
+      { path: "my-components/Button.jsx", content: "button" },
+      { path: "my-components/ui/Card.tsx", content: "card" },
+      { path: "my-components/styles.css", content: "css" },
+      { path: "my-components/README.md", content: "readme" },
+      { path: "my-components/node_modules/x/index.js", content: "x" },
+      { path: "my-components/.hidden/a.js", content: "a" },
+    ]);
+
+    expect(files).toEqual({
+      "/Button.jsx": "button",
+      "/ui/Card.tsx": "card",
+      "/styles.css": "css",
+    });
+    expect(skipped).toEqual([
+      "my-components/node_modules/x/index.js",
+      "my-components/.hidden/a.js",
+      "my-components/README.md",
+    ]);
+  });
+
+  test("uses src as the root of a repository and keeps its manifest", () => {
+    const { files, skipped } = normalizeUpload([
+      { path: "app/package.json", content: "{}" },
+      { path: "app/vite.config.js", content: "config" },
+      { path: "app/src/App.jsx", content: "app" },
+      { path: "app/src/components/Card.jsx", content: "card" },
+    ]);
+
+    expect(files).toEqual({
+      "/package.json": "{}",
+      "/App.jsx": "app",
+      "/components/Card.jsx": "card",
+    });
+    expect(skipped).toEqual(["app/vite.config.js"]);
+  });
+
+  test("normalizes Windows separators", () => {
+    const { files } = normalizeUpload([
+      { path: "components\\Button.jsx", content: "button" },
+      { path: "App.jsx", content: "app" },
+    ]);
+
+    expect(Object.keys(files).sort()).toEqual(["/App.jsx", "/components/Button.jsx"]);
+  });
+});
+
+describe("isImportCandidate", () => {
+  test("accepts source files and manifests within the size limit", () => {
+    expect(isImportCandidate("src/App.tsx", 100)).toBe(true);
+    expect(isImportCandidate("app/package.json", 100)).toBe(true);
+    expect(isImportCandidate("logo.png", 100)).toBe(false);
+    expect(isImportCandidate("big.js", 10 * 1024 * 1024)).toBe(false);
+  });
+});
+
+describe("readZip", () => {
+  test("reads source files and reports the rest as skipped", () => {
+    const zip = zipSync({
+      "project/App.jsx": strToU8("app"),
+      "project/logo.png": new Uint8Array([1, 2, 3]),
+    });
+
+    expect(readZip(zip)).toEqual({
+      files: [{ path: "project/App.jsx", content: "app" }],
+      skipped: ["project/logo.png"],
+    });
+  });
+});
+
+describe("mergeImport", () => {
+  const existing = new Map([
+    ["/App.jsx", "current app"],
+    ["/Button.jsx", "same"],
+  ]);
+  const imported = {
+    "/App.jsx": "imported app",
+    "/Button.jsx": "same",
+    "/Card.jsx": "card",
+  };
+
+  test("keeps existing files on conflict unless asked to overwrite", () => {
+    expect(mergeImport(existing, imported, false)).toEqual({
+      files: {
+        "/App.jsx": "current app",
+        "/Button.jsx": "same",
+        "/Card.jsx": "card",
+      },
+      conflicts: ["/App.jsx"],
+    });
+
+    expect(mergeImport(existing, imported, true).files["/App.jsx"]).toBe(
+      "imported app"
+    );
+  });
+});
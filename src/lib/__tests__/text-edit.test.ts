@@ -0,0 +1,35 @@
+import { test, expect, describe } from "vitest";
+import { computeTextEdit, TextEdit } from "../text-edit";
+
+function apply(text: string, edit: TextEdit) {
+  return text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+}
+
+describe("computeTextEdit", () => {
+  test("returns null for equal texts", () => {
+    expect(computeTextEdit("same", "same")).toBeNull();
+  });
+
+  test("replaces only the changed middle", () => {
+    expect(computeTextEdit("const a = 1;", "const b = 1;")).toEqual({
+      start: 6,
+      end: 7,
+      text: "b",
+    });
+  });
+
+  test("handles insertions and deletions", () => {
+    expect(computeTextEdit("ac", "abc")).toEqual({ start: 1, end: 1, text: "b" });
+    expect(computeTextEdit("abc", "ac")).toEqual({ start: 1, end: 2, text: "" });
+    expect(computeTextEdit("", "new")).toEqual({ start: 0, end: 0, text: "new" });
+  });
+
+  test("does not let prefix and suffix overlap on repeated text", () => {
+    const before = "aaaa";
+    const after = "aaaaaa";
+    const edit = computeTextEdit(before, after)!;
+
+    expect(edit.end).toBeGreaterThanOrEqual(edit.start);
+    expect(apply(before, edit)).toBe(after);
+  });
+});
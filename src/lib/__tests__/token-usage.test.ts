@@ -0,0 +1,138 @@
+import { test, expect, describe } from "vitest";
+import type { Message } from "ai";
+import {
+  USAGE_ANNOTATION,
+  addUsage,
+  calculateCost,
+  createUsageAnnotation,
+  findUsage,
+  formatCost,
+  formatTokenCount,
+  getStepsUsage,
+} from "@/lib/token-usage";
+
+const usage = {
+  promptTokens: 1_000,
+  completionTokens: 500,
+  cacheReadTokens: 2_000,
+  cacheWriteTokens: 0,
+};
+
+describe("calculateCost", () => {
+  test("prices each kind of token", () => {
+    expect(
+      calculateCost(
+        {
+          promptTokens: 1_000_000,
+          completionTokens: 1_000_000,
+          cacheReadTokens: 1_000_000,
+          cacheWriteTokens: 1_000_000,
+        },
+        "claude-sonnet-4-0"
+      )
+    ).toBeCloseTo(22.05);
+  });
+
+  test("prices the mock provider as the model it stands in for", () => {
+    expect(calculateCost(usage, "mock-claude-sonnet-4-0")).toBe(
+      calculateCost(usage, "claude-sonnet-4-0")
+    );
+  });
+
+  test("is free for unknown models", () => {
+    expect(calculateCost(usage, "some-other-model")).toBe(0);
+  });
+});
+
+describe("getStepsUsage", () => {
+  test("sums the steps, with cache tokens from Anthropic's metadata", () => {
+    expect(
+      getStepsUsage([
+        {
+          usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+          providerMetadata: {
+            anthropic: { cacheCreationInputTokens: 900, cacheReadInputTokens: 0 },
+          },
+        },
+        {
+          usage: { promptTokens: 150, completionTokens: 30, totalTokens: 180 },
+          providerMetadata: {
+            anthropic: { cacheCreationInputTokens: 0, cacheReadInputTokens: 900 },
+          },
+        },
+      ])
+    ).toEqual({
+      promptTokens: 250,
+      completionTokens: 50,
+      cacheReadTokens: 900,
+      cacheWriteTokens: 900,
+    });
+  });
+
+  test("counts missing or unknown numbers as zero", () => {
+    expect(
+      getStepsUsage([
+        {
+          usage: { promptTokens: NaN, completionTokens: 10, totalTokens: NaN },
+          providerMetadata: undefined,
+        },
+      ])
+    ).toEqual({
+      promptTokens: 0,
+      completionTokens: 10,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+    });
+  });
+});
+
+describe("addUsage", () => {
+  test("adds each count", () => {
+    expect(addUsage(usage, usage)).toEqual({
+      promptTokens: 2_000,
+      completionTokens: 1_000,
+      cacheReadTokens: 4_000,
+      cacheWriteTokens: 0,
+    });
+  });
+});
+
+describe("findUsage", () => {
+  test("returns the usage annotation of a message", () => {
+    const annotation = createUsageAnnotation(usage, "claude-sonnet-4-0");
+    const message: Message = {
+      id: "1",
+      role: "assistant",
+      content: "Done",
+      annotations: [{ type: "history-summary" }, annotation],
+    };
+
+    expect(findUsage(message)).toEqual({
+      type: USAGE_ANNOTATION,
+      model: "claude-sonnet-4-0",
+      ...usage,
+      cost: calculateCost(usage, "claude-sonnet-4-0"),
+    });
+  });
+
+  test("returns null without one", () => {
+    expect(findUsage({ id: "1", role: "assistant", content: "Done" })).toBe(
+      null
+    );
+  });
+});
+
+describe("formatting", () => {
+  test("formats token counts", () => {
+    expect(formatTokenCount(950)).toBe("950");
+    expect(formatTokenCount(1_000)).toBe("1k");
+    expect(formatTokenCount(12_345)).toBe("12.3k");
+    expect(formatTokenCount(1_240_000)).toBe("1.2M");
+  });
+
+  test("formats costs in dollars", () => {
+    expect(formatCost(0)).toBe("$0.00");
+    expect(formatCost(0.004)).toBe("<$0.01");
+    expect(formatCost(1.234)).toBe("$1.23");
+  });
+});
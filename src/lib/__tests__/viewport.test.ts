@@ -0,0 +1,80 @@
+import { test, expect, describe, beforeEach } from "vitest";
+import {
+  DEFAULT_VIEWPORT,
+  clampViewportSize,
+  getViewportSize,
+  loadViewportSettings,
+  saveViewportSettings,
+} from "../viewport";
+
+describe("getViewportSize", () => {
+  test("fills the panel in responsive mode", () => {
+    expect(getViewportSize(DEFAULT_VIEWPORT)).toBeNull();
+  });
+
+  test("uses the device preset size", () => {
+    expect(getViewportSize({ ...DEFAULT_VIEWPORT, preset: "mobile" })).toEqual({
+      width: 375,
+      height: 667,
+    });
+  });
+
+  test("uses the custom size and swaps it when rotated", () => {
+    expect(
+      getViewportSize({
+        ...DEFAULT_VIEWPORT,
+        preset: "custom",
+        width: 500,
+        height: 900,
+        rotated: true,
+      })
+    ).toEqual({ width: 900, height: 500 });
+  });
+});
+
+describe("clampViewportSize", () => {
+  test("keeps sizes within bounds", () => {
+    expect(clampViewportSize(10)).toBe(200);
+    expect(clampViewportSize(10000)).toBe(3840);
+    expect(clampViewportSize(640.4)).toBe(640);
+    expect(clampViewportSize(NaN)).toBe(200);
+  });
+});
+
+describe("viewport persistence", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test("remembers settings per project", () => {
+    const tablet = { ...DEFAULT_VIEWPORT, preset: "tablet" as const, zoom: 0.5 };
+    saveViewportSettings("project-1", tablet);
+
+    expect(loadViewportSettings("project-1")).toEqual(tablet);
+    expect(loadViewportSettings("project-2")).toEqual(DEFAULT_VIEWPORT);
+  });
+
+  test("keeps anonymous settings separately", () => {
+    saveViewportSettings(undefined, { ...DEFAULT_VIEWPORT, preset: "desktop" });
+
+    expect(loadViewportSettings().preset).toBe("desktop");
+  });
+
+  test("ignores invalid stored values", () => {
+    localStorage.setItem(
+      "uigen_viewport:project-1",
+      JSON.stringify({ preset: "watch", width: 5, zoom: 3, rotated: "yes" })
+    );
+
+    expect(loadViewportSettings("project-1")).toEqual({
+      ...DEFAULT_VIEWPORT,
+      width: 200,
+    });
+  });
+
+  test("falls back to the defaults for malformed JSON", () => {
+    localStorage.setItem("uigen_viewport:project-1", "{");
+
+    expect(loadViewportSettings("project-1")).toEqual(DEFAULT_VIEWPORT);
+  });
+});
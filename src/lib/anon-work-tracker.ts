@@ -7,8 +7,13 @@ export function setHasAnonWork(messages: any[], fileSystemData: any) {
   
   // Only set if there's actual content
   if (messages.length > 0 || Object.keys(fileSystemData).length > 1) { // > 1 because root "/" always exists
-    sessionStorage.setItem(STORAGE_KEY, "true");
-    sessionStorage.setItem(DATA_KEY, JSON.stringify({ messages, fileSystemData }));
+    try {
+      sessionStorage.setItem(STORAGE_KEY, "true");
+      sessionStorage.setItem(DATA_KEY, JSON.stringify({ messages, fileSystemData }));
+    } catch (error) {
+      // Attached images can take the conversation past the storage quota
+      console.warn("Could not save anonymous work:", error);
+    }
   }
 }
 
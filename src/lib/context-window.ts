@@ -0,0 +1,192 @@
+import type { JSONValue, Message, ToolInvocation } from "ai";
+
+// Estimated input size, in tokens, that a request tries to stay under. The
+// model's window is larger, but every tool step of a turn adds to the input.
+export const CONTEXT_TOKEN_BUDGET = 80_000;
+
+// Estimated size of the latest messages that are kept when older ones are
+// summarized
+export const RECENT_TOKEN_BUDGET = 30_000;
+
+// Strings in earlier tool calls longer than this are left out of the history
+const MAX_TOOL_STRING_LENGTH = 400;
+
+const OMITTED_CONTENT =
+  "[Content omitted from the history. View the file for its current content.]";
+
+export const HISTORY_SUMMARY = "history-summary";
+
+// Stands in for the start of the conversation in requests to the model. It
+// is stored as an annotation on the first response that used it, so it is
+// a type alias, which unlike an interface is assignable to JSONValue.
+export type HistorySummary = {
+  type: typeof HISTORY_SUMMARY;
+  summary: string;
+  // Number of messages, from the start of the conversation, that it covers
+  messageCount: number;
+};
+
+// Anthropic bills an image by its dimensions, up to about this many tokens
+export const IMAGE_TOKENS = 1_600;
+
+// An attached image, or an image part of a model prompt
+function isImage(value: unknown): boolean {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { type, contentType } = value as Record<string, unknown>;
+  return (
+    type === "image" ||
+    (typeof contentType === "string" && contentType.startsWith("image/"))
+  );
+}
+
+// Rough token count, at about four characters a token for code and prose.
+// Images count at a fixed cost rather than by the length of their data.
+export function estimateTokens(value: unknown): number {
+  if (typeof value === "string") {
+    return Math.ceil(value.length / 4);
+  }
+
+  let images = 0;
+  const text = JSON.stringify(value, (_key, entry) => {
+    if (isImage(entry)) {
+      images++;
+      return undefined;
+    }
+    return entry;
+  });
+  return Math.ceil((text?.length ?? 0) / 4) + images * IMAGE_TOKENS;
+}
+
+function isHistorySummary(value: JSONValue): value is HistorySummary {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.type === HISTORY_SUMMARY &&
+    typeof value.summary === "string" &&
+    typeof value.messageCount === "number"
+  );
+}
+
+// The summary used by the latest request of the conversation, if any
+export function findHistorySummary(messages: Message[]): HistorySummary | null {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const summary = messages[index].annotations?.findLast(isHistorySummary);
+    if (summary) {
+      return summary;
+    }
+  }
+  return null;
+}
+
+// Lists the project's files without their contents, which the model reads
+// on demand
+export function formatFileIndex(files: Map<string, string>): string {
+  if (files.size === 0) {
+    return "The project has no files yet.";
+  }
+
+  const entries = Array.from(files)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([path, content]) => {
+      const lines = content.split("\n").length;
+      return `${path} (${lines} line${lines > 1 ? "s" : ""})`;
+    });
+
+  return [
+    "The project currently contains these files. Their contents are not included here: view a file with the str_replace_editor tool before changing it.",
+    ...entries,
+  ].join("\n");
+}
+
+export function formatHistorySummary(summary: HistorySummary): string {
+  return `Summary of the earlier conversation, which is no longer included:\n${summary.summary}`;
+}
+
+function pruneValue(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_TOOL_STRING_LENGTH ? OMITTED_CONTENT : value;
+  }
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, pruneValue(entry)])
+    );
+  }
+  return value;
+}
+
+function pruneToolInvocation(invocation: ToolInvocation): ToolInvocation {
+  const args = pruneValue(invocation.args);
+  return invocation.state === "result"
+    ? { ...invocation, args, result: pruneValue(invocation.result) }
+    : { ...invocation, args };
+}
+
+// File contents written or viewed before the latest user message are out of
+// date or can be viewed again, so they are left out of the history
+export function pruneToolCalls(messages: Message[]): Message[] {
+  const latestUser = messages.findLastIndex(
+    (message) => message.role === "user"
+  );
+
+  return messages.map((message, index) => {
+    if (index > latestUser || message.role !== "assistant") {
+      return message;
+    }
+    return {
+      ...message,
+      toolInvocations: message.toolInvocations?.map(pruneToolInvocation),
+      parts: message.parts?.map((part) =>
+        part.type === "tool-invocation"
+          ? { ...part, toolInvocation: pruneToolInvocation(part.toolInvocation) }
+          : part
+      ),
+    };
+  });
+}
+
+// Index of the first message kept when the ones before it are summarized.
+// The kept messages start with a user message and include at least the
+// latest one.
+export function findRecentStart(
+  messages: Message[],
+  budget: number = RECENT_TOKEN_BUDGET
+): number {
+  let start = messages.findLastIndex((message) => message.role === "user");
+  if (start <= 0) {
+    return 0;
+  }
+
+  let tokens = estimateTokens(messages.slice(start));
+  for (let index = start - 1; index >= 0; index--) {
+    tokens += estimateTokens(messages[index]);
+    if (tokens > budget) break;
+    if (messages[index].role === "user") {
+      start = index;
+    }
+  }
+  return start;
+}
+
+// Plain text version of the conversation for the summarizer
+export function formatTranscript(messages: Message[]): string {
+  return messages
+    .map((message) => {
+      const speaker = message.role === "user" ? "User" : "Assistant";
+      const toolCalls = (message.toolInvocations ?? []).map(
+        ({ toolName, args }) =>
+          [toolName, args?.command, args?.path].filter(Boolean).join(" ")
+      );
+      const images = message.experimental_attachments?.length ?? 0;
+      return [
+        `${speaker}: ${message.content}`,
+        images > 0 && `(attached ${images} image${images > 1 ? "s" : ""})`,
+        toolCalls.length > 0 && `(tool calls: ${toolCalls.join(", ")})`,
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n\n");
+}
@@ -1,5 +1,12 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
-import { render, screen, waitFor, act, cleanup } from "@testing-library/react";
+import {
+  render,
+  screen,
+  waitFor,
+  act,
+  cleanup,
+  fireEvent,
+} from "@testing-library/react";
 import { ChatProvider, useChat } from "../chat-context";
 import { useFileSystem } from "../file-system-context";
 import { useChat as useAIChat } from "@ai-sdk/react";
@@ -40,9 +47,14 @@ function TestComponent() {
 describe("ChatContext", () => {
   const mockFileSystem = {
     serialize: vi.fn(() => ({ "/test.js": { type: "file", content: "test" } })),
+    getAllFiles: vi.fn(() => new Map([["/test.js", "test"]])),
   };
 
   const mockHandleToolCall = vi.fn();
+  const mockStartTurn = vi.fn();
+  const mockRollbackTurn = vi.fn();
+  const mockReplaceFileSystem = vi.fn();
+  const mockMarkSaved = vi.fn();
 
   const mockUseAIChat = {
     messages: [],
@@ -58,6 +70,10 @@ describe("ChatContext", () => {
     (useFileSystem as any).mockReturnValue({
       fileSystem: mockFileSystem,
       handleToolCall: mockHandleToolCall,
+      startTurn: mockStartTurn,
+      rollbackTurn: mockRollbackTurn,
+      replaceFileSystem: mockReplaceFileSystem,
+      markSaved: mockMarkSaved,
     });
 
     (useAIChat as any).mockReturnValue(mockUseAIChat);
@@ -104,6 +120,7 @@ describe("ChatContext", () => {
         projectId: "test-project",
       },
       onToolCall: expect.any(Function),
+      onFinish: expect.any(Function),
     });
 
     expect(screen.getByTestId("messages").textContent).toBe("2");
@@ -196,4 +213,360 @@ describe("ChatContext", () => {
 
     expect(mockHandleToolCall).toHaveBeenCalledWith(toolCall);
   });
+
+  test("marks the files saved when a project's turn finishes", () => {
+    let onFinish: () => void = () => {};
+
+    (useAIChat as any).mockImplementation((config: any) => {
+      onFinish = config.onFinish;
+      return mockUseAIChat;
+    });
+
+    const { rerender } = render(
+      <ChatProvider>
+        <TestComponent />
+      </ChatProvider>
+    );
+    onFinish();
+    expect(mockMarkSaved).not.toHaveBeenCalled();
+
+    rerender(
+      <ChatProvider projectId="test-project">
+        <TestComponent />
+      </ChatProvider>
+    );
+    onFinish();
+    expect(mockMarkSaved).toHaveBeenCalledWith(
+      new Map([["/test.js", "test"]])
+    );
+  });
+
+  test("starts a new turn when a message is submitted", () => {
+    const mockHandleSubmit = vi.fn();
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      handleSubmit: mockHandleSubmit,
+    });
+
+    render(
+      <ChatProvider>
+        <TestComponent />
+      </ChatProvider>
+    );
+
+    fireEvent.submit(screen.getByTestId("form"));
+
+    expect(mockStartTurn).toHaveBeenCalled();
+    expect(mockHandleSubmit).toHaveBeenCalled();
+  });
+
+  test("sends the inspected element with the next message only", () => {
+    const mockHandleSubmit = vi.fn();
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      handleSubmit: mockHandleSubmit,
+    });
+
+    const element = { tagName: "button", className: "", text: "Save" };
+
+    function InspectComponent() {
+      const chat = useChat();
+      return (
+        <>
+          <button onClick={() => chat.setInspectedElement(element)}>
+            Pick
+          </button>
+          <div data-testid="inspected">{chat.inspectedElement?.tagName}</div>
+          <form data-testid="form" onSubmit={chat.handleSubmit}>
+            <button type="submit">Submit</button>
+          </form>
+        </>
+      );
+    }
+
+    render(
+      <ChatProvider>
+        <InspectComponent />
+      </ChatProvider>
+    );
+
+    fireEvent.click(screen.getByText("Pick"));
+    expect(screen.getByTestId("inspected").textContent).toBe("button");
+
+    fireEvent.submit(screen.getByTestId("form"));
+    expect(mockHandleSubmit).toHaveBeenLastCalledWith(expect.anything(), {
+      body: { inspectedElement: element },
+    });
+    expect(screen.getByTestId("inspected").textContent).toBe("");
+
+    fireEvent.submit(screen.getByTestId("form"));
+    expect(mockHandleSubmit).toHaveBeenLastCalledWith(
+      expect.anything(),
+      undefined
+    );
+  });
+
+  function ControlsComponent() {
+    const chat = useChat();
+    return (
+      <>
+        <button onClick={chat.stop}>Stop</button>
+        <button onClick={() => chat.regenerate()}>Regenerate</button>
+        <button onClick={() => chat.editLastMessage("Make it red")}>
+          Edit
+        </button>
+        <form data-testid="form" onSubmit={chat.handleSubmit}>
+          <button type="submit">Submit</button>
+        </form>
+      </>
+    );
+  }
+
+  const history = [
+    { id: "1", role: "user" as const, content: "Make a button" },
+    { id: "2", role: "assistant" as const, content: "Done" },
+    { id: "3", role: "user" as const, content: "Make it blue" },
+    { id: "4", role: "assistant" as const, content: "Working on it" },
+  ];
+
+  test("stopping rolls back the running turn", () => {
+    const mockStop = vi.fn();
+    const mockSetMessages = vi.fn();
+    const mockSetInput = vi.fn();
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      messages: history.slice(0, 2),
+      stop: mockStop,
+      setMessages: mockSetMessages,
+      setInput: mockSetInput,
+    });
+
+    const { rerender } = render(
+      <ChatProvider>
+        <ControlsComponent />
+      </ChatProvider>
+    );
+    fireEvent.submit(screen.getByTestId("form"));
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      messages: history,
+      stop: mockStop,
+      setMessages: mockSetMessages,
+      setInput: mockSetInput,
+    });
+    rerender(
+      <ChatProvider>
+        <ControlsComponent />
+      </ChatProvider>
+    );
+    fireEvent.click(screen.getByText("Stop"));
+
+    expect(mockStop).toHaveBeenCalled();
+    expect(mockRollbackTurn).toHaveBeenCalled();
+    expect(mockSetMessages).toHaveBeenCalledWith(history.slice(0, 2));
+    expect(mockSetInput).toHaveBeenCalledWith("Make it blue");
+  });
+
+  test("stopping after the turn finished keeps the messages", () => {
+    const mockStop = vi.fn();
+    const mockSetMessages = vi.fn();
+    let onFinish: () => void = () => {};
+
+    (useAIChat as any).mockImplementation((config: any) => {
+      onFinish = config.onFinish;
+      return {
+        ...mockUseAIChat,
+        messages: history,
+        stop: mockStop,
+        setMessages: mockSetMessages,
+      };
+    });
+
+    render(
+      <ChatProvider>
+        <ControlsComponent />
+      </ChatProvider>
+    );
+    fireEvent.submit(screen.getByTestId("form"));
+    onFinish();
+    fireEvent.click(screen.getByText("Stop"));
+
+    expect(mockStop).toHaveBeenCalled();
+    expect(mockRollbackTurn).not.toHaveBeenCalled();
+    expect(mockSetMessages).not.toHaveBeenCalled();
+  });
+
+  test("regenerates the last response from the rolled back files", () => {
+    const mockSetMessages = vi.fn();
+    const mockReload = vi.fn();
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      messages: history,
+      setMessages: mockSetMessages,
+      reload: mockReload,
+    });
+
+    render(
+      <ChatProvider>
+        <ControlsComponent />
+      </ChatProvider>
+    );
+    fireEvent.click(screen.getByText("Regenerate"));
+
+    expect(mockRollbackTurn).toHaveBeenCalled();
+    expect(mockStartTurn).toHaveBeenCalled();
+    expect(mockSetMessages).toHaveBeenCalledWith(history.slice(0, 3));
+    expect(mockReload).toHaveBeenCalledWith({
+      body: { files: mockFileSystem.serialize() },
+    });
+  });
+
+  test("regenerates from the files of a checkpoint when given one", () => {
+    const mockReload = vi.fn();
+    const checkpoint = {
+      "/App.jsx": { type: "file" as const, name: "App.jsx", path: "/App.jsx" },
+    };
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      messages: history,
+      setMessages: vi.fn(),
+      reload: mockReload,
+    });
+
+    function CheckpointComponent() {
+      const chat = useChat();
+      return (
+        <button onClick={() => chat.regenerate(checkpoint)}>Regenerate</button>
+      );
+    }
+
+    render(
+      <ChatProvider>
+        <CheckpointComponent />
+      </ChatProvider>
+    );
+    fireEvent.click(screen.getByText("Regenerate"));
+
+    expect(mockReplaceFileSystem).toHaveBeenCalledWith(checkpoint);
+    expect(mockRollbackTurn).not.toHaveBeenCalled();
+    expect(mockStartTurn).toHaveBeenCalled();
+    expect(mockReload).toHaveBeenCalled();
+  });
+
+  test("edits and resends the last user message", () => {
+    const mockSetMessages = vi.fn();
+    const mockAppend = vi.fn();
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      messages: history,
+      setMessages: mockSetMessages,
+      append: mockAppend,
+    });
+
+    render(
+      <ChatProvider>
+        <ControlsComponent />
+      </ChatProvider>
+    );
+    fireEvent.click(screen.getByText("Edit"));
+
+    expect(mockRollbackTurn).toHaveBeenCalled();
+    expect(mockSetMessages).toHaveBeenCalledWith(history.slice(0, 2));
+    expect(mockAppend).toHaveBeenCalledWith(
+      { role: "user", content: "Make it red" },
+      { body: { files: mockFileSystem.serialize() } }
+    );
+  });
+
+  test("sends a message after other history", () => {
+    const mockSetMessages = vi.fn();
+    const mockAppend = vi.fn();
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      messages: history,
+      setMessages: mockSetMessages,
+      append: mockAppend,
+    });
+
+    function BranchComponent() {
+      const chat = useChat();
+      return (
+        <button
+          onClick={() => chat.sendMessageAfter(history.slice(0, 2), "Try a card")}
+        >
+          Branch
+        </button>
+      );
+    }
+
+    render(
+      <ChatProvider>
+        <BranchComponent />
+      </ChatProvider>
+    );
+    fireEvent.click(screen.getByText("Branch"));
+
+    expect(mockStartTurn).toHaveBeenCalled();
+    expect(mockRollbackTurn).not.toHaveBeenCalled();
+    expect(mockSetMessages).toHaveBeenCalledWith(history.slice(0, 2));
+    expect(mockAppend).toHaveBeenCalledWith(
+      { role: "user", content: "Try a card" },
+      { body: { files: mockFileSystem.serialize() } }
+    );
+  });
+
+  test("sends the attached images with the next message only", () => {
+    const mockHandleSubmit = vi.fn();
+    const image = {
+      name: "mockup.png",
+      contentType: "image/png",
+      url: "data:image/png;base64,cG5n",
+    };
+
+    (useAIChat as any).mockReturnValue({
+      ...mockUseAIChat,
+      handleSubmit: mockHandleSubmit,
+    });
+
+    function AttachComponent() {
+      const chat = useChat();
+      return (
+        <>
+          <button onClick={() => chat.setAttachments([image])}>Attach</button>
+          <div data-testid="attachments">{chat.attachments.length}</div>
+          <form data-testid="form" onSubmit={chat.handleSubmit}>
+            <button type="submit">Submit</button>
+          </form>
+        </>
+      );
+    }
+
+    render(
+      <ChatProvider>
+        <AttachComponent />
+      </ChatProvider>
+    );
+
+    fireEvent.click(screen.getByText("Attach"));
+    fireEvent.submit(screen.getByTestId("form"));
+    expect(mockHandleSubmit).toHaveBeenLastCalledWith(expect.anything(), {
+      experimental_attachments: [image],
+      allowEmptySubmit: true,
+    });
+    expect(screen.getByTestId("attachments").textContent).toBe("0");
+
+    fireEvent.submit(screen.getByTestId("form"));
+    expect(mockHandleSubmit).toHaveBeenLastCalledWith(
+      expect.anything(),
+      undefined
+    );
+  });
 });
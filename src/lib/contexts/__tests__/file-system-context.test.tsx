@@ -10,6 +10,7 @@ vi.mock("@/lib/file-system", () => ({
 
 const mockFileSystem = {
   createFile: vi.fn(),
+  createDirectory: vi.fn(),
   updateFile: vi.fn(),
   deleteFile: vi.fn(),
   rename: vi.fn(),
@@ -18,8 +19,11 @@ const mockFileSystem = {
   createFileWithParents: vi.fn(),
   replaceInFile: vi.fn(),
   insertInFile: vi.fn(),
+  undoEdit: vi.fn(),
   getNode: vi.fn(),
   serialize: vi.fn(() => ({})),
+  deserializeFromNodes: vi.fn(),
+  deserialize: vi.fn(),
 };
 
 beforeEach(() => {
@@ -110,6 +114,37 @@ test("deleteFile clears selectedFile if it matches deleted file", () => {
   expect(result.current.selectedFile).toBeNull();
 });
 
+test("deleteFile clears selectedFile if it is inside a deleted directory", () => {
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.setSelectedFile("/components/Button.jsx");
+  });
+
+  act(() => {
+    result.current.deleteFile("/components");
+  });
+
+  expect(result.current.selectedFile).toBeNull();
+});
+
+test("createDirectory calls fileSystem method and triggers refresh", () => {
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+
+  act(() => {
+    result.current.createDirectory("/components");
+  });
+
+  expect(mockFileSystem.createDirectory).toHaveBeenCalledWith("/components");
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+});
+
 test("renameFile updates selectedFile when renaming selected file", () => {
   mockFileSystem.rename.mockReturnValue(true);
 
@@ -406,6 +441,53 @@ test("handles str_replace_editor insert command with error", () => {
   expect(mockFileSystem.updateFile).not.toHaveBeenCalled();
 });
 
+test("handles str_replace_editor undo_edit command", () => {
+  mockFileSystem.undoEdit.mockReturnValue("Last edit to /test.js undone successfully");
+  mockFileSystem.readFile.mockReturnValue("previous content");
+  mockFileSystem.updateFile.mockReturnValue(true);
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: {
+        command: "undo_edit",
+        path: "/test.js",
+      },
+    });
+  });
+
+  expect(mockFileSystem.undoEdit).toHaveBeenCalledWith("/test.js");
+  expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/test.js", "previous content");
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+});
+
+test("handles str_replace_editor undo_edit command with error", () => {
+  mockFileSystem.undoEdit.mockReturnValue("Error: No edit history found for /test.js");
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: {
+        command: "undo_edit",
+        path: "/test.js",
+      },
+    });
+  });
+
+  expect(mockFileSystem.readFile).not.toHaveBeenCalled();
+  expect(mockFileSystem.updateFile).not.toHaveBeenCalled();
+});
+
 test("handles file_manager rename command", () => {
   mockFileSystem.rename.mockReturnValue(true);
 
@@ -505,4 +587,156 @@ test("handles null file content when updating file", () => {
   });
 
   expect(mockFileSystem.updateFile).not.toHaveBeenCalled();
-});
\ No newline at end of file
+});
+test("replaceFileSystem loads new data and clears the selection", () => {
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.setSelectedFile("/old.js");
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+  const data = {
+    "/App.jsx": { type: "file" as const, name: "App.jsx", path: "/App.jsx" },
+  };
+
+  act(() => {
+    result.current.replaceFileSystem(data);
+  });
+
+  expect(mockFileSystem.deserializeFromNodes).toHaveBeenCalledWith(data);
+  expect(result.current.selectedFile).toBeNull();
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+});
+
+test("replaceFiles loads plain file contents and clears the selection", () => {
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.setSelectedFile("/old.js");
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+  const files = { "/App.jsx": "export default function App() {}" };
+
+  act(() => {
+    result.current.replaceFiles(files);
+  });
+
+  expect(mockFileSystem.deserialize).toHaveBeenCalledWith(files);
+  expect(result.current.selectedFile).toBeNull();
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+});
+
+test("selecting files opens them as tabs", () => {
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.setSelectedFile("/App.jsx");
+  });
+  act(() => {
+    result.current.setSelectedFile("/Card.jsx");
+  });
+  act(() => {
+    result.current.setSelectedFile("/App.jsx");
+  });
+
+  expect(result.current.openFiles).toEqual(["/App.jsx", "/Card.jsx"]);
+});
+
+test("closeFile selects the neighbouring tab", () => {
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  for (const path of ["/a.jsx", "/b.jsx", "/c.jsx"]) {
+    act(() => {
+      result.current.setSelectedFile(path);
+    });
+  }
+  act(() => {
+    result.current.setSelectedFile("/b.jsx");
+  });
+  act(() => {
+    result.current.closeFile("/b.jsx");
+  });
+
+  expect(result.current.openFiles).toEqual(["/a.jsx", "/c.jsx"]);
+  expect(result.current.selectedFile).toBe("/c.jsx");
+});
+
+test("closing the last tab leaves the editor empty", () => {
+  mockFileSystem.getAllFiles.mockReturnValue(new Map([["/App.jsx", ""]]));
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  expect(result.current.openFiles).toEqual(["/App.jsx"]);
+
+  act(() => {
+    result.current.closeFile("/App.jsx");
+  });
+
+  expect(result.current.openFiles).toEqual([]);
+  expect(result.current.selectedFile).toBeNull();
+});
+
+test("renaming and deleting files updates their tabs", () => {
+  mockFileSystem.rename.mockReturnValue(true);
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  for (const path of ["/components/Button.jsx", "/App.jsx"]) {
+    act(() => {
+      result.current.setSelectedFile(path);
+    });
+  }
+
+  act(() => {
+    result.current.renameFile("/components", "/ui");
+  });
+  expect(result.current.openFiles).toEqual(["/ui/Button.jsx", "/App.jsx"]);
+
+  act(() => {
+    result.current.deleteFile("/ui");
+  });
+  expect(result.current.openFiles).toEqual(["/App.jsx"]);
+});
+
+test("dirtyFiles lists files changed since they were last saved", () => {
+  mockFileSystem.getAllFiles.mockReturnValue(
+    new Map([
+      ["/App.jsx", "app"],
+      ["/Card.jsx", "card"],
+    ])
+  );
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  expect(result.current.dirtyFiles.size).toBe(0);
+
+  const edited = new Map([
+    ["/App.jsx", "app edited"],
+    ["/Card.jsx", "card"],
+  ]);
+  mockFileSystem.getAllFiles.mockReturnValue(edited);
+  act(() => {
+    result.current.updateFile("/App.jsx", "app edited");
+  });
+
+  expect(Array.from(result.current.dirtyFiles)).toEqual(["/App.jsx"]);
+
+  act(() => {
+    result.current.markSaved(new Map(edited));
+  });
+
+  expect(result.current.dirtyFiles.size).toBe(0);
+});
@@ -0,0 +1,280 @@
+import { test, expect, afterEach } from "vitest";
+import { renderHook, act, cleanup } from "@testing-library/react";
+import { FileSystemProvider, useFileSystem } from "../file-system-context";
+import { VirtualFileSystem } from "@/lib/file-system";
+
+afterEach(() => {
+  cleanup();
+});
+
+function renderWithFiles(files: Record<string, string>) {
+  const fileSystem = new VirtualFileSystem();
+  for (const [path, content] of Object.entries(files)) {
+    fileSystem.createFile(path, content);
+  }
+  const hook = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => (
+      <FileSystemProvider fileSystem={fileSystem}>{children}</FileSystemProvider>
+    ),
+  });
+  return { fileSystem, ...hook };
+}
+
+test("tracks files changed by tool calls", () => {
+  const { result } = renderWithFiles({ "/App.jsx": "old" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "old", new_str: "new" },
+    });
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "create", path: "/Button.jsx", file_text: "button" },
+    });
+  });
+
+  expect(result.current.pendingChanges).toEqual([
+    { path: "/App.jsx", before: "old", after: "new" },
+    { path: "/Button.jsx", before: null, after: "button" },
+  ]);
+});
+
+test("compares against the content before the first edit of the turn", () => {
+  const { result } = renderWithFiles({ "/App.jsx": "v1" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "v1", new_str: "v2" },
+    });
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "v2", new_str: "v3" },
+    });
+  });
+
+  expect(result.current.pendingChanges).toEqual([
+    { path: "/App.jsx", before: "v1", after: "v3" },
+  ]);
+});
+
+test("ignores view commands and edits that end up unchanged", () => {
+  const { result } = renderWithFiles({ "/App.jsx": "same" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "view", path: "/App.jsx" },
+    });
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "same", new_str: "other" },
+    });
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "other", new_str: "same" },
+    });
+  });
+
+  expect(result.current.pendingChanges).toEqual([]);
+});
+
+test("acceptChange keeps the new content and drops it from review", () => {
+  const { result, fileSystem } = renderWithFiles({ "/App.jsx": "old" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "old", new_str: "new" },
+    });
+  });
+  act(() => {
+    result.current.acceptChange("/App.jsx");
+  });
+
+  expect(result.current.pendingChanges).toEqual([]);
+  expect(fileSystem.readFile("/App.jsx")).toBe("new");
+});
+
+test("rejectChange restores modified, created and deleted files", () => {
+  const { result, fileSystem } = renderWithFiles({
+    "/App.jsx": "old",
+    "/Old.jsx": "old file",
+  });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "old", new_str: "new" },
+    });
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "create", path: "/Button.jsx", file_text: "button" },
+    });
+    result.current.handleToolCall({
+      toolName: "file_manager",
+      args: { command: "delete", path: "/Old.jsx" },
+    });
+  });
+
+  expect(result.current.pendingChanges).toHaveLength(3);
+
+  act(() => {
+    result.current.rejectChange("/App.jsx");
+    result.current.rejectChange("/Button.jsx");
+    result.current.rejectChange("/Old.jsx");
+  });
+
+  expect(result.current.pendingChanges).toEqual([]);
+  expect(fileSystem.readFile("/App.jsx")).toBe("old");
+  expect(fileSystem.exists("/Button.jsx")).toBe(false);
+  expect(fileSystem.readFile("/Old.jsx")).toBe("old file");
+});
+
+test("renames show up as a deletion and an addition", () => {
+  const { result } = renderWithFiles({ "/components/Card.jsx": "card" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "file_manager",
+      args: { command: "rename", path: "/components", new_path: "/ui" },
+    });
+  });
+
+  expect(result.current.pendingChanges).toEqual([
+    { path: "/components/Card.jsx", before: "card", after: null },
+    { path: "/ui/Card.jsx", before: null, after: "card" },
+  ]);
+});
+
+test("rejectAllChanges and clearChangeReview empty the review", () => {
+  const { result, fileSystem } = renderWithFiles({ "/App.jsx": "old" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "old", new_str: "new" },
+    });
+  });
+  act(() => {
+    result.current.rejectAllChanges();
+  });
+
+  expect(fileSystem.readFile("/App.jsx")).toBe("old");
+  expect(result.current.pendingChanges).toEqual([]);
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "old", new_str: "newer" },
+    });
+  });
+  act(() => {
+    result.current.clearChangeReview();
+  });
+
+  expect(result.current.pendingChanges).toEqual([]);
+  expect(fileSystem.readFile("/App.jsx")).toBe("newer");
+});
+
+test("tracks package.json changes made by the dependency manager", () => {
+  const { result, fileSystem } = renderWithFiles({ "/App.jsx": "app" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "dependency_manager",
+      args: { command: "add", name: "clsx", version: "2.1.1" },
+    });
+  });
+
+  const manifest = fileSystem.readFile("/package.json");
+  expect(JSON.parse(manifest!).dependencies).toEqual({ clsx: "2.1.1" });
+  expect(result.current.pendingChanges).toEqual([
+    { path: "/package.json", before: null, after: manifest },
+  ]);
+});
+
+test("rollbackTurn undoes the turn even after its review was accepted", () => {
+  const { result, fileSystem } = renderWithFiles({
+    "/App.jsx": "old",
+    "/Old.jsx": "old file",
+  });
+
+  act(() => {
+    result.current.startTurn();
+  });
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "old", new_str: "new" },
+    });
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "create", path: "/Button.jsx", file_text: "button" },
+    });
+    result.current.handleToolCall({
+      toolName: "file_manager",
+      args: { command: "delete", path: "/Old.jsx" },
+    });
+  });
+  act(() => {
+    result.current.acceptAllChanges();
+  });
+  act(() => {
+    result.current.rollbackTurn();
+  });
+
+  expect(Object.fromEntries(fileSystem.getAllFiles())).toEqual({
+    "/App.jsx": "old",
+    "/Old.jsx": "old file",
+  });
+  expect(result.current.pendingChanges).toEqual([]);
+});
+
+test("startTurn forgets the previous turn", () => {
+  const { result, fileSystem } = renderWithFiles({ "/App.jsx": "v1" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "v1", new_str: "v2" },
+    });
+  });
+  act(() => {
+    result.current.startTurn();
+  });
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "v2", new_str: "v3" },
+    });
+  });
+  act(() => {
+    result.current.rollbackTurn();
+  });
+
+  expect(fileSystem.readFile("/App.jsx")).toBe("v2");
+});
+
+test("startTurn forgets edits from earlier turns for undo_edit", () => {
+  const { result, fileSystem } = renderWithFiles({ "/App.jsx": "v1" });
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "str_replace", path: "/App.jsx", old_str: "v1", new_str: "v2" },
+    });
+  });
+  act(() => {
+    result.current.startTurn();
+  });
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "undo_edit", path: "/App.jsx" },
+    });
+  });
+
+  expect(fileSystem.readFile("/App.jsx")).toBe("v2");
+});
@@ -5,11 +5,16 @@ import {
   useContext,
   ReactNode,
   useEffect,
+  useCallback,
+  useRef,
+  useState,
 } from "react";
 import { useChat as useAIChat } from "@ai-sdk/react";
-import { Message } from "ai";
+import { Attachment, Message } from "ai";
 import { useFileSystem } from "./file-system-context";
 import { setHasAnonWork } from "@/lib/anon-work-tracker";
+import { InspectedElement } from "@/lib/preview-messages";
+import { FileNode } from "@/lib/file-system";
 
 interface ChatContextProps {
   projectId?: string;
@@ -22,6 +27,32 @@ interface ChatContextType {
   handleInputChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit: (e: React.FormEvent<HTMLFormElement>) => void;
   status: string;
+  setMessages: (messages: Message[]) => void;
+  sendMessage: (content: string) => void;
+  // Abort the running generation and undo its turn
+  stop: () => void;
+  // Replace the last response with a new one. Given the files of the
+  // project's checkpoint before the last user message, it starts from
+  // those; otherwise it undoes the turn as far as this session knows it.
+  regenerate: (checkpoint?: Record<string, FileNode>) => void;
+  // Replace the last user message and resend it, starting from the
+  // checkpoint's files like regenerate
+  editLastMessage: (
+    content: string,
+    checkpoint?: Record<string, FileNode>
+  ) => void;
+  // Send a message after other history, e.g. at the start of a new branch
+  sendMessageAfter: (
+    history: Message[],
+    content: string,
+    attachments?: Attachment[]
+  ) => void;
+  // Element picked in the preview, sent along with the next submitted message
+  inspectedElement: InspectedElement | null;
+  setInspectedElement: (element: InspectedElement | null) => void;
+  // Images sent along with the next submitted message
+  attachments: Attachment[];
+  setAttachments: (attachments: Attachment[]) => void;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
@@ -31,14 +62,31 @@ export function ChatProvider({
   projectId,
   initialMessages = [],
 }: ChatContextProps & { children: ReactNode }) {
-  const { fileSystem, handleToolCall } = useFileSystem();
+  const {
+    fileSystem,
+    handleToolCall,
+    startTurn,
+    rollbackTurn,
+    replaceFileSystem,
+    markSaved,
+  } = useFileSystem();
+  const [inspectedElement, setInspectedElement] =
+    useState<InspectedElement | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Index of the user message that started the running turn
+  const turnStart = useRef<number | null>(null);
 
   const {
     messages,
     input,
     handleInputChange,
-    handleSubmit,
+    handleSubmit: submitToAI,
     status,
+    setMessages,
+    setInput,
+    append,
+    reload,
+    stop: stopAI,
   } = useAIChat({
     api: "/api/chat",
     initialMessages,
@@ -49,8 +97,133 @@ export function ChatProvider({
     onToolCall: ({ toolCall }) => {
       handleToolCall(toolCall);
     },
+    onFinish: () => {
+      turnStart.current = null;
+      // The chat route saves a finished turn's files to the project
+      if (projectId) {
+        markSaved(fileSystem.getAllFiles());
+      }
+    },
   });
 
+  // Starting a new turn accepts whatever is left from the previous review
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    startTurn();
+    turnStart.current = messages.length;
+    submitToAI(
+      e,
+      inspectedElement || attachments.length > 0
+        ? {
+            ...(inspectedElement && { body: { inspectedElement } }),
+            ...(attachments.length > 0 && {
+              experimental_attachments: attachments,
+              // Images can be sent without a prompt
+              allowEmptySubmit: true,
+            }),
+          }
+        : undefined
+    );
+    setInspectedElement(null);
+    setAttachments([]);
+  };
+
+  // Send a message on the user's behalf, e.g. to ask for an error fix
+  const sendMessage = useCallback(
+    (content: string) => {
+      startTurn();
+      turnStart.current = messages.length;
+      append({ role: "user", content });
+    },
+    [startTurn, messages.length, append]
+  );
+
+  // The server only saves finished turns, so an aborted one is undone here
+  // too: its files are rolled back and its message goes back to the input
+  const stop = useCallback(() => {
+    stopAI();
+    const index = turnStart.current;
+    turnStart.current = null;
+    if (index === null) return;
+
+    rollbackTurn();
+    const message = messages[index];
+    setMessages(messages.slice(0, index));
+    if (message?.role === "user") {
+      setInput(message.content);
+      setAttachments(message.experimental_attachments ?? []);
+    }
+  }, [stopAI, rollbackTurn, messages, setMessages, setInput]);
+
+  const lastUserIndex = messages.findLastIndex(
+    (message) => message.role === "user"
+  );
+
+  // Undo the files of the last turn so the new response starts from the
+  // same files as the one it replaces. Without a checkpoint only a turn
+  // that ran in this session can be undone.
+  const rewindLastTurn = useCallback(
+    (checkpoint?: Record<string, FileNode>) => {
+      if (checkpoint) {
+        replaceFileSystem(checkpoint);
+      } else {
+        rollbackTurn();
+      }
+    },
+    [replaceFileSystem, rollbackTurn]
+  );
+
+  const regenerate = useCallback(
+    (checkpoint?: Record<string, FileNode>) => {
+      if (lastUserIndex === -1) return;
+      rewindLastTurn(checkpoint);
+      startTurn();
+      turnStart.current = lastUserIndex;
+      setMessages(messages.slice(0, lastUserIndex + 1));
+      reload({ body: { files: fileSystem.serialize() } });
+    },
+    [
+      lastUserIndex,
+      rewindLastTurn,
+      startTurn,
+      messages,
+      setMessages,
+      reload,
+      fileSystem,
+    ]
+  );
+
+  // Sent with the current files, which may have just been rolled back or
+  // replaced and so differ from those the hook was rendered with
+  const sendMessageAfter = useCallback(
+    (history: Message[], content: string, attachments?: Attachment[]) => {
+      startTurn();
+      turnStart.current = history.length;
+      setMessages(history);
+      append(
+        { role: "user", content },
+        {
+          body: { files: fileSystem.serialize() },
+          experimental_attachments: attachments,
+        }
+      );
+    },
+    [startTurn, setMessages, append, fileSystem]
+  );
+
+  const editLastMessage = useCallback(
+    (content: string, checkpoint?: Record<string, FileNode>) => {
+      if (lastUserIndex === -1) return;
+      rewindLastTurn(checkpoint);
+      // The edit only changes the text, so the images stay attached
+      sendMessageAfter(
+        messages.slice(0, lastUserIndex),
+        content,
+        messages[lastUserIndex].experimental_attachments
+      );
+    },
+    [lastUserIndex, rewindLastTurn, sendMessageAfter, messages]
+  );
+
   // Track anonymous work
   useEffect(() => {
     if (!projectId && messages.length > 0) {
@@ -66,6 +239,16 @@ export function ChatProvider({
         handleInputChange,
         handleSubmit,
         status,
+        setMessages,
+        sendMessage,
+        stop,
+        regenerate,
+        editLastMessage,
+        sendMessageAfter,
+        inspectedElement,
+        setInspectedElement,
+        attachments,
+        setAttachments,
       }}
     >
       {children}
@@ -6,19 +6,50 @@ import React, {
   useState,
   useCallback,
   useEffect,
+  useMemo,
+  useRef,
 } from "react";
 import { VirtualFileSystem, FileNode } from "@/lib/file-system";
+import {
+  PACKAGE_MANIFEST_PATH,
+  applyDependencyChange,
+} from "@/lib/package-manifest";
 
 interface ToolCall {
   toolName: string;
   args: any;
 }
 
+export interface FileChange {
+  path: string;
+  // null when the file did not exist before / no longer exists after the turn
+  before: string | null;
+  after: string | null;
+}
+
+// A cursor position the code editor should move to. Line and column are
+// 1-based.
+export interface EditorLocation {
+  path: string;
+  line: number;
+  column: number;
+}
+
 interface FileSystemContextType {
   fileSystem: VirtualFileSystem;
   selectedFile: string | null;
   setSelectedFile: (path: string | null) => void;
+  // Files open as editor tabs, in tab order
+  openFiles: string[];
+  closeFile: (path: string) => void;
+  // Files whose content differs from what was last saved to the project
+  dirtyFiles: Set<string>;
+  markSaved: (files: Map<string, string>) => void;
+  editorLocation: EditorLocation | null;
+  openFileAt: (path: string, line: number, column?: number) => void;
+  clearEditorLocation: () => void;
   createFile: (path: string, content?: string) => void;
+  createDirectory: (path: string) => void;
   updateFile: (path: string, content: string) => void;
   deleteFile: (path: string) => void;
   renameFile: (oldPath: string, newPath: string) => boolean;
@@ -27,6 +58,16 @@ interface FileSystemContextType {
   refreshTrigger: number;
   handleToolCall: (toolCall: ToolCall) => void;
   reset: () => void;
+  replaceFileSystem: (data: Record<string, FileNode>) => void;
+  replaceFiles: (files: Record<string, string>) => void;
+  pendingChanges: FileChange[];
+  acceptChange: (path: string) => void;
+  rejectChange: (path: string) => void;
+  acceptAllChanges: () => void;
+  rejectAllChanges: () => void;
+  clearChangeReview: () => void;
+  startTurn: () => void;
+  rollbackTurn: () => void;
 }
 
 const FileSystemContext = createContext<FileSystemContextType | undefined>(
@@ -50,14 +91,34 @@ export function FileSystemProvider({
     return fs;
   });
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [openFiles, setOpenFiles] = useState<string[]>([]);
+  const [savedFiles, setSavedFiles] = useState(() => fileSystem.getAllFiles());
+  // Cleared when the user closes every tab, so no file is reopened for them
+  const autoSelect = useRef(true);
+  const [editorLocation, setEditorLocation] = useState<EditorLocation | null>(
+    null
+  );
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  // Contents of every file as of the last refresh, from which the values
+  // below are derived
+  const [files, setFiles] = useState(() => fileSystem.getAllFiles());
+
+  // Contents of every file touched by the AI in the current turn, captured
+  // before its first edit, so the turn's changes can be reviewed
+  const [turnBaseline, setTurnBaseline] = useState<
+    Map<string, string | null>
+  >(() => new Map());
+  // The same contents, but kept when the review is accepted or rejected, so
+  // the whole turn can still be undone when it is stopped or regenerated
+  const turnSnapshot = useRef<Map<string, string | null>>(new Map());
 
   const triggerRefresh = useCallback(() => {
     setRefreshTrigger((prev) => prev + 1);
-  }, []);
+    setFiles(fileSystem.getAllFiles());
+  }, [fileSystem]);
 
   useEffect(() => {
-    if (!selectedFile) {
+    if (!selectedFile && autoSelect.current) {
       const files = fileSystem.getAllFiles();
 
       // Check if App.jsx exists
@@ -79,6 +140,45 @@ export function FileSystemProvider({
     }
   }, [selectedFile, fileSystem, refreshTrigger]);
 
+  // Selecting a file opens it in a tab
+  useEffect(() => {
+    if (selectedFile) {
+      autoSelect.current = true;
+      setOpenFiles((prev) =>
+        prev.includes(selectedFile) ? prev : [...prev, selectedFile]
+      );
+    }
+  }, [selectedFile]);
+
+  // Close a tab, moving the selection to its neighbour
+  const closeFile = useCallback(
+    (path: string) => {
+      const remaining = openFiles.filter((openFile) => openFile !== path);
+      setOpenFiles(remaining);
+      if (selectedFile === path) {
+        const index = openFiles.indexOf(path);
+        const next = remaining[Math.min(index, remaining.length - 1)] ?? null;
+        autoSelect.current = next !== null;
+        setSelectedFile(next);
+      }
+    },
+    [openFiles, selectedFile]
+  );
+
+  // Select a file and ask the editor to put the cursor at a position. The
+  // editor clears the request once it has moved the cursor.
+  const openFileAt = useCallback(
+    (path: string, line: number, column: number = 1) => {
+      setSelectedFile(path);
+      setEditorLocation({ path, line, column });
+    },
+    []
+  );
+
+  const clearEditorLocation = useCallback(() => {
+    setEditorLocation(null);
+  }, []);
+
   const createFile = useCallback(
     (path: string, content: string = "") => {
       fileSystem.createFile(path, content);
@@ -87,6 +187,14 @@ export function FileSystemProvider({
     [fileSystem, triggerRefresh]
   );
 
+  const createDirectory = useCallback(
+    (path: string) => {
+      fileSystem.createDirectory(path);
+      triggerRefresh();
+    },
+    [fileSystem, triggerRefresh]
+  );
+
   const updateFile = useCallback(
     (path: string, content: string) => {
       fileSystem.updateFile(path, content);
@@ -98,9 +206,15 @@ export function FileSystemProvider({
   const deleteFile = useCallback(
     (path: string) => {
       fileSystem.deleteFile(path);
-      if (selectedFile === path) {
+      // Also clear the selection when it was inside a deleted directory
+      if (selectedFile === path || selectedFile?.startsWith(path + "/")) {
         setSelectedFile(null);
       }
+      setOpenFiles((prev) =>
+        prev.filter(
+          (openFile) => openFile !== path && !openFile.startsWith(path + "/")
+        )
+      );
       triggerRefresh();
     },
     [fileSystem, selectedFile, triggerRefresh]
@@ -118,6 +232,13 @@ export function FileSystemProvider({
           const relativePath = selectedFile.substring(oldPath.length);
           setSelectedFile(newPath + relativePath);
         }
+        setOpenFiles((prev) =>
+          prev.map((openFile) =>
+            openFile === oldPath || openFile.startsWith(oldPath + "/")
+              ? newPath + openFile.substring(oldPath.length)
+              : openFile
+          )
+        );
         triggerRefresh();
       }
       return success;
@@ -137,15 +258,84 @@ export function FileSystemProvider({
   }, [fileSystem]);
 
   const reset = useCallback(() => {
+    setTurnBaseline(new Map());
+    turnSnapshot.current.clear();
     fileSystem.reset();
+    autoSelect.current = true;
     setSelectedFile(null);
+    setOpenFiles([]);
     triggerRefresh();
   }, [fileSystem, triggerRefresh]);
 
+  // Load plain path -> content pairs, e.g. from an imported zip
+  const replaceFiles = useCallback(
+    (files: Record<string, string>) => {
+      setTurnBaseline(new Map());
+      turnSnapshot.current.clear();
+      fileSystem.deserialize(files);
+      autoSelect.current = true;
+      setSelectedFile(null);
+      setOpenFiles([]);
+      triggerRefresh();
+    },
+    [fileSystem, triggerRefresh]
+  );
+
+  const replaceFileSystem = useCallback(
+    (data: Record<string, FileNode>) => {
+      setTurnBaseline(new Map());
+      turnSnapshot.current.clear();
+      fileSystem.deserializeFromNodes(data);
+      // Restored data comes from the project, so it is already saved
+      setSavedFiles(fileSystem.getAllFiles());
+      autoSelect.current = true;
+      setSelectedFile(null);
+      setOpenFiles([]);
+      triggerRefresh();
+    },
+    [fileSystem, triggerRefresh]
+  );
+
+  const recordBaseline = useCallback(
+    (path: string, node: FileNode | null = fileSystem.getNode(path)) => {
+      if (node?.type === "directory") {
+        node.children?.forEach((child) => recordBaseline(child.path, child));
+        return;
+      }
+      const before = node?.type === "file" ? node.content || "" : null;
+      setTurnBaseline((prev) =>
+        prev.has(path) ? prev : new Map(prev).set(path, before)
+      );
+      if (!turnSnapshot.current.has(path)) {
+        turnSnapshot.current.set(path, before);
+      }
+    },
+    [fileSystem]
+  );
+
   const handleToolCall = useCallback(
     (toolCall: ToolCall) => {
       const { toolName, args } = toolCall;
 
+      // Capture the state of the affected paths before the call is applied
+      if (args?.path && args.command !== "view") {
+        const sourceNode = fileSystem.getNode(args.path);
+        recordBaseline(args.path, sourceNode);
+        if (args.new_path) {
+          if (sourceNode?.type === "directory") {
+            Array.from(fileSystem.getAllFiles().keys())
+              .filter((path) => path.startsWith(sourceNode.path + "/"))
+              .forEach((path) =>
+                recordBaseline(
+                  args.new_path + path.substring(sourceNode.path.length)
+                )
+              );
+          } else {
+            recordBaseline(args.new_path);
+          }
+        }
+      }
+
       // Handle str_replace_editor tool
       if (toolName === "str_replace_editor" && args) {
         const { command, path, file_text, old_str, new_str, insert_line } = args;
@@ -183,6 +373,18 @@ export function FileSystemProvider({
               }
             }
             break;
+
+          case "undo_edit":
+            if (path) {
+              const result = fileSystem.undoEdit(path);
+              if (!result.startsWith("Error:")) {
+                const content = fileSystem.readFile(path);
+                if (content !== null) {
+                  updateFile(path, content);
+                }
+              }
+            }
+            break;
         }
       }
 
@@ -207,17 +409,146 @@ export function FileSystemProvider({
             break;
         }
       }
+
+      // Handle dependency_manager tool
+      if (toolName === "dependency_manager" && args) {
+        const { command, name, version } = args;
+
+        if (name && (command === "add" || command === "remove")) {
+          recordBaseline(PACKAGE_MANIFEST_PATH);
+          const result = applyDependencyChange(
+            fileSystem,
+            command,
+            name,
+            version
+          );
+          if (result.success) {
+            triggerRefresh();
+          }
+        }
+      }
     },
-    [fileSystem, createFile, updateFile, deleteFile, renameFile]
+    [
+      fileSystem,
+      recordBaseline,
+      triggerRefresh,
+      createFile,
+      updateFile,
+      deleteFile,
+      renameFile,
+    ]
   );
 
+  const pendingChanges = useMemo<FileChange[]>(() => {
+    const changes: FileChange[] = [];
+    turnBaseline.forEach((before, path) => {
+      const after = files.get(path) ?? null;
+      if (before !== after) {
+        changes.push({ path, before, after });
+      }
+    });
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }, [files, turnBaseline]);
+
+  const clearChangeReview = useCallback(() => {
+    setTurnBaseline((prev) => (prev.size > 0 ? new Map() : prev));
+  }, []);
+
+  const forgetBaseline = useCallback((path: string) => {
+    setTurnBaseline((prev) => {
+      const next = new Map(prev);
+      next.delete(path);
+      return next;
+    });
+  }, []);
+
+  const acceptChange = forgetBaseline;
+
+  const rejectChange = useCallback(
+    (path: string) => {
+      if (!turnBaseline.has(path)) return;
+      const before = turnBaseline.get(path)!;
+      forgetBaseline(path);
+
+      if (before === null) {
+        deleteFile(path);
+      } else if (fileSystem.getNode(path)?.type === "file") {
+        updateFile(path, before);
+      } else {
+        createFile(path, before);
+      }
+    },
+    [
+      fileSystem,
+      turnBaseline,
+      forgetBaseline,
+      createFile,
+      updateFile,
+      deleteFile,
+    ]
+  );
+
+  const acceptAllChanges = clearChangeReview;
+
+  // Called when a chat turn starts: whatever is left of the previous turn's
+  // review is accepted, and like the server's file system, undo_edit only
+  // reaches edits from this turn
+  const startTurn = useCallback(() => {
+    turnSnapshot.current.clear();
+    fileSystem.clearEditHistory();
+    clearChangeReview();
+  }, [fileSystem, clearChangeReview]);
+
+  // Undo every change the AI made in the current turn. Changes from before a
+  // page reload are not known and are kept.
+  const rollbackTurn = useCallback(() => {
+    turnSnapshot.current.forEach((before, path) => {
+      const node = fileSystem.getNode(path);
+      if (before === null) {
+        if (node) {
+          deleteFile(path);
+        }
+      } else if (node?.type === "file") {
+        if ((node.content || "") !== before) {
+          updateFile(path, before);
+        }
+      } else {
+        createFile(path, before);
+      }
+    });
+    turnSnapshot.current.clear();
+    clearChangeReview();
+  }, [fileSystem, createFile, updateFile, deleteFile, clearChangeReview]);
+
+  const dirtyFiles = useMemo(() => {
+    const dirty = new Set<string>();
+    files.forEach((content, path) => {
+      if (savedFiles.get(path) !== content) {
+        dirty.add(path);
+      }
+    });
+    return dirty;
+  }, [files, savedFiles]);
+
+  const rejectAllChanges = useCallback(() => {
+    pendingChanges.forEach((change) => rejectChange(change.path));
+  }, [pendingChanges, rejectChange]);
+
   return (
     <FileSystemContext.Provider
       value={{
         fileSystem,
         selectedFile,
         setSelectedFile,
+        openFiles,
+        closeFile,
+        dirtyFiles,
+        markSaved: setSavedFiles,
+        editorLocation,
+        openFileAt,
+        clearEditorLocation,
         createFile,
+        createDirectory,
         updateFile,
         deleteFile,
         renameFile,
@@ -226,6 +557,16 @@ export function FileSystemProvider({
         refreshTrigger,
         handleToolCall,
         reset,
+        replaceFileSystem,
+        replaceFiles,
+        pendingChanges,
+        acceptChange,
+        rejectChange,
+        acceptAllChanges,
+        rejectAllChanges,
+        clearChangeReview,
+        startTurn,
+        rollbackTurn,
       }}
     >
       {children}
@@ -4,8 +4,14 @@ export interface FileNode {
   path: string;
   content?: string;
   children?: Map<string, FileNode>;
+  // Previous contents of a file before each tool edit, oldest first, used
+  // by undoEdit. Not serialized, so it only lasts for one request.
+  history?: string[];
 }
 
+// Maximum number of previous versions kept per file
+export const MAX_EDIT_HISTORY = 20;
+
 export class VirtualFileSystem {
   private files: Map<string, FileNode> = new Map();
   private root: FileNode;
@@ -142,6 +148,18 @@ export class VirtualFileSystem {
     return true;
   }
 
+  // Update a file from a tool edit, remembering the previous version so the
+  // edit can be undone
+  private applyEdit(file: FileNode, content: string): void {
+    const previous = file.content || "";
+    if (previous !== content) {
+      file.history = [...(file.history || []), previous].slice(
+        -MAX_EDIT_HISTORY
+      );
+    }
+    file.content = content;
+  }
+
   deleteFile(path: string): boolean {
     const normalized = this.normalizePath(path);
     const file = this.files.get(normalized);
@@ -466,7 +484,7 @@ export class VirtualFileSystem {
 
     // Replace all occurrences
     const updatedContent = content.split(oldStr).join(newStr || "");
-    this.updateFile(path, updatedContent);
+    this.applyEdit(file, updatedContent);
 
     return `Replaced ${occurrences} occurrence(s) of the string in ${path}`;
   }
@@ -496,11 +514,38 @@ export class VirtualFileSystem {
     // Insert the text
     lines.splice(insertLine, 0, text || "");
     const updatedContent = lines.join("\n");
-    this.updateFile(path, updatedContent);
+    this.applyEdit(file, updatedContent);
 
     return `Text inserted at line ${insertLine} in ${path}`;
   }
 
+  undoEdit(path: string): string {
+    const file = this.getNode(path);
+    if (!file) {
+      return `Error: File not found: ${path}`;
+    }
+
+    if (file.type !== "file") {
+      return `Error: Cannot undo edits to a directory: ${path}`;
+    }
+
+    if (!file.history || file.history.length === 0) {
+      return `Error: No edit history found for ${path}`;
+    }
+
+    // Restore directly so the undo itself is not recorded as a new edit
+    file.content = file.history.pop();
+    return `Last edit to ${path} undone successfully`;
+  }
+
+  // Forget every file's edit history. The server rebuilds its file system
+  // for each request, so edits from earlier turns cannot be undone there.
+  clearEditHistory(): void {
+    for (const node of this.files.values()) {
+      delete node.history;
+    }
+  }
+
   reset(): void {
     // Clear all files and reset to initial state
     this.files.clear();
@@ -0,0 +1,38 @@
+import type { Attachment } from "ai";
+
+// Image formats the model accepts
+export const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// Largest image the model accepts, in bytes
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS = 4;
+
+export function isSupportedImage(file: { type: string; size: number }) {
+  return IMAGE_TYPES.includes(file.type) && file.size <= MAX_IMAGE_SIZE;
+}
+
+// Attachments are sent and stored inline as data URLs
+export function readImageAttachment(file: File): Promise<Attachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({
+        name: file.name,
+        contentType: file.type,
+        url: reader.result as string,
+      });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Whether an attachment from a request is an inline image. Anything else
+// would make the AI SDK fail the request or fetch a URL on our behalf.
+export function isImageAttachment(attachment: Attachment) {
+  return (
+    !!attachment.contentType &&
+    IMAGE_TYPES.includes(attachment.contentType) &&
+    attachment.url.startsWith(`data:${attachment.contentType};base64,`)
+  );
+}
@@ -0,0 +1,103 @@
+import { VirtualFileSystem } from "./file-system";
+
+// Dependency manifest read by the preview to pin package versions
+export const PACKAGE_MANIFEST_PATH = "/package.json";
+
+export type DependencyCommand = "add" | "remove";
+
+export interface DependencyResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+function parseManifest(content: string): Record<string, any> | null {
+  try {
+    const manifest = JSON.parse(content);
+    return typeof manifest === "object" &&
+      manifest !== null &&
+      !Array.isArray(manifest)
+      ? manifest
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Read the dependencies of a manifest, ignoring anything that isn't a
+// name -> version string pair. Invalid JSON yields no dependencies.
+export function readDependencies(
+  content: string | null | undefined
+): Record<string, string> {
+  const manifest = content ? parseManifest(content) : null;
+  const dependencies = manifest?.dependencies;
+  if (typeof dependencies !== "object" || dependencies === null) {
+    return {};
+  }
+
+  const result: Record<string, string> = {};
+  for (const [name, version] of Object.entries(dependencies)) {
+    if (typeof version === "string") {
+      result[name] = version;
+    }
+  }
+  return result;
+}
+
+// Add, update or remove a dependency in the project's manifest, creating
+// the manifest on first use
+export function applyDependencyChange(
+  fileSystem: VirtualFileSystem,
+  command: DependencyCommand,
+  name: string,
+  version?: string
+): DependencyResult {
+  const content = fileSystem.readFile(PACKAGE_MANIFEST_PATH);
+  const manifest = content === null ? {} : parseManifest(content);
+
+  if (!manifest) {
+    return {
+      success: false,
+      error: `${PACKAGE_MANIFEST_PATH} is not valid JSON`,
+    };
+  }
+
+  const dependencies: Record<string, string> = {
+    ...readDependencies(content),
+  };
+
+  if (command === "add") {
+    if (!version) {
+      return { success: false, error: "version is required for add command" };
+    }
+    dependencies[name] = version;
+  } else {
+    if (!(name in dependencies)) {
+      return { success: false, error: `${name} is not a dependency` };
+    }
+    delete dependencies[name];
+  }
+
+  const sorted = Object.fromEntries(
+    Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b))
+  );
+  const updated = JSON.stringify(
+    { ...manifest, dependencies: sorted },
+    null,
+    2
+  );
+
+  if (content === null) {
+    fileSystem.createFile(PACKAGE_MANIFEST_PATH, updated);
+  } else {
+    fileSystem.updateFile(PACKAGE_MANIFEST_PATH, updated);
+  }
+
+  return {
+    success: true,
+    message:
+      command === "add"
+        ? `Added ${name}@${version} to ${PACKAGE_MANIFEST_PATH}`
+        : `Removed ${name} from ${PACKAGE_MANIFEST_PATH}`,
+  };
+}
@@ -0,0 +1,118 @@
+// Messages posted from the preview iframe to the parent window. The bridge
+// script injected by createPreviewHTML tags every message with this source.
+export const PREVIEW_MESSAGE_SOURCE = "uigen-preview";
+
+export type ConsoleLevel = "log" | "info" | "warn" | "error";
+
+// An element picked with the inspector. source is the "path:line:column"
+// the element was tagged with by the source location plugin, if any.
+export interface PickedElement {
+  tagName: string;
+  className: string;
+  text: string;
+  source?: string;
+}
+
+type PreviewMessageBody =
+  | { type: "console"; level: ConsoleLevel; message: string }
+  | { type: "error"; message: string; stack?: string }
+  | { type: "open-file"; path: string; line?: number; column?: number }
+  | { type: "element-selected"; element: PickedElement }
+  | { type: "ready" };
+
+export type PreviewMessage = PreviewMessageBody & {
+  source: typeof PREVIEW_MESSAGE_SOURCE;
+};
+
+// Messages posted from the parent window to the preview
+export type PreviewCommand = { type: "inspect"; enabled: boolean } & {
+  source: typeof PREVIEW_MESSAGE_SOURCE;
+};
+
+// An inspected element as attached to a chat message
+export interface InspectedElement {
+  tagName: string;
+  className: string;
+  text: string;
+  path?: string;
+  line?: number;
+}
+
+export interface PreviewLogEntry {
+  level: ConsoleLevel;
+  message: string;
+}
+
+export interface PreviewError {
+  kind: "runtime" | "syntax";
+  message: string;
+  path?: string;
+  // 1-based position in path, when known
+  line?: number;
+  column?: number;
+  stack?: string;
+}
+
+export function isPreviewMessage(data: unknown): data is PreviewMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { source?: unknown }).source === PREVIEW_MESSAGE_SOURCE &&
+    typeof (data as { type?: unknown }).type === "string"
+  );
+}
+
+// Keep only the first few frames of a stack trace
+const MAX_STACK_FRAMES = 5;
+
+// Build the chat message sent when the user (or auto-fix) asks the AI to
+// repair the preview
+export function formatErrorsForChat(errors: PreviewError[]): string {
+  const details = errors.map((error) => {
+    const heading =
+      error.kind === "syntax"
+        ? `Syntax error in ${error.path}:`
+        : error.path && error.line
+          ? `Runtime error in ${error.path}:${error.line}:${error.column ?? 1}:`
+          : "Runtime error:";
+    const frames = (error.stack || "")
+      .split("\n")
+      .filter((line) => line.trim().startsWith("at "))
+      .slice(0, MAX_STACK_FRAMES);
+    return [heading, error.message, ...frames].join("\n");
+  });
+
+  const summary =
+    errors.length === 1
+      ? "The preview is showing an error. Please fix it."
+      : `The preview is showing ${errors.length} errors. Please fix them.`;
+
+  return [summary, ...details.map((detail) => "```\n" + detail + "\n```")].join(
+    "\n\n"
+  );
+}
+
+
+// Longest element text included in the context sent to the AI
+const MAX_ELEMENT_TEXT_LENGTH = 200;
+
+// Describe the element the user picked in the preview so the AI knows what
+// "this" refers to in their next message
+export function formatInspectedElement(element: InspectedElement): string {
+  const classes = element.className ? ` class="${element.className}"` : "";
+  const lines = [
+    "The user selected an element in the preview and their latest message refers to it:",
+    `- Element: <${element.tagName}${classes}>`,
+  ];
+  if (element.text) {
+    lines.push(
+      `- Text: ${JSON.stringify(element.text.slice(0, MAX_ELEMENT_TEXT_LENGTH))}`
+    );
+  }
+  if (element.path) {
+    lines.push(
+      `- Source: ${element.path}${element.line ? `:${element.line}` : ""}`
+    );
+  }
+  return lines.join("\n");
+}
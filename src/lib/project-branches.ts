@@ -0,0 +1,19 @@
+// Longest branch name, in characters
+const MAX_BRANCH_NAME_LENGTH = 60;
+
+// Name a line of the conversation after its latest prompt
+export function getBranchName(
+  messages: { role: string; content?: string }[]
+): string {
+  const prompt = messages
+    .findLast((message) => message.role === "user" && message.content?.trim())
+    ?.content?.trim()
+    .replace(/\s+/g, " ");
+
+  if (!prompt) {
+    return "Empty conversation";
+  }
+  return prompt.length > MAX_BRANCH_NAME_LENGTH
+    ? `${prompt.slice(0, MAX_BRANCH_NAME_LENGTH - 1)}…`
+    : prompt;
+}
@@ -0,0 +1,255 @@
+import { strToU8, zipSync } from "fflate";
+import {
+  SCRIPT_EXTENSIONS,
+  isLocalSpecifier,
+  parseImports,
+} from "./transform/import-resolver";
+import { splitPackageSpecifier } from "./transform/package-resolver";
+import { PACKAGE_MANIFEST_PATH, readDependencies } from "./package-manifest";
+
+// Project files are placed under src/, which the "@/" alias points at
+const SOURCE_DIR = "src";
+
+// Entry points looked for in the same order as the preview
+const ENTRY_POINTS = [
+  "/App.jsx",
+  "/App.tsx",
+  "/index.jsx",
+  "/index.tsx",
+  "/src/App.jsx",
+  "/src/App.tsx",
+];
+
+const DEFAULT_REACT_VERSION = "^19.0.0";
+
+const DEV_DEPENDENCIES: Record<string, string> = {
+  "@tailwindcss/vite": "^4.1.0",
+  "@vitejs/plugin-react": "^4.5.0",
+  tailwindcss: "^4.1.0",
+  vite: "^6.3.0",
+};
+
+const VITE_CONFIG = `import { fileURLToPath, URL } from "node:url";
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+import tailwindcss from "@tailwindcss/vite";
+
+export default defineConfig({
+  plugins: [react(), tailwindcss()],
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./${SOURCE_DIR}", import.meta.url)),
+    },
+  },
+});
+`;
+
+function isScript(path: string) {
+  return SCRIPT_EXTENSIONS.some((ext) => path.endsWith(ext));
+}
+
+function findEntryPoint(files: Map<string, string>): string | null {
+  return (
+    ENTRY_POINTS.find((path) => files.has(path)) ||
+    Array.from(files.keys()).find(
+      (path) => path.endsWith(".jsx") || path.endsWith(".tsx")
+    ) ||
+    null
+  );
+}
+
+// The path itself, or a numbered variant when a project file already uses it
+function freePath(taken: Set<string>, path: string): string {
+  const dot = path.lastIndexOf(".");
+  let candidate = path;
+  for (let index = 1; taken.has(candidate); index++) {
+    candidate = `${path.slice(0, dot)}-${index}${path.slice(dot)}`;
+  }
+  return candidate;
+}
+
+// The preview resolves "/components/Button" from the project root, while Vite
+// resolves it from the repository root, so point those imports at the alias
+function rewriteAbsoluteImports(code: string): string {
+  return code.replace(
+    /(\bfrom\s*|\bimport\s*\(?\s*)(["'])(\/[^"']*)\2/g,
+    (_, prefix: string, quote: string, specifier: string) =>
+      `${prefix}${quote}@${specifier}${quote}`
+  );
+}
+
+// The preview accepts specifiers that carry a version ("lodash@4/fp"), which
+// npm and Vite do not
+function splitVersion(name: string): { name: string; version?: string } {
+  const at = name.lastIndexOf("@");
+  return at > 0
+    ? { name: name.slice(0, at), version: name.slice(at + 1) }
+    : { name };
+}
+
+function stripImportVersions(code: string): string {
+  return code.replace(
+    /(\bfrom\s*|\bimport\s*\(?\s*)(["'])((?:@[^/"'@]+\/)?[^/"'@.][^/"'@]*)@[^/"']+/g,
+    (_, prefix: string, quote: string, name: string) =>
+      `${prefix}${quote}${name}`
+  );
+}
+
+// The higher of two versions by their numeric parts, so "4.17" beats "4.2"
+// and a range counts as its lowest version. Tags like "next" have none and
+// lose to any number.
+function higherVersion(a: string, b: string): string {
+  const partsA = a.match(/\d+/g)?.map(Number) ?? [];
+  const partsB = b.match(/\d+/g)?.map(Number) ?? [];
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (difference !== 0) {
+      return difference > 0 ? a : b;
+    }
+  }
+  return a;
+}
+
+// Packages imported anywhere in the project, at the version in the import
+// itself or pinned in its manifest (or the latest version otherwise). Files
+// that import a package at different versions get the highest of them.
+export function inferDependencies(
+  files: Map<string, string>
+): Record<string, string> {
+  const pinned = readDependencies(files.get(PACKAGE_MANIFEST_PATH));
+  const dependencies: Record<string, string> = {
+    react: pinned.react || DEFAULT_REACT_VERSION,
+    "react-dom": pinned["react-dom"] || DEFAULT_REACT_VERSION,
+  };
+  const imported: Record<string, string> = {};
+
+  for (const [path, content] of files) {
+    if (!isScript(path)) continue;
+    for (const { specifier } of parseImports(content)) {
+      if (isLocalSpecifier(specifier)) continue;
+      const { name, version } = splitVersion(
+        splitPackageSpecifier(specifier).name
+      );
+      if (version) {
+        imported[name] = imported[name]
+          ? higherVersion(imported[name], version)
+          : version;
+      } else {
+        dependencies[name] ??= pinned[name] || "latest";
+      }
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries({ ...dependencies, ...imported }).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function toPackageName(projectName: string) {
+  return (
+    projectName
+      .toLowerCase()
+      .replace(/[^a-z0-9-_.]+/g, "-")
+      .replace(/^[-_.]+|[-_.]+$/g, "") || "uigen-project"
+  );
+}
+
+// Lay out the project as a Vite + React + Tailwind repository. Returns the
+// repository's files keyed by their path relative to its root.
+export function buildViteProject(
+  files: Map<string, string>,
+  projectName: string
+): Record<string, string> {
+  const output: Record<string, string> = {};
+
+  for (const [path, content] of files) {
+    if (path === PACKAGE_MANIFEST_PATH) continue;
+    output[`${SOURCE_DIR}${path}`] = isScript(path)
+      ? stripImportVersions(rewriteAbsoluteImports(content))
+      : content;
+  }
+
+  const taken = new Set(Object.keys(output));
+  const stylesheet = freePath(taken, `${SOURCE_DIR}/index.css`);
+  const main = freePath(taken, `${SOURCE_DIR}/main.jsx`);
+  output[stylesheet] = `@import "tailwindcss";\n`;
+
+  const entryPoint = findEntryPoint(files);
+  const appImport = entryPoint
+    ? `import App from "@${entryPoint.replace(/\.(jsx?|tsx?)$/, "")}";`
+    : `const App = () => null;`;
+  output[main] = `import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+${appImport}
+import "@/${stylesheet.slice(SOURCE_DIR.length + 1)}";
+
+createRoot(document.getElementById("root")).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`;
+
+  const packageName = toPackageName(projectName);
+  output["package.json"] =
+    JSON.stringify(
+      {
+        name: packageName,
+        private: true,
+        version: "0.0.0",
+        type: "module",
+        scripts: {
+          dev: "vite",
+          build: "vite build",
+          preview: "vite preview",
+        },
+        dependencies: inferDependencies(files),
+        devDependencies: DEV_DEPENDENCIES,
+      },
+      null,
+      2
+    ) + "\n";
+
+  output["index.html"] = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${projectName.replace(/</g, "&lt;")}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/${main}"></script>
+  </body>
+</html>
+`;
+  output["vite.config.js"] = VITE_CONFIG;
+  output[".gitignore"] = "node_modules\ndist\n";
+  output["README.md"] = `# ${projectName}
+
+Exported from UIGen.
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+`;
+
+  return output;
+}
+
+// Zip the repository built by buildViteProject inside a folder named after
+// the project
+export function createProjectZip(
+  files: Map<string, string>,
+  projectName: string
+): Uint8Array {
+  const root = toPackageName(projectName);
+  const entries: Record<string, Uint8Array> = {};
+  for (const [path, content] of Object.entries(
+    buildViteProject(files, projectName)
+  )) {
+    entries[`${root}/${path}`] = strToU8(content);
+  }
+  return zipSync(entries);
+}
@@ -0,0 +1,151 @@
+import { strFromU8, unzipSync } from "fflate";
+import { SCRIPT_EXTENSIONS } from "./transform/import-resolver";
+import { PACKAGE_MANIFEST_PATH } from "./package-manifest";
+
+// Files larger than this are skipped rather than loaded into the editor
+export const MAX_IMPORT_FILE_SIZE = 512 * 1024;
+
+const IMPORTABLE_EXTENSIONS = [...SCRIPT_EXTENSIONS, ".css"];
+
+// Directories that never contain project source
+const IGNORED_SEGMENTS = new Set([
+  "node_modules",
+  "dist",
+  "build",
+  "__MACOSX",
+]);
+
+export interface UploadedFile {
+  // Path relative to the uploaded zip or folder
+  path: string;
+  content: string;
+}
+
+export interface NormalizedUpload {
+  // Project files keyed by their absolute VFS path
+  files: Record<string, string>;
+  // Uploaded paths that were left out
+  skipped: string[];
+}
+
+function isImportable(path: string) {
+  return IMPORTABLE_EXTENSIONS.some((ext) => path.endsWith(ext));
+}
+
+// Whether an uploaded file is worth reading at all. Everything else is
+// reported as skipped without being decoded.
+export function isImportCandidate(path: string, size: number): boolean {
+  return (
+    size <= MAX_IMPORT_FILE_SIZE &&
+    (isImportable(path) || /(^|\/)package\.json$/.test(path))
+  );
+}
+
+// Filter an upload down to source files and map it onto the project root.
+// A folder wrapping the whole upload is dropped, and when there is a src/
+// folder (as in a Vite repository) it becomes the root, with the top-level
+// package.json kept as the dependency manifest.
+export function normalizeUpload(uploaded: UploadedFile[]): NormalizedUpload {
+  const skipped: string[] = [];
+  let entries = uploaded.flatMap(({ path, content }) => {
+    const segments = path.replace(/\\/g, "/").split("/").filter(Boolean);
+    const ignored = segments.some(
+      (segment) => IGNORED_SEGMENTS.has(segment) || segment.startsWith(".")
+    );
+    if (segments.length === 0 || ignored) {
+      skipped.push(path);
+      return [];
+    }
+    return [{ path, segments, content }];
+  });
+
+  // Strip folders that wrap every file, e.g. the folder inside a zip
+  while (
+    entries.length > 0 &&
+    entries.every((entry) => entry.segments.length > 1) &&
+    entries.every((entry) => entry.segments[0] === entries[0].segments[0])
+  ) {
+    entries = entries.map((entry) => ({
+      ...entry,
+      segments: entry.segments.slice(1),
+    }));
+  }
+
+  const hasSourceDir = entries.some(
+    (entry) => entry.segments.length > 1 && entry.segments[0] === "src"
+  );
+
+  const files: Record<string, string> = {};
+  for (const { path, segments, content } of entries) {
+    const relative = segments.join("/");
+    const isManifest = relative === "package.json";
+
+    let target: string | null = null;
+    if (isManifest) {
+      target = PACKAGE_MANIFEST_PATH;
+    } else if (!isImportable(relative)) {
+      target = null;
+    } else if (!hasSourceDir) {
+      target = "/" + relative;
+    } else if (segments[0] === "src") {
+      target = "/" + segments.slice(1).join("/");
+    }
+
+    if (target) {
+      files[target] = content;
+    } else {
+      skipped.push(path);
+    }
+  }
+
+  return { files, skipped };
+}
+
+// Read the source files of a zip archive
+export function readZip(data: Uint8Array): {
+  files: UploadedFile[];
+  skipped: string[];
+} {
+  const skipped: string[] = [];
+  const entries = unzipSync(data, {
+    filter: (file) => {
+      if (file.name.endsWith("/")) return false;
+      if (!isImportCandidate(file.name, file.originalSize)) {
+        skipped.push(file.name);
+        return false;
+      }
+      return true;
+    },
+  });
+
+  return {
+    files: Object.entries(entries).map(([path, content]) => ({
+      path,
+      content: strFromU8(content),
+    })),
+    skipped,
+  };
+}
+
+// Combine imported files with the current project. Files that already exist
+// with different content are conflicts: they are overwritten only when
+// asked to, and reported either way.
+export function mergeImport(
+  existing: Map<string, string>,
+  imported: Record<string, string>,
+  overwrite: boolean
+): { files: Record<string, string>; conflicts: string[] } {
+  const files: Record<string, string> = Object.fromEntries(existing);
+  const conflicts: string[] = [];
+
+  for (const [path, content] of Object.entries(imported)) {
+    const current = existing.get(path);
+    if (current !== undefined && current !== content) {
+      conflicts.push(path);
+      if (!overwrite) continue;
+    }
+    files[path] = content;
+  }
+
+  return { files, conflicts: conflicts.sort() };
+}
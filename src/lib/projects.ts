@@ -0,0 +1,25 @@
+interface StoredProject {
+  id: string;
+  name: string;
+  messages: string;
+  data: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Convert a project row into the shape returned to clients, with the
+// JSON columns parsed back into objects
+export function serializeProject(project: StoredProject) {
+  return {
+    id: project.id,
+    name: project.name,
+    messages: JSON.parse(project.messages),
+    data: JSON.parse(project.data),
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -4,6 +4,7 @@ import {
   LanguageModelV1StreamPart,
   LanguageModelV1Message,
 } from "@ai-sdk/provider";
+import { estimateTokens } from "@/lib/context-window";
 
 const MODEL = "claude-sonnet-4-0";
 
@@ -54,6 +55,39 @@ export class MockLanguageModel implements LanguageModelV1 {
     return null;
   }
 
+  // Usage as the Anthropic provider reports it. The generation prompt is
+  // marked for caching, so it is written to the cache by the first request
+  // of a conversation and read from it by the later ones.
+  private finish(
+    messages: LanguageModelV1Message[],
+    finishReason: "stop" | "tool-calls",
+    output: string
+  ): LanguageModelV1StreamPart {
+    const [first] = messages;
+    const cachedTokens =
+      first?.role === "system" &&
+      first.providerMetadata?.anthropic?.cacheControl
+        ? estimateTokens(first.content)
+        : 0;
+    const isFirstRequest = !messages.some((m) => m.role === "assistant");
+
+    return {
+      type: "finish",
+      finishReason,
+      usage: {
+        promptTokens:
+          estimateTokens(messages.map((m) => m.content)) - cachedTokens,
+        completionTokens: estimateTokens(output),
+      },
+      providerMetadata: {
+        anthropic: {
+          cacheCreationInputTokens: isFirstRequest ? cachedTokens : 0,
+          cacheReadInputTokens: isFirstRequest ? 0 : cachedTokens,
+        },
+      },
+    };
+  }
+
   private async *generateMockStream(
     messages: LanguageModelV1Message[],
     userPrompt: string
@@ -82,26 +116,21 @@ export class MockLanguageModel implements LanguageModelV1 {
         await this.delay(25);
       }
 
+      const args = JSON.stringify({
+        command: "create",
+        path: `/components/${componentName}.jsx`,
+        file_text: this.getComponentCode(componentType),
+      });
+
       yield {
         type: "tool-call",
         toolCallType: "function",
         toolCallId: `call_1`,
         toolName: "str_replace_editor",
-        args: JSON.stringify({
-          command: "create",
-          path: `/components/${componentName}.jsx`,
-          file_text: this.getComponentCode(componentType),
-        }),
+        args,
       };
 
-      yield {
-        type: "finish",
-        finishReason: "tool-calls",
-        usage: {
-          promptTokens: 50,
-          completionTokens: 30,
-        },
-      };
+      yield this.finish(messages, "tool-calls", text + args);
       return;
     }
 
@@ -113,27 +142,22 @@ export class MockLanguageModel implements LanguageModelV1 {
         await this.delay(25);
       }
 
+      const args = JSON.stringify({
+        command: "str_replace",
+        path: `/components/${componentName}.jsx`,
+        old_str: this.getOldStringForReplace(componentType),
+        new_str: this.getNewStringForReplace(componentType),
+      });
+
       yield {
         type: "tool-call",
         toolCallType: "function",
         toolCallId: `call_2`,
         toolName: "str_replace_editor",
-        args: JSON.stringify({
-          command: "str_replace",
-          path: `/components/${componentName}.jsx`,
-          old_str: this.getOldStringForReplace(componentType),
-          new_str: this.getNewStringForReplace(componentType),
-        }),
+        args,
       };
 
-      yield {
-        type: "finish",
-        finishReason: "tool-calls",
-        usage: {
-          promptTokens: 50,
-          completionTokens: 30,
-        },
-      };
+      yield this.finish(messages, "tool-calls", text + args);
       return;
     }
 
@@ -145,26 +169,21 @@ export class MockLanguageModel implements LanguageModelV1 {
         await this.delay(15);
       }
 
+      const args = JSON.stringify({
+        command: "create",
+        path: "/App.jsx",
+        file_text: this.getAppCode(componentName),
+      });
+
       yield {
         type: "tool-call",
         toolCallType: "function",
         toolCallId: `call_3`,
         toolName: "str_replace_editor",
-        args: JSON.stringify({
-          command: "create",
-          path: "/App.jsx",
-          file_text: this.getAppCode(componentName),
-        }),
+        args,
       };
 
-      yield {
-        type: "finish",
-        finishReason: "tool-calls",
-        usage: {
-          promptTokens: 50,
-          completionTokens: 30,
-        },
-      };
+      yield this.finish(messages, "tool-calls", text + args);
       return;
     }
 
@@ -182,14 +201,7 @@ The component is now ready to use. You can see the preview on the right side of
         await this.delay(30);
       }
 
-      yield {
-        type: "finish",
-        finishReason: "stop",
-        usage: {
-          promptTokens: 50,
-          completionTokens: 50,
-        },
-      };
+      yield this.finish(messages, "stop", text);
       return;
     }
   }
@@ -459,10 +471,8 @@ export default function App() {
       text: textParts,
       toolCalls,
       finishReason: finishReason as any,
-      usage: {
-        promptTokens: 100,
-        completionTokens: 200,
-      },
+      usage: finishPart?.usage || { promptTokens: 0, completionTokens: 0 },
+      providerMetadata: finishPart?.providerMetadata,
       warnings: [],
       rawCall: {
         rawPrompt: options.prompt,
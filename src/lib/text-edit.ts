@@ -0,0 +1,34 @@
+export interface TextEdit {
+  // Offsets into the old text of the range to replace
+  start: number;
+  end: number;
+  text: string;
+}
+
+// The smallest single replacement that turns one text into another: the
+// text between their common prefix and common suffix. Returns null when they
+// are equal.
+export function computeTextEdit(before: string, after: string): TextEdit | null {
+  if (before === after) return null;
+
+  let start = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (start < maxPrefix && before[start] === after[start]) {
+    start++;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - start;
+  while (
+    suffix < maxSuffix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return {
+    start,
+    end: before.length - suffix,
+    text: after.slice(start, after.length - suffix),
+  };
+}
@@ -0,0 +1,139 @@
+import type { JSONValue, Message, StepResult, ToolSet } from "ai";
+
+export type TokenUsage = {
+  // Input tokens billed at the full price
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+};
+
+export const USAGE_ANNOTATION = "usage";
+
+// Usage of a turn, stored as an annotation on its response. Type aliases,
+// unlike interfaces, are assignable to JSONValue.
+export type UsageAnnotation = TokenUsage & {
+  type: typeof USAGE_ANNOTATION;
+  model: string;
+  // In US dollars
+  cost: number;
+};
+
+// Usage summed over many turns, possibly of different models
+export interface UsageTotals extends TokenUsage {
+  turns: number;
+  cost: number;
+}
+
+interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+// US dollars per million tokens
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-sonnet-4-0": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+};
+
+export const EMPTY_USAGE: TokenUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+};
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheWriteTokens: a.cacheWriteTokens + b.cacheWriteTokens,
+  };
+}
+
+// The mock provider is priced as the model it stands in for, so costs can
+// be checked offline. Unknown models cost nothing.
+export function calculateCost(usage: TokenUsage, model: string): number {
+  const pricing = MODEL_PRICING[model.replace(/^mock-/, "")];
+  if (!pricing) {
+    return 0;
+  }
+  return (
+    (usage.promptTokens * pricing.input +
+      usage.completionTokens * pricing.output +
+      usage.cacheReadTokens * pricing.cacheRead +
+      usage.cacheWriteTokens * pricing.cacheWrite) /
+    1_000_000
+  );
+}
+
+export function createUsageAnnotation(
+  usage: TokenUsage,
+  model: string
+): UsageAnnotation {
+  return {
+    type: USAGE_ANNOTATION,
+    model,
+    ...usage,
+    cost: calculateCost(usage, model),
+  };
+}
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+// Total usage of the steps of a turn. Cache reads and writes are only
+// reported in Anthropic's provider metadata.
+export function getStepsUsage(
+  steps: Pick<StepResult<ToolSet>, "usage" | "providerMetadata">[]
+): TokenUsage {
+  return steps.reduce(
+    (total, step) =>
+      addUsage(total, {
+        promptTokens: toCount(step.usage?.promptTokens),
+        completionTokens: toCount(step.usage?.completionTokens),
+        cacheReadTokens: toCount(
+          step.providerMetadata?.anthropic?.cacheReadInputTokens
+        ),
+        cacheWriteTokens: toCount(
+          step.providerMetadata?.anthropic?.cacheCreationInputTokens
+        ),
+      }),
+    EMPTY_USAGE
+  );
+}
+
+function isUsageAnnotation(value: JSONValue): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.type === USAGE_ANNOTATION
+  );
+}
+
+export function findUsage(message: Message): UsageAnnotation | null {
+  const usage = message.annotations?.findLast(isUsageAnnotation);
+  return usage ? (usage as unknown as UsageAnnotation) : null;
+}
+
+// e.g. 950, 12.3k, 1.2M
+export function formatTokenCount(count: number): string {
+  if (count < 1_000) {
+    return String(count);
+  }
+  if (count < 1_000_000) {
+    return `${Number((count / 1_000).toFixed(1))}k`;
+  }
+  return `${Number((count / 1_000_000).toFixed(1))}M`;
+}
+
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) {
+    return "<$0.01";
+  }
+  return `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,49 @@
+import { test, expect, describe } from "vitest";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { buildDependencyManagerTool } from "../dependency-manager";
+
+describe("DependencyManagerTool", () => {
+  test("creates dependency manager tool with description and parameters", () => {
+    const tool = buildDependencyManagerTool(new VirtualFileSystem());
+
+    expect(tool.description).toContain("/package.json");
+    expect(tool.parameters).toBeDefined();
+  });
+
+  test("adds a dependency to the project manifest", async () => {
+    const fileSystem = new VirtualFileSystem();
+    const tool = buildDependencyManagerTool(fileSystem);
+
+    const result = await tool.execute(
+      { command: "add", name: "framer-motion", version: "11.2.0" },
+      { toolCallId: "1", messages: [] }
+    );
+
+    expect(result).toEqual({
+      success: true,
+      message: "Added framer-motion@11.2.0 to /package.json",
+    });
+    expect(JSON.parse(fileSystem.readFile("/package.json")!)).toEqual({
+      dependencies: { "framer-motion": "11.2.0" },
+    });
+  });
+
+  test("removes a dependency", async () => {
+    const fileSystem = new VirtualFileSystem();
+    fileSystem.createFile(
+      "/package.json",
+      JSON.stringify({ dependencies: { clsx: "2.1.1" } })
+    );
+    const tool = buildDependencyManagerTool(fileSystem);
+
+    const result = await tool.execute(
+      { command: "remove", name: "clsx" },
+      { toolCallId: "1", messages: [] }
+    );
+
+    expect(result).toEqual({
+      success: true,
+      message: "Removed clsx from /package.json",
+    });
+  });
+});
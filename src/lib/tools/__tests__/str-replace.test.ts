@@ -411,18 +411,75 @@ describe("StrReplaceTool", () => {
   });
 
   describe("undo_edit command", () => {
-    test("returns error message for unsupported undo command", async () => {
+    test("reverts the last str_replace", async () => {
       const fileSystem = new VirtualFileSystem();
+      fileSystem.createFile("/test.txt", "Hello World");
       const tool = buildStrReplaceTool(fileSystem);
 
+      await tool.execute({
+        command: "str_replace",
+        path: "/test.txt",
+        old_str: "World",
+        new_str: "Universe",
+      });
+
       const result = await tool.execute({
         command: "undo_edit",
         path: "/test.txt",
       });
 
-      expect(result).toBe(
-        "Error: undo_edit command is not supported in this version. Use str_replace to revert changes."
-      );
+      expect(result).toBe("Last edit to /test.txt undone successfully");
+      expect(fileSystem.readFile("/test.txt")).toBe("Hello World");
+    });
+
+    test("reverts edits one at a time", async () => {
+      const fileSystem = new VirtualFileSystem();
+      fileSystem.createFile("/test.txt", "line1");
+      const tool = buildStrReplaceTool(fileSystem);
+
+      await tool.execute({
+        command: "insert",
+        path: "/test.txt",
+        insert_line: 1,
+        new_str: "line2",
+      });
+      await tool.execute({
+        command: "str_replace",
+        path: "/test.txt",
+        old_str: "line1",
+        new_str: "first",
+      });
+
+      await tool.execute({ command: "undo_edit", path: "/test.txt" });
+      expect(fileSystem.readFile("/test.txt")).toBe("line1\nline2");
+
+      await tool.execute({ command: "undo_edit", path: "/test.txt" });
+      expect(fileSystem.readFile("/test.txt")).toBe("line1");
+    });
+
+    test("returns error when there is nothing to undo", async () => {
+      const fileSystem = new VirtualFileSystem();
+      fileSystem.createFile("/test.txt", "content");
+      const tool = buildStrReplaceTool(fileSystem);
+
+      const result = await tool.execute({
+        command: "undo_edit",
+        path: "/test.txt",
+      });
+
+      expect(result).toBe("Error: No edit history found for /test.txt");
+    });
+
+    test("returns error for missing file", async () => {
+      const fileSystem = new VirtualFileSystem();
+      const tool = buildStrReplaceTool(fileSystem);
+
+      const result = await tool.execute({
+        command: "undo_edit",
+        path: "/test.txt",
+      });
+
+      expect(result).toBe("Error: File not found: /test.txt");
     });
   });
 
@@ -0,0 +1,25 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { VirtualFileSystem } from "../file-system";
+import { applyDependencyChange } from "../package-manifest";
+
+export function buildDependencyManagerTool(fileSystem: VirtualFileSystem) {
+  return tool({
+    description:
+      "Add or remove npm packages in the project's /package.json. The preview loads bare imports at the versions pinned here, so add a package before importing it. Adding an existing package updates its version.",
+    parameters: z.object({
+      command: z
+        .enum(["add", "remove"])
+        .describe("The operation to perform"),
+      name: z.string().describe("The package name, e.g. framer-motion"),
+      version: z
+        .string()
+        .optional()
+        .describe(
+          "The version or semver range to pin, e.g. 11.2.0 or ^11. Required when adding."
+        ),
+    }),
+    execute: async ({ command, name, version }) =>
+      applyDependencyChange(fileSystem, command, name, version),
+  });
+}
@@ -0,0 +1,110 @@
+import { test, expect, describe } from "vitest";
+import {
+  findMissingImports,
+  formatMissingImports,
+  parseImports,
+  resolveLocalImport,
+} from "../import-resolver";
+
+describe("resolveLocalImport", () => {
+  const files = new Map([
+    ["/App.jsx", ""],
+    ["/components/Card.jsx", ""],
+    ["/components/ui/index.tsx", ""],
+    ["/hooks/useToggle.ts", ""],
+    ["/styles.css", ""],
+  ]);
+
+  test("resolves relative imports against the importing file", () => {
+    expect(resolveLocalImport("/components/Card.jsx", "../hooks/useToggle", files)).toBe(
+      "/hooks/useToggle.ts"
+    );
+    expect(resolveLocalImport("/App.jsx", "./components/Card", files)).toBe(
+      "/components/Card.jsx"
+    );
+  });
+
+  test("resolves absolute and @/ imports", () => {
+    expect(resolveLocalImport("/App.jsx", "/components/Card.jsx", files)).toBe(
+      "/components/Card.jsx"
+    );
+    expect(resolveLocalImport("/App.jsx", "@/hooks/useToggle", files)).toBe(
+      "/hooks/useToggle.ts"
+    );
+  });
+
+  test("resolves directories to their index file", () => {
+    expect(resolveLocalImport("/components/Card.jsx", "./ui", files)).toBe(
+      "/components/ui/index.tsx"
+    );
+  });
+
+  test("returns null for missing files and non-script files", () => {
+    expect(resolveLocalImport("/App.jsx", "./Missing", files)).toBeNull();
+    expect(resolveLocalImport("/App.jsx", "./styles.css", files)).toBeNull();
+  });
+});
+
+describe("parseImports", () => {
+  test("collects default, named and aliased imports", () => {
+    const imports = parseImports(`
+      import Card, { Header, Body as CardBody } from './Card';
+      import * as icons from "./icons";
+      import { type Props, useThing } from '@/hooks';
+    `);
+
+    expect(imports).toEqual([
+      { specifier: "./Card", names: ["default", "Header", "Body"] },
+      { specifier: "./icons", names: [] },
+      { specifier: "@/hooks", names: ["useThing"] },
+    ]);
+  });
+
+  test("collects re-exports and skips type-only imports", () => {
+    const imports = parseImports(`
+      import type { Props } from './types';
+      export { Button, default as Link } from './Button';
+      export * from './utils';
+    `);
+
+    expect(imports).toEqual([
+      { specifier: "./Button", names: ["Button", "default"] },
+      { specifier: "./utils", names: [] },
+    ]);
+  });
+});
+
+describe("findMissingImports", () => {
+  test("reports local imports that do not resolve", () => {
+    const files = new Map([
+      [
+        "/App.jsx",
+        `import React from 'react';
+import Card from './Card';
+import { Missing } from './Missing';
+import './styles.css';
+import { Missing as Again } from './Missing';`,
+      ],
+      ["/Card.jsx", `import { cn } from '@/lib/utils';`],
+    ]);
+
+    expect(findMissingImports(files)).toEqual([
+      { path: "/App.jsx", importPath: "./Missing" },
+      { path: "/Card.jsx", importPath: "@/lib/utils" },
+    ]);
+  });
+
+  test("ignores non-script files", () => {
+    const files = new Map([["/README.md", "import x from './nope'"]]);
+
+    expect(findMissingImports(files)).toEqual([]);
+  });
+});
+
+test("formatMissingImports lists each unresolved import", () => {
+  const message = formatMissingImports([
+    { path: "/App.jsx", importPath: "./Missing" },
+  ]);
+
+  expect(message).toContain(`- "./Missing" imported in /App.jsx`);
+});
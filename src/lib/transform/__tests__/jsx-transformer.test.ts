@@ -1,9 +1,10 @@
-import { test, expect, vi } from "vitest";
+import { test, expect, vi, beforeEach } from "vitest";
 import {
   transformJSX,
   createBlobURL,
   createImportMap,
   createPreviewHTML,
+  previewModuleCache,
 } from "../jsx-transformer";
 import * as Babel from "@babel/standalone";
 
@@ -22,6 +23,13 @@ vi.mock("@babel/standalone", () => ({
 global.URL.createObjectURL = vi.fn((blob) => {
   return `blob:mock-url-${Math.random()}`;
 });
+global.URL.revokeObjectURL = vi.fn();
+
+// Each test starts with a cold transform cache
+beforeEach(() => {
+  previewModuleCache.clear();
+  vi.mocked(URL.revokeObjectURL).mockClear();
+});
 
 test("transformJSX transforms TypeScript files with correct presets", () => {
   const code = `const Component = () => <div>Hello</div>;`;
@@ -71,6 +79,65 @@ test("transformJSX handles transform errors gracefully", () => {
   vi.mocked(Babel.transform).mockReset();
 });
 
+test("transformJSX requests inline source maps named after the file", () => {
+  vi.mocked(Babel.transform).mockImplementationOnce((code) => ({
+    code,
+    map: { version: 3, sources: ["/App.jsx"], mappings: "AAAA" },
+  }) as any);
+
+  const result = transformJSX("const a = 1;", "/App.jsx", new Set());
+
+  expect(Babel.transform).toHaveBeenLastCalledWith(
+    expect.any(String),
+    expect.objectContaining({
+      sourceMaps: "both",
+      sourceFileName: "/App.jsx",
+    })
+  );
+  expect(result.map).toEqual({
+    version: 3,
+    sources: ["/App.jsx"],
+    mappings: "AAAA",
+  });
+});
+
+test("transformJSX reports the 1-based location of syntax errors", () => {
+  vi.mocked(Babel.transform).mockImplementationOnce(() => {
+    throw Object.assign(new Error("/App.jsx: Unexpected token (3:4)"), {
+      loc: { line: 3, column: 4 },
+    });
+  });
+
+  const result = transformJSX("invalid code", "/App.jsx", new Set());
+
+  expect(result.errorLocation).toEqual({ line: 3, column: 5 });
+});
+
+test("createImportMap lists project modules by blob URL", () => {
+  const files = new Map([
+    ["/App.jsx", "export default function App() { return null; }"],
+  ]);
+
+  const result = createImportMap(files);
+  const blobUrl = JSON.parse(result.importMap).imports["/App.jsx"];
+
+  expect(result.modules).toEqual({ [blobUrl]: { path: "/App.jsx" } });
+});
+
+test("createImportMap passes syntax error locations through", () => {
+  vi.mocked(Babel.transform).mockImplementationOnce(() => {
+    throw Object.assign(new Error("Unexpected token (2:0)"), {
+      loc: { line: 2, column: 0 },
+    });
+  });
+
+  const result = createImportMap(new Map([["/App.jsx", "<div"]]));
+
+  expect(result.errors).toEqual([
+    { path: "/App.jsx", error: "Unexpected token (2:0)", line: 2, column: 1 },
+  ]);
+});
+
 test("createBlobURL creates blob with correct mime type", () => {
   const code = "console.log('test');";
   const url = createBlobURL(code);
@@ -105,6 +172,32 @@ test("createImportMap includes React CDN imports", () => {
   expect(parsed.imports).toHaveProperty("react/jsx-runtime", "https://esm.sh/react@19/jsx-runtime");
 });
 
+test("createImportMap resolves packages with the given options", () => {
+  const files = new Map([
+    ["/App.jsx", "import { motion } from 'framer-motion';"],
+  ]);
+  const result = createImportMap(files, {
+    baseUrl: "/api/vendor",
+    versions: { "framer-motion": "11.2.0" },
+  });
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports["react"]).toBe("/api/vendor/react@19");
+  expect(parsed.imports["react-dom/client"]).toBe("/api/vendor/react-dom@19/client");
+  expect(parsed.imports["framer-motion"]).toBe("/api/vendor/framer-motion@11.2.0");
+});
+
+test("createImportMap pins packages listed in /package.json", () => {
+  const files = new Map([
+    ["/App.jsx", "import { motion } from 'framer-motion';\nimport clsx from 'clsx';"],
+    ["/package.json", JSON.stringify({ dependencies: { "framer-motion": "^11.2.0" } })],
+  ]);
+  const parsed = JSON.parse(createImportMap(files).importMap);
+
+  expect(parsed.imports["framer-motion"]).toBe("https://esm.sh/framer-motion@^11.2.0");
+  expect(parsed.imports["clsx"]).toBe("https://esm.sh/clsx");
+});
+
 test("createImportMap transforms JavaScript and TypeScript files", () => {
   const files = new Map([
     ["/App.jsx", "export default function App() { return <div>App</div>; }"],
@@ -150,8 +243,8 @@ test("createImportMap creates placeholder modules for missing imports", () => {
   const parsed = JSON.parse(result.importMap);
 
   // Should create placeholder for missing Button component
-  expect(parsed.imports["./components/Button"]).toBeDefined();
-  expect(parsed.imports["./components/Button"]).toMatch(/^blob:mock-url-/);
+  expect(parsed.imports["@/components/Button"]).toBeDefined();
+  expect(parsed.imports["@/components/Button"]).toMatch(/^blob:mock-url-/);
 });
 
 test("createImportMap handles @/ alias imports", () => {
@@ -188,7 +281,17 @@ test("createPreviewHTML generates valid HTML with import map", () => {
 
 test("createPreviewHTML includes Tailwind CSS", () => {
   const html = createPreviewHTML("/App.jsx", "{}");
-  expect(html).toContain("https://cdn.tailwindcss.com");
+  expect(html).toContain("/api/vendor/tailwindcss");
+});
+
+test("createPreviewHTML includes the preview message bridge", () => {
+  const html = createPreviewHTML("/App.jsx", "{}");
+  expect(html).toContain("uigen-preview");
+  expect(html).toContain("window.__uigenPreview");
+  expect(html).toContain("unhandledrejection");
+  expect(html.indexOf("__uigenPreview")).toBeLessThan(
+    html.indexOf("/api/vendor/tailwindcss")
+  );
 });
 
 test("createPreviewHTML includes error boundary", () => {
@@ -207,8 +310,8 @@ test("createPreviewHTML handles invalid import map gracefully", () => {
 
   // Should still generate HTML with the entry point
   expect(html).toContain("/App.jsx");
-  // The error is logged to console, not included in HTML
-  expect(html).toContain("console.error('Failed to load app:', error)");
+  // The error is reported to the parent window, not included in HTML
+  expect(html).toContain("window.__uigenPreview.reportError(error)");
   
   // Restore console.error
   consoleErrorSpy.mockRestore();
@@ -239,7 +342,7 @@ test("integration: full transformation pipeline works", () => {
   expect(parsed.imports["/Button.jsx"]).toMatch(/^blob:mock-url-/);
 
   // Import variations should exist
-  expect(parsed.imports["./Button"]).toBeDefined();
+  expect(parsed.imports["@/Button.jsx"]).toBeDefined();
   expect(parsed.imports["/Button"]).toBeDefined();
 
   // Create preview HTML
@@ -247,6 +350,168 @@ test("integration: full transformation pipeline works", () => {
   expect(html).toContain(parsed.imports["/App.jsx"]);
 });
 
+// Rebuild the source of every module created by createImportMap
+async function blobSources() {
+  const blobs = vi
+    .mocked(URL.createObjectURL)
+    .mock.calls.map(([blob]) => blob as Blob);
+  return Promise.all(
+    blobs.map(
+      (blob) =>
+        new Promise<string>((resolve) => {
+          const reader = new FileReader();
+          reader.onload = () => resolve(reader.result as string);
+          reader.readAsText(blob);
+        })
+    )
+  );
+}
+
+test("createImportMap rewrites relative imports to import map keys", async () => {
+  vi.mocked(URL.createObjectURL).mockClear();
+  const files = new Map([
+    ["/components/Card.jsx", `
+      import Button from './Button';
+      import { useToggle } from '../hooks/useToggle';
+      export { Badge } from "./ui";
+    `],
+    ["/components/Button.jsx", "export default function Button() {}"],
+    ["/hooks/useToggle.ts", "export function useToggle() {}"],
+    ["/components/ui/index.jsx", "export const Badge = () => null;"],
+  ]);
+
+  const result = createImportMap(files);
+  const parsed = JSON.parse(result.importMap);
+  const [card] = await blobSources();
+
+  expect(card).toContain("from '@/components/Button.jsx'");
+  expect(card).toContain("from '@/hooks/useToggle.ts'");
+  expect(card).toContain('from "@/components/ui/index.jsx"');
+  expect(parsed.imports["@/components/Button.jsx"]).toBeDefined();
+  expect(parsed.imports["@/hooks/useToggle.ts"]).toBeDefined();
+  expect(parsed.imports["@/components/ui/index.jsx"]).toBeDefined();
+});
+
+test("createImportMap resolves directory imports to index files", async () => {
+  vi.mocked(URL.createObjectURL).mockClear();
+  const files = new Map([
+    ["/App.jsx", `import { Card } from './components';\nimport Nav from '@/components/nav';`],
+    ["/components/index.tsx", "export const Card = () => null;"],
+    ["/components/nav/index.jsx", "export default function Nav() {}"],
+  ]);
+
+  createImportMap(files);
+  const [app] = await blobSources();
+
+  expect(app).toContain("from '@/components/index.tsx'");
+  expect(app).toContain("from '@/components/nav/index.jsx'");
+});
+
+test("createImportMap leaves package imports untouched", async () => {
+  vi.mocked(URL.createObjectURL).mockClear();
+  const files = new Map([
+    ["/App.jsx", `import { motion } from 'framer-motion';`],
+  ]);
+
+  createImportMap(files);
+  const [app] = await blobSources();
+
+  expect(app).toContain("from 'framer-motion'");
+});
+
+test("createImportMap shares one placeholder for a missing relative import", async () => {
+  const files = new Map([
+    ["/components/Card.jsx", `import Missing from './Missing';`],
+    ["/components/List.jsx", `import Missing from '../components/Missing';`],
+  ]);
+
+  const result = createImportMap(files);
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports["@/components/Missing"]).toMatch(/^blob:mock-url-/);
+  expect(parsed.imports["./Missing"]).toBeUndefined();
+});
+
+test("createImportMap placeholders export every imported name", async () => {
+  vi.mocked(URL.createObjectURL).mockClear();
+  const files = new Map([
+    ["/App.jsx", `import Card, { CardHeader, CardBody as Body } from './Card';`],
+  ]);
+
+  createImportMap(files);
+  const [, placeholder] = await blobSources();
+
+  expect(placeholder).toContain("export default MissingImport;");
+  expect(placeholder).toContain(
+    "export { MissingImport as CardHeader, MissingImport as CardBody };"
+  );
+  expect(placeholder).toContain("Missing import: @/Card");
+});
+
+test("createImportMap reports missing imports", () => {
+  const files = new Map([
+    ["/App.jsx", `import Card from './components/Card';\nimport Nav from './Nav';`],
+    ["/Nav.jsx", "export default function Nav() {}"],
+  ]);
+
+  const result = createImportMap(files);
+
+  expect(result.missingImports).toEqual([
+    { path: "/App.jsx", importPath: "./components/Card" },
+  ]);
+});
+
+test("createImportMap reuses transforms and blob URLs for unchanged files", () => {
+  const files = new Map([
+    ["/App.jsx", "import Button from './Button';"],
+    ["/Button.jsx", "export default function Button() {}"],
+  ]);
+  const first = JSON.parse(createImportMap(files).importMap);
+  vi.mocked(Babel.transform).mockClear();
+
+  const second = JSON.parse(createImportMap(files).importMap);
+
+  expect(Babel.transform).not.toHaveBeenCalled();
+  expect(second.imports["/App.jsx"]).toBe(first.imports["/App.jsx"]);
+  expect(second.imports["/Button.jsx"]).toBe(first.imports["/Button.jsx"]);
+  expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+});
+
+test("createImportMap revokes blob URLs of changed and removed files", () => {
+  const first = JSON.parse(
+    createImportMap(
+      new Map([
+        ["/App.jsx", "export default function App() {}"],
+        ["/Old.jsx", "export default function Old() {}"],
+      ])
+    ).importMap
+  );
+  vi.mocked(Babel.transform).mockClear();
+
+  const second = JSON.parse(
+    createImportMap(
+      new Map([["/App.jsx", "export default function App() { return 1; }"]])
+    ).importMap
+  );
+
+  expect(Babel.transform).toHaveBeenCalledTimes(1);
+  expect(second.imports["/App.jsx"]).not.toBe(first.imports["/App.jsx"]);
+  expect(URL.revokeObjectURL).toHaveBeenCalledWith(first.imports["/App.jsx"]);
+  expect(URL.revokeObjectURL).toHaveBeenCalledWith(first.imports["/Old.jsx"]);
+});
+
+test("createImportMap rebuilds importers when an import target appears", () => {
+  const files = new Map([["/App.jsx", "import Button from './Button';"]]);
+  const first = JSON.parse(createImportMap(files).importMap);
+
+  files.set("/Button.jsx", "export default function Button() {}");
+  const second = JSON.parse(createImportMap(files).importMap);
+
+  // The rewritten import changes, so App gets a new module
+  expect(second.imports["/App.jsx"]).not.toBe(first.imports["/App.jsx"]);
+  expect(URL.revokeObjectURL).toHaveBeenCalledWith(first.imports["@/Button"]);
+});
+
 // CSS Support Tests
 test("transformJSX detects CSS imports", () => {
   const code = `
@@ -358,7 +623,7 @@ test("createPreviewHTML preserves existing styles with CSS injection", () => {
   const html = createPreviewHTML("/App.jsx", "{}", customStyles);
   
   // Should have both Tailwind and custom styles
-  expect(html).toContain("https://cdn.tailwindcss.com");
+  expect(html).toContain("/api/vendor/tailwindcss");
   expect(html).toContain("h1 { color: blue; }");
   // Existing styles should remain
   expect(html).toContain("body {");
@@ -454,6 +719,19 @@ test("createPreviewHTML displays syntax errors", () => {
   expect(html).not.toContain("loadApp()");
 });
 
+test("createPreviewHTML makes syntax errors open their location", () => {
+  const html = createPreviewHTML("/App.jsx", "{}", "", [
+    { path: "/App.jsx", error: "Unexpected token (3:4)", line: 3, column: 5 },
+    { path: '/"odd".jsx', error: "Unknown error" },
+  ]);
+
+  expect(html).toContain(
+    'data-path="/App.jsx" data-line="3" data-column="5"'
+  );
+  expect(html).toContain('data-path="/&quot;odd&quot;.jsx">');
+  expect(html).toContain("type: 'open-file'");
+});
+
 test("files with syntax errors are not included in import map", () => {
   // Mock Babel to throw error for BadComponent
   vi.mocked(Babel.transform).mockImplementation((code, options) => {
@@ -483,10 +761,10 @@ test("files with syntax errors are not included in import map", () => {
   
   // BadComponent should NOT be in import map anymore
   expect(parsed.imports["/BadComponent.jsx"]).toBeUndefined();
-  expect(parsed.imports["/BadComponent"]).toBeUndefined();
   
   // But a placeholder should be created for the import
-  expect(parsed.imports["./BadComponent"]).toBeDefined();
+  expect(parsed.imports["@/BadComponent"]).toBeDefined();
+  expect(parsed.imports["/BadComponent"]).toBe(parsed.imports["@/BadComponent"]);
   
   // Should have error tracked
   expect(result.errors.some(e => e.path === "/BadComponent.jsx")).toBe(true);
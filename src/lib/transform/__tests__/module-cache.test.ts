@@ -0,0 +1,94 @@
+import { test, expect, describe, vi, beforeEach } from "vitest";
+import { ModuleCache, hashString } from "../module-cache";
+
+global.URL.revokeObjectURL = vi.fn();
+
+beforeEach(() => {
+  vi.mocked(URL.revokeObjectURL).mockClear();
+});
+
+function urlFactory() {
+  let count = 0;
+  return vi.fn(() => `blob:${++count}`);
+}
+
+describe("hashString", () => {
+  test("is stable and content sensitive", () => {
+    expect(hashString("export default 1")).toBe(hashString("export default 1"));
+    expect(hashString("export default 1")).not.toBe(hashString("export default 2"));
+  });
+});
+
+describe("ModuleCache", () => {
+  test("reuses transform results while the content is unchanged", () => {
+    const cache = new ModuleCache<string>();
+    const run = vi.fn(() => "compiled");
+
+    cache.transform("/App.jsx", "source", run);
+    cache.finishBuild();
+    const result = cache.transform("/App.jsx", "source", run);
+
+    expect(result).toBe("compiled");
+    expect(run).toHaveBeenCalledTimes(1);
+
+    cache.transform("/App.jsx", "changed", run);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test("reuses blob URLs for identical module code", () => {
+    const cache = new ModuleCache<string>();
+    const create = urlFactory();
+
+    const first = cache.moduleURL("/App.jsx", "code", create);
+    cache.finishBuild();
+    const second = cache.moduleURL("/App.jsx", "code", create);
+    cache.finishBuild();
+
+    expect(second).toBe(first);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+  });
+
+  test("revokes replaced URLs once the build finishes", () => {
+    const cache = new ModuleCache<string>();
+    const create = urlFactory();
+
+    cache.moduleURL("/App.jsx", "v1", create);
+    cache.finishBuild();
+    const url = cache.moduleURL("/App.jsx", "v2", create);
+
+    expect(url).toBe("blob:2");
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    cache.finishBuild();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:1");
+  });
+
+  test("drops modules that a build did not use", () => {
+    const cache = new ModuleCache<string>();
+    const create = urlFactory();
+    const run = vi.fn(() => "compiled");
+
+    cache.transform("/Old.jsx", "source", run);
+    cache.moduleURL("/Old.jsx", "code", create);
+    cache.finishBuild();
+    cache.finishBuild();
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:1");
+    cache.transform("/Old.jsx", "source", run);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test("clear revokes every URL", () => {
+    const cache = new ModuleCache<string>();
+    const create = urlFactory();
+
+    cache.moduleURL("/A.jsx", "a", create);
+    cache.moduleURL("/B.jsx", "b", create);
+    cache.finishBuild();
+    cache.clear();
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:1");
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:2");
+  });
+});
@@ -0,0 +1,83 @@
+import { test, expect, describe, afterEach, vi } from "vitest";
+import {
+  getPackageBaseUrl,
+  getTailwindUrl,
+  resolvePackageUrl,
+  splitPackageSpecifier,
+} from "../package-resolver";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("splitPackageSpecifier", () => {
+  test("splits plain packages", () => {
+    expect(splitPackageSpecifier("lodash")).toEqual({
+      name: "lodash",
+      subpath: "",
+    });
+    expect(splitPackageSpecifier("react-dom/client")).toEqual({
+      name: "react-dom",
+      subpath: "/client",
+    });
+  });
+
+  test("keeps the scope as part of the name", () => {
+    expect(splitPackageSpecifier("@radix-ui/react-icons/dist/x")).toEqual({
+      name: "@radix-ui/react-icons",
+      subpath: "/dist/x",
+    });
+  });
+});
+
+describe("resolvePackageUrl", () => {
+  test("uses esm.sh by default and pins React", () => {
+    expect(resolvePackageUrl("react")).toBe("https://esm.sh/react@19");
+    expect(resolvePackageUrl("react/jsx-runtime")).toBe(
+      "https://esm.sh/react@19/jsx-runtime"
+    );
+    expect(resolvePackageUrl("lodash")).toBe("https://esm.sh/lodash");
+  });
+
+  test("applies project versions", () => {
+    const versions = { "@heroicons/react": "2.1.5", react: "18.3.1" };
+
+    expect(
+      resolvePackageUrl("@heroicons/react/24/solid", { versions })
+    ).toBe("https://esm.sh/@heroicons/react@2.1.5/24/solid");
+    expect(resolvePackageUrl("react", { versions })).toBe(
+      "https://esm.sh/react@18.3.1"
+    );
+  });
+
+  test("keeps versions written in the specifier", () => {
+    expect(
+      resolvePackageUrl("lodash@4", { versions: { lodash: "3" } })
+    ).toBe("https://esm.sh/lodash@4");
+    expect(resolvePackageUrl("@scope/pkg@1.0.0/sub")).toBe(
+      "https://esm.sh/@scope/pkg@1.0.0/sub"
+    );
+  });
+
+  test("uses a custom base URL", () => {
+    expect(resolvePackageUrl("react", { baseUrl: "/api/vendor" })).toBe(
+      "/api/vendor/react@19"
+    );
+  });
+});
+
+describe("configuration", () => {
+  test("reads the package base URL from the environment", () => {
+    vi.stubEnv("NEXT_PUBLIC_PREVIEW_PACKAGE_URL", "https://cdn.internal/esm/");
+
+    expect(getPackageBaseUrl()).toBe("https://cdn.internal/esm");
+    expect(resolvePackageUrl("clsx")).toBe("https://cdn.internal/esm/clsx");
+  });
+
+  test("serves Tailwind locally unless configured otherwise", () => {
+    expect(getTailwindUrl()).toBe("/api/vendor/tailwindcss");
+
+    vi.stubEnv("NEXT_PUBLIC_PREVIEW_TAILWIND_URL", "/static/tailwind.js");
+    expect(getTailwindUrl()).toBe("/static/tailwind.js");
+  });
+});
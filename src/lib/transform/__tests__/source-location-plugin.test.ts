@@ -0,0 +1,56 @@
+import { test, expect, describe } from "vitest";
+import * as Babel from "@babel/standalone";
+import {
+  createSourceLocationPlugin,
+  parseSourceLocation,
+} from "../source-location-plugin";
+
+function transform(code: string) {
+  return (
+    Babel.transform(code, {
+      filename: "/App.jsx",
+      plugins: [createSourceLocationPlugin("/App.jsx")],
+      parserOpts: { plugins: ["jsx"] },
+    }).code || ""
+  );
+}
+
+describe("createSourceLocationPlugin", () => {
+  test("tags host elements with their location", () => {
+    const code = transform(
+      ["const a = (", "  <div>", "    <button>Hi</button>", "  </div>", ");"].join(
+        "\n"
+      )
+    );
+
+    expect(code).toContain('<div data-uigen-source="/App.jsx:2:3">');
+    expect(code).toContain('<button data-uigen-source="/App.jsx:3:5">');
+  });
+
+  test("leaves components and member expressions alone", () => {
+    const code = transform("const a = <Card><motion.div /></Card>;");
+
+    expect(code).not.toContain("data-uigen-source");
+  });
+
+  test("does not tag an element twice", () => {
+    const code = transform('const a = <div data-uigen-source="/Other.jsx:1:1" />;');
+
+    expect(code.match(/data-uigen-source/g)).toHaveLength(1);
+  });
+});
+
+describe("parseSourceLocation", () => {
+  test("splits a location into path, line and column", () => {
+    expect(parseSourceLocation("/components/Card.jsx:12:5")).toEqual({
+      path: "/components/Card.jsx",
+      line: 12,
+      column: 5,
+    });
+  });
+
+  test("rejects malformed values", () => {
+    expect(parseSourceLocation(undefined)).toBeNull();
+    expect(parseSourceLocation("/App.jsx")).toBeNull();
+  });
+});
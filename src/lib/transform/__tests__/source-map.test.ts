@@ -0,0 +1,149 @@
+import { test, expect, describe } from "vitest";
+import * as Babel from "@babel/standalone";
+import {
+  SourceMap,
+  decodeMappings,
+  mapStackTrace,
+  originalPositionFor,
+} from "../source-map";
+
+describe("decodeMappings", () => {
+  test("decodes segments relative to the previous ones", () => {
+    // Line 1: column 0 -> 0:0, column 4 -> 0:2. Line 3: column 2 -> 2:2
+    expect(decodeMappings("AAAA,IAAE;;EAEA")).toEqual([
+      [
+        [0, 0, 0, 0],
+        [4, 0, 0, 2],
+      ],
+      [],
+      [[2, 0, 2, 2]],
+    ]);
+  });
+
+  test("decodes negative and multi-digit values", () => {
+    // 16 is "gB"; -1 is "D"
+    expect(decodeMappings("gBAAgB,CAAD")).toEqual([
+      [
+        [16, 0, 0, 16],
+        [17, 0, 0, 15],
+      ],
+    ]);
+  });
+
+  test("skips segments without a source", () => {
+    expect(decodeMappings("A,CAAC")).toEqual([[[1, 0, 0, 1]]]);
+  });
+});
+
+describe("originalPositionFor", () => {
+  const map: SourceMap = {
+    version: 3,
+    sources: ["/App.jsx"],
+    mappings: "AAAA,IAAE;;EAEA",
+  };
+
+  test("uses the closest segment at or before the column", () => {
+    expect(originalPositionFor(map, 1, 1)).toEqual({
+      source: "/App.jsx",
+      line: 1,
+      column: 1,
+    });
+    expect(originalPositionFor(map, 1, 10)).toEqual({
+      source: "/App.jsx",
+      line: 1,
+      column: 3,
+    });
+  });
+
+  test("returns null for unmapped lines", () => {
+    expect(originalPositionFor(map, 2, 1)).toBeNull();
+    expect(originalPositionFor(map, 10, 1)).toBeNull();
+  });
+
+  test("maps Babel output back to the original source", () => {
+    const source = [
+      "import React from 'react';",
+      "",
+      "export default function App() {",
+      "  const value = undefined;",
+      "  return <div>{value.name}</div>;",
+      "}",
+    ].join("\n");
+    const result = Babel.transform(source, {
+      filename: "/App.jsx",
+      presets: [["react", { runtime: "automatic" }]],
+      sourceMaps: true,
+      sourceFileName: "/App.jsx",
+    });
+
+    const lines = (result.code || "").split("\n");
+    const generatedLine = lines.findIndex((line) => line.includes("value.name"));
+    const generatedColumn = lines[generatedLine].indexOf("value.name") + 1;
+
+    expect(
+      originalPositionFor(
+        result.map as SourceMap,
+        generatedLine + 1,
+        generatedColumn
+      )
+    ).toMatchObject({ source: "/App.jsx", line: 5 });
+  });
+});
+
+describe("mapStackTrace", () => {
+  const modules = {
+    "blob:http://localhost/app": {
+      path: "/App.jsx",
+      map: { version: 3, sources: ["/App.jsx"], mappings: ";;AAMI" },
+    },
+    "blob:http://localhost/card": { path: "/components/Card.jsx" },
+  };
+
+  test("rewrites Chrome frames and returns the first project location", () => {
+    const result = mapStackTrace(
+      [
+        "TypeError: x is undefined",
+        "    at App (blob:http://localhost/app:3:1)",
+        "    at renderWithHooks (https://esm.sh/react-dom:10:20)",
+      ].join("\n"),
+      modules
+    );
+
+    expect(result.stack).toBe(
+      [
+        "TypeError: x is undefined",
+        "    at App (/App.jsx:7:5)",
+        "    at renderWithHooks (https://esm.sh/react-dom:10:20)",
+      ].join("\n")
+    );
+    expect(result.location).toEqual({ path: "/App.jsx", line: 7, column: 5 });
+  });
+
+  test("rewrites Firefox frames", () => {
+    const result = mapStackTrace("App@blob:http://localhost/app:3:1", modules);
+
+    expect(result.stack).toBe("App@/App.jsx:7:5");
+  });
+
+  test("keeps generated positions for modules without a source map", () => {
+    const result = mapStackTrace(
+      "    at Card (blob:http://localhost/card:4:2)",
+      modules
+    );
+
+    expect(result.stack).toBe("    at Card (/components/Card.jsx:4:2)");
+    expect(result.location).toEqual({
+      path: "/components/Card.jsx",
+      line: 4,
+      column: 2,
+    });
+  });
+
+  test("leaves unknown blob URLs alone", () => {
+    const stack = "    at Foo (blob:http://localhost/other:1:1)";
+    const result = mapStackTrace(stack, modules);
+
+    expect(result.stack).toBe(stack);
+    expect(result.location).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+export const SCRIPT_EXTENSIONS = [".jsx", ".tsx", ".js", ".ts"];
+
+export interface ParsedImport {
+  specifier: string;
+  // Bindings requested from the module; "default" for default imports
+  names: string[];
+}
+
+export interface MissingImport {
+  // File containing the import
+  path: string;
+  // Specifier as written in that file
+  importPath: string;
+}
+
+// Helper function to resolve relative paths
+export function resolveRelativePath(
+  fromDir: string,
+  relativePath: string
+): string {
+  const parts = fromDir.split("/").filter(Boolean);
+  const relParts = relativePath.split("/");
+
+  for (const part of relParts) {
+    if (part === "..") {
+      parts.pop();
+    } else if (part !== ".") {
+      parts.push(part);
+    }
+  }
+
+  return "/" + parts.join("/");
+}
+
+export function isLocalSpecifier(specifier: string): boolean {
+  return (
+    specifier.startsWith("./") ||
+    specifier.startsWith("../") ||
+    specifier.startsWith("/") ||
+    specifier.startsWith("@/")
+  );
+}
+
+// Turn a local import specifier into an absolute path without resolving
+// extensions, e.g. "../hooks/useX" from "/components/Card.jsx" -> "/hooks/useX"
+export function toAbsoluteImportPath(
+  fromPath: string,
+  specifier: string
+): string {
+  if (specifier.startsWith("@/")) {
+    return specifier.substring(1);
+  }
+  if (specifier.startsWith("/")) {
+    return specifier;
+  }
+  const fromDir = fromPath.substring(0, fromPath.lastIndexOf("/"));
+  return resolveRelativePath(fromDir, specifier);
+}
+
+// Resolve a local import to the file it refers to, trying the path as
+// written, then with a script extension, then as a directory index file
+export function resolveLocalImport(
+  fromPath: string,
+  specifier: string,
+  files: Map<string, string>
+): string | null {
+  const basePath = toAbsoluteImportPath(fromPath, specifier);
+  const candidates = [
+    basePath,
+    ...SCRIPT_EXTENSIONS.map((ext) => basePath + ext),
+    ...SCRIPT_EXTENSIONS.map((ext) => `${basePath}/index${ext}`),
+  ];
+
+  return (
+    candidates.find(
+      (candidate) =>
+        files.has(candidate) &&
+        SCRIPT_EXTENSIONS.some((ext) => candidate.endsWith(ext))
+    ) || null
+  );
+}
+
+// Names listed in an import or re-export clause such as
+// "Card, { Header, Body as CardBody, type Props }"
+function parseImportClause(keyword: string, clause: string): string[] {
+  const names: string[] = [];
+  const braceStart = clause.indexOf("{");
+  const head = braceStart === -1 ? clause : clause.substring(0, braceStart);
+  const defaultName = head.replace(",", "").trim();
+
+  if (keyword === "import" && defaultName && !defaultName.startsWith("*")) {
+    names.push("default");
+  }
+
+  if (braceStart !== -1) {
+    const body = clause.substring(braceStart + 1, clause.indexOf("}"));
+    for (const part of body.split(",")) {
+      const trimmed = part.trim();
+      if (!trimmed || trimmed.startsWith("type ")) continue;
+      names.push(trimmed.split(/\s+as\s+/)[0]);
+    }
+  }
+
+  return names;
+}
+
+// Collect the module specifiers a file imports or re-exports from, with the
+// names it expects each module to provide. Type-only imports are skipped
+// since they are erased by the transform.
+export function parseImports(code: string): ParsedImport[] {
+  const importRegex =
+    /\b(import|export)\s+(type\s+)?([\w$*\s{},]*?)\s*from\s*['"]([^'"]+)['"]/g;
+  const results: ParsedImport[] = [];
+
+  let match;
+  while ((match = importRegex.exec(code)) !== null) {
+    const [, keyword, typeOnly, clause, specifier] = match;
+    if (typeOnly) continue;
+    results.push({ specifier, names: parseImportClause(keyword, clause) });
+  }
+
+  return results;
+}
+
+// Find local imports that don't resolve to any script in the project
+export function findMissingImports(
+  files: Map<string, string>
+): MissingImport[] {
+  const missing: MissingImport[] = [];
+
+  for (const [path, content] of files) {
+    if (!SCRIPT_EXTENSIONS.some((ext) => path.endsWith(ext))) continue;
+
+    const seen = new Set<string>();
+    for (const { specifier } of parseImports(content)) {
+      if (
+        !isLocalSpecifier(specifier) ||
+        specifier.endsWith(".css") ||
+        seen.has(specifier)
+      ) {
+        continue;
+      }
+      seen.add(specifier);
+
+      if (!resolveLocalImport(path, specifier, files)) {
+        missing.push({ path, importPath: specifier });
+      }
+    }
+  }
+
+  return missing;
+}
+
+// Describe unresolved imports for the model, which otherwise can't tell the
+// preview is rendering placeholders
+export function formatMissingImports(missing: MissingImport[]): string {
+  const lines = missing.map(
+    ({ path, importPath }) => `- "${importPath}" imported in ${path}`
+  );
+  return [
+    "The following imports don't resolve to any file in the project. The preview renders them as placeholders until the files are created or the imports are fixed:",
+    ...lines,
+  ].join("\n");
+}
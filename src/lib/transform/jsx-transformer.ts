@@ -1,21 +1,74 @@
 import * as Babel from "@babel/standalone";
+import { PREVIEW_MESSAGE_SOURCE } from "@/lib/preview-messages";
+import {
+  MissingImport,
+  SCRIPT_EXTENSIONS,
+  findMissingImports,
+  isLocalSpecifier,
+  parseImports,
+  resolveLocalImport,
+  resolveRelativePath,
+  toAbsoluteImportPath,
+} from "./import-resolver";
+import {
+  PackageResolverOptions,
+  getTailwindUrl,
+  resolvePackageUrl,
+} from "./package-resolver";
+import { PACKAGE_MANIFEST_PATH, readDependencies } from "@/lib/package-manifest";
+import { ModuleCache } from "./module-cache";
+import { PreviewModule, SourceMap } from "./source-map";
+import {
+  SOURCE_LOCATION_ATTRIBUTE,
+  createSourceLocationPlugin,
+} from "./source-location-plugin";
 
 export interface TransformResult {
   code: string;
   error?: string;
+  // 1-based position of a syntax error, when Babel reports one
+  errorLocation?: { line: number; column: number };
   missingImports?: Set<string>;
   cssImports?: Set<string>;
+  map?: SourceMap;
 }
 
-// Helper to create a placeholder module
-function createPlaceholderModule(componentName: string): string {
+// A file that failed to transform. Line and column are 1-based.
+export interface TransformError {
+  path: string;
+  error: string;
+  line?: number;
+  column?: number;
+}
+
+// Helper to create a placeholder module. It renders a visible warning and
+// exports every name importers asked for, so named imports don't fail to link.
+function createPlaceholderModule(
+  importPath: string,
+  exportNames: Iterable<string>
+): string {
+  const names = Array.from(new Set(exportNames)).filter(
+    (name) => name !== "default" && /^[A-Za-z_$][\w$]*$/.test(name)
+  );
+  const label = JSON.stringify(`Missing import: ${importPath}`);
+
   return `
 import React from 'react';
-const ${componentName} = function() {
-  return React.createElement('div', {}, null);
+const MissingImport = function() {
+  return React.createElement('div', {
+    style: {
+      padding: '8px 12px',
+      border: '1px dashed #f59e0b',
+      borderRadius: '6px',
+      background: '#fffbeb',
+      color: '#92400e',
+      fontSize: '12px',
+      fontFamily: 'ui-monospace, monospace',
+    },
+  }, ${label});
 }
-export default ${componentName};
-export { ${componentName} };
+export default MissingImport;
+${names.length > 0 ? `export { ${names.map((name) => `MissingImport as ${name}`).join(", ")} };` : ""}
 `;
 }
 
@@ -59,18 +112,27 @@ export function transformJSX(
         ["react", { runtime: "automatic" }],
         ...(isTypeScript ? ["typescript"] : []),
       ],
-      plugins: [],
+      // Tag elements with their source location for the element inspector
+      plugins: [createSourceLocationPlugin(filename)],
+      // Inline the map so devtools show the original file, and keep a copy
+      // to map runtime stack traces back to it
+      sourceMaps: "both",
+      sourceFileName: filename,
     });
 
     return {
       code: result.code || "",
       missingImports: imports,
       cssImports: cssImports,
+      map: (result.map as SourceMap | null | undefined) ?? undefined,
     };
   } catch (error) {
+    // Babel attaches the 0-based column of syntax errors
+    const loc = (error as { loc?: { line: number; column: number } }).loc;
     return {
       code: "",
       error: error instanceof Error ? error.message : "Unknown transform error",
+      ...(loc && { errorLocation: { line: loc.line, column: loc.column + 1 } }),
     };
   }
 }
@@ -86,50 +148,102 @@ export function createBlobURL(
 export interface ImportMapResult {
   importMap: string;
   styles: string;
-  errors: Array<{ path: string; error: string }>;
+  errors: TransformError[];
+  // Local imports that were replaced with a placeholder module
+  missingImports: MissingImport[];
+  // Project files in the import map, keyed by blob URL
+  modules: Record<string, PreviewModule>;
 }
 
-export function createImportMap(files: Map<string, string>): ImportMapResult {
-  const imports: Record<string, string> = {
-    react: "https://esm.sh/react@19",
-    "react-dom": "https://esm.sh/react-dom@19",
-    "react-dom/client": "https://esm.sh/react-dom@19/client",
-    "react/jsx-runtime": "https://esm.sh/react@19/jsx-runtime",
-    "react/jsx-dev-runtime": "https://esm.sh/react@19/jsx-dev-runtime",
+// Modules the preview runtime itself imports
+const RUNTIME_SPECIFIERS = [
+  "react",
+  "react-dom",
+  "react-dom/client",
+  "react/jsx-runtime",
+  "react/jsx-dev-runtime",
+];
+
+// Shared by every preview build so unchanged files skip Babel and keep their
+// blob URLs between rebuilds
+export const previewModuleCache = new ModuleCache<TransformResult>();
+
+export function createImportMap(
+  files: Map<string, string>,
+  options: PackageResolverOptions = {},
+  cache: ModuleCache<TransformResult> = previewModuleCache
+): ImportMapResult {
+  // Versions pinned in the project's manifest, unless overridden by the caller
+  const packageOptions: PackageResolverOptions = {
+    ...options,
+    versions: {
+      ...readDependencies(files.get(PACKAGE_MANIFEST_PATH)),
+      ...options.versions,
+    },
   };
+  const imports: Record<string, string> = {};
+  for (const specifier of RUNTIME_SPECIFIERS) {
+    imports[specifier] = resolvePackageUrl(specifier, packageOptions);
+  }
 
   // Transform each file and create blob URLs
   const transformedFiles = new Map<string, string>();
   const existingFiles = new Set(files.keys());
   const allImports = new Set<string>();
   const allCssImports = new Set<{ from: string; cssPath: string }>();
+  // Names requested from each local module, keyed by import map specifier
+  const importedNames = new Map<string, Set<string>>();
   let collectedStyles = "";
-  const errors: Array<{ path: string; error: string }> = [];
+  const errors: TransformError[] = [];
+  const modules: Record<string, PreviewModule> = {};
 
-  // First pass: transform all files and collect imports
+  // Transform every script up front so imports only resolve to files that
+  // actually made it into the import map
+  const transformResults = new Map<string, TransformResult>();
+  const importableFiles = new Map<string, string>();
   for (const [path, content] of files) {
-    if (
-      path.endsWith(".js") ||
-      path.endsWith(".jsx") ||
-      path.endsWith(".ts") ||
-      path.endsWith(".tsx")
-    ) {
-      const { code, error, missingImports, cssImports } = transformJSX(
-        content,
-        path,
-        existingFiles
+    if (SCRIPT_EXTENSIONS.some((ext) => path.endsWith(ext))) {
+      const result = cache.transform(path, content, () =>
+        transformJSX(content, path, existingFiles)
       );
+      transformResults.set(path, result);
+      if (!result.error) {
+        importableFiles.set(path, content);
+      }
+    }
+  }
+
+  // First pass: register transformed files and collect imports
+  for (const [path, content] of files) {
+    const transformResult = transformResults.get(path);
+    if (transformResult) {
+      const { code, error, errorLocation, missingImports, cssImports, map } =
+        transformResult;
       
       if (error) {
         // Track error for this file
-        errors.push({ path, error });
+        errors.push({ path, error, ...errorLocation });
         // Skip processing this file entirely
         continue;
       }
       
-      // Normal successful transform
-      const blobUrl = createBlobURL(code);
+      // Normal successful transform. Relative specifiers can't be resolved
+      // against a blob URL, so point local imports at import map keys first
+      const blobUrl = cache.moduleURL(
+        path,
+        rewriteLocalImports(code, path, importableFiles),
+        createBlobURL
+      );
       transformedFiles.set(path, blobUrl);
+      modules[blobUrl] = { path, map };
+
+      for (const { specifier, names } of parseImports(content)) {
+        if (!isLocalSpecifier(specifier)) continue;
+        const key = toImportMapSpecifier(path, specifier, importableFiles);
+        const existing = importedNames.get(key) || new Set<string>();
+        names.forEach((name) => existing.add(name));
+        importedNames.set(key, existing);
+      }
 
       // Collect all imports
       if (missingImports) {
@@ -141,10 +255,10 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
           
           if (isPackage) {
             // Add third-party packages directly to import map
-            imports[imp] = `https://esm.sh/${imp}`;
+            imports[imp] = resolvePackageUrl(imp, packageOptions);
           } else {
             // Add local imports to be processed later
-            allImports.add(imp);
+            allImports.add(toImportMapSpecifier(path, imp, importableFiles));
           }
         });
       }
@@ -221,9 +335,8 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
                       !importPath.startsWith("@/");
 
     if (isPackage) {
-      // Handle third-party packages from esm.sh
-      const packageUrl = `https://esm.sh/${importPath}`;
-      imports[importPath] = packageUrl;
+      // Handle third-party packages through the package resolver
+      imports[importPath] = resolvePackageUrl(importPath, packageOptions);
       continue;
     }
 
@@ -240,23 +353,26 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
       importPath.replace("@/", "/") + ".tsx",
     ];
 
+    // Only transformed files are registered, so an import of a file with a
+    // syntax error gets a placeholder too
     for (const variant of variations) {
-      if (imports[variant] || files.has(variant)) {
+      if (imports[variant]) {
         found = true;
         break;
       }
     }
 
     if (!found) {
-      // Extract component name from path
-      const match = importPath.match(/\/([^\/]+)$/);
-      const componentName = match
-        ? match[1]
-        : importPath.replace(/[^a-zA-Z0-9]/g, "");
-
       // Create placeholder module
-      const placeholderCode = createPlaceholderModule(componentName);
-      const placeholderUrl = createBlobURL(placeholderCode);
+      const placeholderCode = createPlaceholderModule(
+        importPath,
+        importedNames.get(importPath) || []
+      );
+      const placeholderUrl = cache.moduleURL(
+        `placeholder:${importPath}`,
+        placeholderCode,
+        createBlobURL
+      );
 
       // Add all possible import variations
       imports[importPath] = placeholderUrl;
@@ -267,34 +383,211 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
     }
   }
 
+  // Revoke blob URLs of modules that changed or were removed
+  cache.finishBuild();
+
   return {
     importMap: JSON.stringify({ imports }, null, 2),
     styles: collectedStyles,
-    errors
+    errors,
+    // Imports of files with syntax errors are reported through errors instead
+    missingImports: findMissingImports(files).filter(({ path }) =>
+      importableFiles.has(path)
+    ),
+    modules,
   };
 }
 
-// Helper function to resolve relative paths
-function resolveRelativePath(fromDir: string, relativePath: string): string {
-  const parts = fromDir.split("/").filter(Boolean);
-  const relParts = relativePath.split("/");
-  
-  for (const part of relParts) {
-    if (part === "..") {
-      parts.pop();
-    } else if (part !== ".") {
-      parts.push(part);
-    }
+// Map a local import to the "@/" key it is registered under in the import
+// map. Unresolved relative imports still become absolute so the placeholder
+// for a missing file is shared by every importer.
+function toImportMapSpecifier(
+  fromPath: string,
+  specifier: string,
+  files: Map<string, string>
+): string {
+  const resolved = resolveLocalImport(fromPath, specifier, files);
+  if (resolved) {
+    return "@" + resolved;
+  }
+  if (specifier.startsWith("./") || specifier.startsWith("../")) {
+    return "@" + toAbsoluteImportPath(fromPath, specifier);
   }
-  
-  return "/" + parts.join("/");
+  return specifier;
+}
+
+function rewriteLocalImports(
+  code: string,
+  fromPath: string,
+  files: Map<string, string>
+): string {
+  return code.replace(
+    /(\bfrom\s*|\bimport\s*\(?\s*)(["'])([^"']+)\2/g,
+    (statement, prefix: string, quote: string, specifier: string) =>
+      isLocalSpecifier(specifier)
+        ? `${prefix}${quote}${toImportMapSpecifier(fromPath, specifier, files)}${quote}`
+        : statement
+  );
+}
+
+// Longest console message forwarded to the parent window
+const MAX_PREVIEW_MESSAGE_LENGTH = 2000;
+
+// Runs inside the preview before any app code. Forwards console output and
+// uncaught errors to the parent window and runs the element inspector (see
+// PreviewFrame)
+const previewBridgeScript = `
+  (function() {
+    function post(message) {
+      message.source = '${PREVIEW_MESSAGE_SOURCE}';
+      try {
+        window.parent.postMessage(message, '*');
+      } catch (e) {}
+    }
+
+    function format(value) {
+      if (value instanceof Error) return value.message;
+      if (typeof value === 'string') return value;
+      try {
+        var json = JSON.stringify(value);
+        return json === undefined ? String(value) : json;
+      } catch (e) {
+        return String(value);
+      }
+    }
+
+    ['log', 'info', 'warn', 'error'].forEach(function(level) {
+      var original = console[level];
+      console[level] = function() {
+        var args = Array.prototype.slice.call(arguments);
+        post({
+          type: 'console',
+          level: level,
+          message: args.map(format).join(' ').slice(0, ${MAX_PREVIEW_MESSAGE_LENGTH})
+        });
+        original.apply(console, args);
+      };
+    });
+
+    function reportError(error) {
+      post({
+        type: 'error',
+        message: error && error.message ? error.message : String(error),
+        stack: error && error.stack ? String(error.stack) : undefined
+      });
+    }
+
+    window.addEventListener('error', function(event) {
+      reportError(event.error || event.message);
+    });
+
+    window.addEventListener('unhandledrejection', function(event) {
+      reportError(event.reason);
+    });
+
+    // Element inspector, toggled by the parent window. Hovered elements are
+    // outlined and a click reports the element instead of reaching the app.
+    var inspecting = false;
+    var overlay = null;
+
+    function highlight(element) {
+      if (!overlay) {
+        overlay = document.createElement('div');
+        overlay.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;border:2px solid #3b82f6;background:rgba(59,130,246,0.12);border-radius:2px;';
+        document.body.appendChild(overlay);
+      }
+      var rect = element.getBoundingClientRect();
+      overlay.style.display = 'block';
+      overlay.style.top = rect.top + 'px';
+      overlay.style.left = rect.left + 'px';
+      overlay.style.width = rect.width + 'px';
+      overlay.style.height = rect.height + 'px';
+    }
+
+    function onHover(event) {
+      if (event.target instanceof Element) highlight(event.target);
+    }
+
+    function onPick(event) {
+      var element = event.target;
+      if (!(element instanceof Element)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      var tagged = element.closest('[${SOURCE_LOCATION_ATTRIBUTE}]');
+      post({
+        type: 'element-selected',
+        element: {
+          tagName: element.tagName.toLowerCase(),
+          className: typeof element.className === 'string' ? element.className : '',
+          text: (element.textContent || '').trim().slice(0, ${MAX_PREVIEW_MESSAGE_LENGTH}),
+          source: tagged ? tagged.getAttribute('${SOURCE_LOCATION_ATTRIBUTE}') : undefined
+        }
+      });
+      setInspecting(false);
+    }
+
+    function setInspecting(enabled) {
+      if (enabled === inspecting) return;
+      inspecting = enabled;
+      var method = enabled ? 'addEventListener' : 'removeEventListener';
+      document[method]('mouseover', onHover, true);
+      document[method]('click', onPick, true);
+      document.documentElement.style.cursor = enabled ? 'crosshair' : '';
+      if (!enabled && overlay) overlay.style.display = 'none';
+    }
+
+    window.addEventListener('message', function(event) {
+      var data = event.data;
+      if (
+        event.source !== window.parent ||
+        !data ||
+        data.source !== '${PREVIEW_MESSAGE_SOURCE}' ||
+        data.type !== 'inspect'
+      ) {
+        return;
+      }
+      setInspecting(!!data.enabled);
+    });
+
+    window.__uigenPreview = { post: post, reportError: reportError };
+  })();
+`;
+
+// Makes each item of the syntax error panel ask the parent window to open
+// the file at the reported position (see PreviewFrame)
+const syntaxErrorLinksScript = `
+  document.querySelectorAll('.syntax-errors .error-item').forEach(function(item) {
+    function open() {
+      window.__uigenPreview.post({
+        type: 'open-file',
+        path: item.dataset.path,
+        line: item.dataset.line ? Number(item.dataset.line) : undefined,
+        column: item.dataset.column ? Number(item.dataset.column) : undefined
+      });
+    }
+    item.addEventListener('click', open);
+    item.addEventListener('keydown', function(event) {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        open();
+      }
+    });
+  });
+`;
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
 }
 
 export function createPreviewHTML(
   entryPoint: string,
   importMap: string,
   styles: string = "",
-  errors: Array<{ path: string; error: string }> = []
+  errors: TransformError[] = []
 ): string {
   // Parse the import map to get the blob URL for the entry point
   let entryPointUrl = entryPoint;
@@ -313,7 +606,8 @@ export function createPreviewHTML(
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Preview</title>
-  <script src="https://cdn.tailwindcss.com"></script>
+  <script>${previewBridgeScript}</script>
+  <script src="${getTailwindUrl()}"></script>
   <style>
     body {
       margin: 0;
@@ -352,6 +646,7 @@ export function createPreviewHTML(
       gap: 8px;
     }
     .syntax-errors .error-item {
+      cursor: pointer;
       margin: 16px 0;
       padding: 16px;
       background: #fff;
@@ -359,6 +654,11 @@ export function createPreviewHTML(
       border-left: 4px solid #ff6b6b;
       box-shadow: 0 2px 4px rgba(0, 0, 0, 0.05);
     }
+    .syntax-errors .error-item:hover,
+    .syntax-errors .error-item:focus {
+      outline: none;
+      border-left-color: #dc2626;
+    }
     .syntax-errors .error-path {
       font-weight: 600;
       color: #991b1b;
@@ -402,9 +702,9 @@ export function createPreviewHTML(
         const cleanError = e.error.replace(/\(\d+:\d+\)/, '').trim();
         
         return `
-        <div class="error-item">
+        <div class="error-item" role="button" tabindex="0" title="Open in editor" data-path="${escapeHTML(e.path)}"${e.line ? ` data-line="${e.line}" data-column="${e.column ?? 1}"` : ''}>
           <div class="error-path">
-            ${e.path}
+            ${escapeHTML(e.path)}
             ${location ? `<span class="error-location">${location}</span>` : ''}
           </div>
           <div class="error-message">${cleanError.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</div>
@@ -412,6 +712,7 @@ export function createPreviewHTML(
       `;
       }).join('')}
     </div>
+    <script>${syntaxErrorLinksScript}</script>
   ` : ''}
   <div id="root"></div>
   ${errors.length === 0 ? `<script type="module">
@@ -428,8 +729,9 @@ export function createPreviewHTML(
         return { hasError: true, error };
       }
 
-      componentDidCatch(error, errorInfo) {
-        console.error('Error caught by boundary:', error, errorInfo);
+      // Reported once, through the bridge: the preview console lists it
+      componentDidCatch(error) {
+        window.__uigenPreview.reportError(error);
       }
 
       render() {
@@ -459,9 +761,9 @@ export function createPreviewHTML(
             React.createElement(App)
           )
         );
+        window.__uigenPreview.post({ type: 'ready' });
       } catch (error) {
-        console.error('Failed to load app:', error);
-        console.error('Import map:', ${JSON.stringify(importMap)});
+        window.__uigenPreview.reportError(error);
         document.getElementById('root').innerHTML = '<div class="error-boundary"><h2>Failed to load app</h2><pre>' + error.toString() + '</pre></div>';
       }
     }
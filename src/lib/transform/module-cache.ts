@@ -0,0 +1,88 @@
+// 53-bit string hash (cyrb53). Only used to detect changed content, so
+// collisions are unlikely enough not to matter.
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+interface CacheEntry<T> {
+  hash: string;
+  value: T;
+}
+
+// Keeps transform results and blob URLs between preview builds so that only
+// modules whose content changed are transformed and uploaded again. Each
+// build marks the modules it uses; finishBuild() revokes the blob URLs of
+// modules that were replaced or are no longer part of the preview.
+export class ModuleCache<TTransform> {
+  private transforms = new Map<string, CacheEntry<TTransform>>();
+  private urls = new Map<string, CacheEntry<string>>();
+  private used = new Set<string>();
+  private staleUrls: string[] = [];
+
+  transform(id: string, content: string, run: () => TTransform): TTransform {
+    const hash = hashString(content);
+    const cached = this.transforms.get(id);
+    this.used.add(id);
+    if (cached && cached.hash === hash) {
+      return cached.value;
+    }
+
+    const value = run();
+    this.transforms.set(id, { hash, value });
+    return value;
+  }
+
+  moduleURL(id: string, code: string, create: (code: string) => string) {
+    const hash = hashString(code);
+    const cached = this.urls.get(id);
+    this.used.add(id);
+
+    if (cached && cached.hash === hash) {
+      return cached.value;
+    }
+    if (cached) {
+      this.staleUrls.push(cached.value);
+    }
+
+    const url = create(code);
+    this.urls.set(id, { hash, value: url });
+    return url;
+  }
+
+  finishBuild() {
+    for (const [id, entry] of this.urls) {
+      if (!this.used.has(id)) {
+        this.staleUrls.push(entry.value);
+        this.urls.delete(id);
+      }
+    }
+    for (const id of this.transforms.keys()) {
+      if (!this.used.has(id)) {
+        this.transforms.delete(id);
+      }
+    }
+
+    this.staleUrls.forEach((url) => URL.revokeObjectURL(url));
+    this.staleUrls = [];
+    this.used.clear();
+  }
+
+  clear() {
+    this.urls.forEach((entry) => this.staleUrls.push(entry.value));
+    this.urls.clear();
+    this.transforms.clear();
+    this.used.clear();
+    this.finishBuild();
+  }
+}
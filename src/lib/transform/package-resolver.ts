@@ -0,0 +1,60 @@
+// Packages are fetched from an esm.sh-compatible server laid out as
+// `${baseUrl}/${name}@${version}/${subpath}`. Point it at the local vendor
+// route ("/api/vendor") to run the preview without internet access.
+const DEFAULT_PACKAGE_BASE_URL = "https://esm.sh";
+
+// Tailwind's browser runtime is bundled with the app and served locally
+const DEFAULT_TAILWIND_URL = "/api/vendor/tailwindcss";
+
+// The preview runtime renders with these, so they are always pinned
+export const DEFAULT_PACKAGE_VERSIONS: Record<string, string> = {
+  react: "19",
+  "react-dom": "19",
+};
+
+export interface PackageResolverOptions {
+  baseUrl?: string;
+  // Versions pinned by the project, keyed by package name
+  versions?: Record<string, string>;
+}
+
+export function getPackageBaseUrl(): string {
+  return (
+    process.env.NEXT_PUBLIC_PREVIEW_PACKAGE_URL || DEFAULT_PACKAGE_BASE_URL
+  ).replace(/\/+$/, "");
+}
+
+export function getTailwindUrl(): string {
+  return process.env.NEXT_PUBLIC_PREVIEW_TAILWIND_URL || DEFAULT_TAILWIND_URL;
+}
+
+// Split a bare specifier into its package name and subpath, e.g.
+// "@radix-ui/react-icons/dist/x" -> "@radix-ui/react-icons" + "/dist/x"
+export function splitPackageSpecifier(specifier: string): {
+  name: string;
+  subpath: string;
+} {
+  const segments = specifier.split("/");
+  const nameLength = specifier.startsWith("@") ? 2 : 1;
+  const subpath = segments.slice(nameLength).join("/");
+
+  return {
+    name: segments.slice(0, nameLength).join("/"),
+    subpath: subpath ? "/" + subpath : "",
+  };
+}
+
+export function resolvePackageUrl(
+  specifier: string,
+  { baseUrl = getPackageBaseUrl(), versions = {} }: PackageResolverOptions = {}
+): string {
+  const { name, subpath } = splitPackageSpecifier(specifier);
+
+  // Specifiers that already carry a version ("lodash@4") are used as written
+  const hasVersion = name.lastIndexOf("@") > 0;
+  const version = hasVersion
+    ? undefined
+    : versions[name] || DEFAULT_PACKAGE_VERSIONS[name];
+
+  return `${baseUrl}/${name}${version ? `@${version}` : ""}${subpath}`;
+}
@@ -0,0 +1,50 @@
+import type { PluginObj, types as BabelTypes } from "@babel/core";
+
+// Attribute added to every DOM element rendered by project code, holding the
+// "path:line:column" of the JSX that created it (see the element inspector
+// in PreviewFrame)
+export const SOURCE_LOCATION_ATTRIBUTE = "data-uigen-source";
+
+// Babel plugin that tags host JSX elements with their source location.
+// Components are left alone since they'd receive the attribute as a prop.
+export function createSourceLocationPlugin(filename: string) {
+  return ({ types: t }: { types: typeof BabelTypes }): PluginObj => ({
+    name: "uigen-source-location",
+    visitor: {
+      JSXOpeningElement(path) {
+        const { node } = path;
+        if (
+          !node.loc ||
+          !t.isJSXIdentifier(node.name) ||
+          !/^[a-z]/.test(node.name.name)
+        ) {
+          return;
+        }
+
+        const alreadyTagged = node.attributes.some(
+          (attribute) =>
+            t.isJSXAttribute(attribute) &&
+            attribute.name.name === SOURCE_LOCATION_ATTRIBUTE
+        );
+        if (alreadyTagged) return;
+
+        const { line, column } = node.loc.start;
+        node.attributes.push(
+          t.jsxAttribute(
+            t.jsxIdentifier(SOURCE_LOCATION_ATTRIBUTE),
+            t.stringLiteral(`${filename}:${line}:${column + 1}`)
+          )
+        );
+      },
+    },
+  });
+}
+
+// Split a source location attribute back into its parts
+export function parseSourceLocation(
+  value: string | null | undefined
+): { path: string; line: number; column: number } | null {
+  const match = value?.match(/^(.+):(\d+):(\d+)$/);
+  if (!match) return null;
+  return { path: match[1], line: Number(match[2]), column: Number(match[3]) };
+}
@@ -0,0 +1,139 @@
+// The parts of a v3 source map needed to map generated positions back
+export interface SourceMap {
+  version: number;
+  sources: string[];
+  mappings: string;
+}
+
+// A position in a project file. Line and column are 1-based, as in Monaco.
+export interface SourceLocation {
+  path: string;
+  line: number;
+  column: number;
+}
+
+// A module registered in the preview's import map
+export interface PreviewModule {
+  path: string;
+  map?: SourceMap;
+}
+
+// [generated column, source index, original line, original column], all
+// 0-based as in the source map spec
+type Segment = [number, number, number, number];
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function decodeVLQ(value: string): number[] {
+  const numbers: number[] = [];
+  let shift = 0;
+  let current = 0;
+
+  for (const char of value) {
+    const digit = BASE64_CHARS.indexOf(char);
+    if (digit === -1) return [];
+
+    current += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = current & 1;
+      current >>>= 1;
+      numbers.push(negative ? -current : current);
+      current = 0;
+      shift = 0;
+    }
+  }
+  return numbers;
+}
+
+// Decode the mappings string into segments grouped by generated line
+export function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const line of mappings.split(";")) {
+    const segments: Segment[] = [];
+    // Generated columns are relative to the previous segment on the same line
+    let generatedColumn = 0;
+
+    for (const group of line.split(",")) {
+      if (!group) continue;
+      const fields = decodeVLQ(group);
+      generatedColumn += fields[0] ?? 0;
+      // Segments without a source don't map to anything
+      if (fields.length < 4) continue;
+
+      sourceIndex += fields[1];
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+// Find the original position of a generated one. Takes and returns 1-based
+// lines and columns; null when the position isn't covered by the map.
+export function originalPositionFor(
+  map: SourceMap,
+  line: number,
+  column: number
+): { source: string; line: number; column: number } | null {
+  const segments = decodeMappings(map.mappings)[line - 1];
+  if (!segments || segments.length === 0) return null;
+
+  // The last segment starting at or before the column; fall back to the
+  // first one for positions before any mapped code on the line
+  let match = segments[0];
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    match = segment;
+  }
+
+  return {
+    source: map.sources[match[1]],
+    line: match[2] + 1,
+    column: match[3] + 1,
+  };
+}
+
+// Frames look like "at App (blob:http://host/uuid:12:5)" in Chrome and
+// "App@blob:http://host/uuid:12:5" in Firefox and Safari
+const BLOB_FRAME_REGEX = /(blob:[^\s()]+?):(\d+):(\d+)/g;
+
+// Rewrite the blob URLs and generated positions in a stack trace to project
+// paths and original positions. The location of the first frame that maps
+// to a project file is returned so the error can be opened in the editor.
+export function mapStackTrace(
+  stack: string,
+  modules: Record<string, PreviewModule>
+): { stack: string; location?: SourceLocation } {
+  let location: SourceLocation | undefined;
+
+  const mapped = stack.replace(
+    BLOB_FRAME_REGEX,
+    (frame, url: string, line: string, column: string) => {
+      const previewModule = modules[url];
+      if (!previewModule) return frame;
+
+      const original = previewModule.map
+        ? originalPositionFor(previewModule.map, Number(line), Number(column))
+        : null;
+      const resolved: SourceLocation = {
+        path: previewModule.path,
+        line: original ? original.line : Number(line),
+        column: original ? original.column : Number(column),
+      };
+
+      location ??= resolved;
+      return `${resolved.path}:${resolved.line}:${resolved.column}`;
+    }
+  );
+
+  return { stack: mapped, location };
+}
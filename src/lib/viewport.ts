@@ -0,0 +1,109 @@
+// Viewport sizes the preview can be rendered at, remembered per project
+const STORAGE_KEY_PREFIX = "uigen_viewport:";
+
+export type DevicePreset = "mobile" | "tablet" | "desktop";
+export type ViewportPreset = "responsive" | DevicePreset | "custom";
+
+export const DEVICE_PRESETS: Record<
+  DevicePreset,
+  { label: string; width: number; height: number }
+> = {
+  mobile: { label: "Mobile", width: 375, height: 667 },
+  tablet: { label: "Tablet", width: 768, height: 1024 },
+  desktop: { label: "Desktop", width: 1280, height: 800 },
+};
+
+export const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5];
+
+export const MIN_VIEWPORT_SIZE = 200;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export interface ViewportSettings {
+  preset: ViewportPreset;
+  // Size used by the custom preset
+  width: number;
+  height: number;
+  // Swap width and height (landscape for mobile and tablet)
+  rotated: boolean;
+  zoom: number;
+}
+
+export const DEFAULT_VIEWPORT: ViewportSettings = {
+  preset: "responsive",
+  width: 1024,
+  height: 768,
+  rotated: false,
+  zoom: 1,
+};
+
+function isPreset(value: unknown): value is ViewportPreset {
+  return (
+    value === "responsive" ||
+    value === "custom" ||
+    (typeof value === "string" && value in DEVICE_PRESETS)
+  );
+}
+
+export function clampViewportSize(size: number): number {
+  if (!Number.isFinite(size)) return MIN_VIEWPORT_SIZE;
+  return Math.min(
+    MAX_VIEWPORT_SIZE,
+    Math.max(MIN_VIEWPORT_SIZE, Math.round(size))
+  );
+}
+
+// The size the preview should be rendered at, or null to fill the panel
+export function getViewportSize(
+  settings: ViewportSettings
+): { width: number; height: number } | null {
+  if (settings.preset === "responsive") return null;
+
+  const { width, height } =
+    settings.preset === "custom" ? settings : DEVICE_PRESETS[settings.preset];
+  return settings.rotated
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+function storageKey(projectId?: string) {
+  return STORAGE_KEY_PREFIX + (projectId ?? "anonymous");
+}
+
+export function loadViewportSettings(projectId?: string): ViewportSettings {
+  if (typeof window === "undefined") return DEFAULT_VIEWPORT;
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(storageKey(projectId)) || "null"
+    );
+    if (typeof stored !== "object" || stored === null) {
+      return DEFAULT_VIEWPORT;
+    }
+
+    return {
+      preset: isPreset(stored.preset) ? stored.preset : DEFAULT_VIEWPORT.preset,
+      width:
+        typeof stored.width === "number"
+          ? clampViewportSize(stored.width)
+          : DEFAULT_VIEWPORT.width,
+      height:
+        typeof stored.height === "number"
+          ? clampViewportSize(stored.height)
+          : DEFAULT_VIEWPORT.height,
+      rotated: stored.rotated === true,
+      zoom: ZOOM_LEVELS.includes(stored.zoom)
+        ? stored.zoom
+        : DEFAULT_VIEWPORT.zoom,
+    };
+  } catch {
+    return DEFAULT_VIEWPORT;
+  }
+}
+
+export function saveViewportSettings(
+  projectId: string | undefined,
+  settings: ViewportSettings
+) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(storageKey(projectId), JSON.stringify(settings));
+}